@@ -1,5 +1,60 @@
   import React, { useState, useMemo, useRef, useLayoutEffect, useEffect } from 'react';
-  import { Play, Pause, RotateCcw, Settings, ZoomIn, ZoomOut, RotateCw, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Camera, Eye, EyeOff } from 'lucide-react';
+  import { Play, Pause, RotateCcw, Settings, ZoomIn, ZoomOut, RotateCw, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Camera, Eye, EyeOff, Maximize, LayoutGrid, Link, Unlink, Keyboard, FileText, MousePointer2, SquareDashed, Lasso } from 'lucide-react';
+  import { makeProjector } from './render/projection';
+  import { DEFAULT_STEREO, type StereoOptions } from './render/stereo';
+  import { DEFAULT_DEPTH_CUES, type DepthCues } from './render/depthCues';
+  import { MAX_FOCAL_LENGTH, MIN_FOCAL_LENGTH, boundsOf, dolly, fitToBounds, orbit, pan, type Camera as OrbitCamera } from './render/camera';
+  import { packPointCloud, type HighlightLayer } from './render/pointCloud';
+  import { Canvas3D } from './render/Canvas3D';
+  import { useSieve } from './sieve/useSieve';
+  import './sequences/builtins';
+  import { useSequenceLayers, type SequenceLayerState } from './sequences/useSequenceLayers';
+  import { SequencePanel } from './sequences/SequencePanel';
+  import { createSequenceContext } from './sequences/arithmetic';
+  import type { SequenceParams } from './sequences/registry';
+  import { getColorScheme, legendSwatch, toCss } from './coloring/schemes';
+  import { ColoringPanel } from './coloring/ColoringPanel';
+  import {
+    CANVAS_MAX_N, DEFAULT_VIEW, FAR_MAX_N, SVG_MAX_N,
+    decodeViewState, encodeViewState, exactN, formatN, lastReachable, parseExact, sanitizeView, splitStart, windowStartAround, type Mode, type Renderer, type ViewState,
+  } from './state/viewState';
+  import { PresetsPanel } from './state/PresetsPanel';
+  import { ExportDialog } from './export/ExportDialog';
+  import { DataExportPanel } from './export/DataExportPanel';
+  import { StereoPanel } from './stereo/StereoPanel';
+  import { DepthCuesPanel } from './render/DepthCuesPanel';
+  import { AnalysisPanel, type AnalysisHighlight } from './analysis/AnalysisPanel';
+  import { compileCustomGeometry, type CustomGeometry } from './expr/customGeometry';
+  import { CustomGeometryPanel } from './expr/CustomGeometryPanel';
+  import { InspectorPanel } from './inspect/InspectorPanel';
+  import { TimelinePanel } from './timeline/TimelinePanel';
+  import { SweepPanel } from './sweep/SweepPanel';
+  import { sampleTimeline, type Keyframe, type Timeline } from './timeline/timeline';
+  import {
+    DEFAULT_COMPARISON, MAX_VIEWPORTS, divergingPoints, gridOf, type ComparisonState, type ComparisonViewport,
+  } from './compare/comparison';
+  import { ViewportControls } from './compare/ViewportControls';
+  import { describeView } from './a11y/describeView';
+  import { isTypingTarget } from './a11y/shortcuts';
+  import { ShortcutHelp } from './a11y/ShortcutHelp';
+  import { useReducedMotion } from './a11y/useReducedMotion';
+  import { findPointIndex, nearestNeighbors, type Neighbor } from './inspect/neighbors';
+  import { isPrimeTrial } from './inspect/numberTheory';
+  import { isPrimeBig } from './sieve/millerRabin';
+  import {
+    DOMAINS, LIFTS, compileLift, elementAt, enumerateLattice, liftLattice, maxNormBound, type LatticeOptions, type NumberDomain,
+  } from './domains/lattice';
+  import { RINGS, formatElement } from './domains/rings';
+  import { DomainPanel } from './domains/DomainPanel';
+  import {
+    DEFAULT_CLIP, clipTest, describeClip, type ClipState, type RangeTest, type SelectTool,
+  } from './region/region';
+  import { RegionPanel } from './region/RegionPanel';
+  import './geometry/builtins';
+  import { getGeometry, listGeometries, resolveGeometryParams } from './geometry/registry';
+  import { CUSTOM_GEOMETRY_ID, createCustomGeometry } from './geometry/custom';
+  import { ParamSliders } from './geometry/ParamSliders';
+  import type { GeometryParams, Point3D } from './geometry/types';
 
   /* -------------------- Utilities: element size (ResizeObserver) -------------------- */
   function useElementSize<T extends HTMLElement>() {
@@ -18,345 +73,473 @@
     return { ref, size };
   }
 
-  /* -------------------- Prime sieve -------------------- */
-  function sievePrimes(limit: number): number[] {
-    if (limit < 2) return [];
-    const sieve = new Array(limit + 1).fill(true);
-    sieve[0] = sieve[1] = false;
-    const upper = Math.floor(Math.sqrt(limit));
-    for (let p = 2; p <= upper; p++) {
-      if (sieve[p]) for (let i = p * p; i <= limit; i += p) sieve[i] = false;
-    }
-    return sieve.map((isPrime, i) => (isPrime ? i : -1)).filter(n => n > 0);
-  }
-
-  /* -------------------- Geometry generators -------------------- */
-  interface Point3D { n: number; x: number; y: number; z: number; }
-
-  function coordsHelix(N: number, stepAngle: number, radius: number, pitch: number): Point3D[] {
-    const points: Point3D[] = [];
-    for (let n = 1; n <= N; n++) {
-      const t = n * stepAngle;
-      points.push({ n, x: radius * Math.cos(t), y: radius * Math.sin(t), z: pitch * t });
-    }
-    return points;
+  /* -------------------- Main Component -------------------- */
+  function readViewFromHash(): ViewState {
+    return sanitizeView({ ...DEFAULT_VIEW, ...decodeViewState(window.location.hash) });
   }
 
-  function coordsSphericalSpiral(N: number, stepAngle: number): Point3D[] {
-    const points: Point3D[] = [];
-    for (let n = 1; n <= N; n++) {
-      const z = (2.0 * (n - 1)) / Math.max(N - 1, 1) - 1.0;
-      const r = Math.sqrt(Math.max(0, 1 - z * z));
-      const theta = n * stepAngle;
-      points.push({ n, x: r * cos(theta), y: r * sin(theta), z });
-    }
-    return points;
-  }
-  const { cos, sin, sqrt, max } = Math;
-  function coordsConicalArchimedean(N: number, stepAngle: number, a: number, b: number, c: number): Point3D[] {
-    const points: Point3D[] = [];
-    for (let n = 1; n <= N; n++) {
-      const t = n * stepAngle;
-      const r = a + b * t;
-      points.push({ n, x: r * Math.cos(t), y: r * Math.sin(t), z: c * t });
-    }
-    return points;
-  }
+  export default function App() {
+    // Restored once from the URL hash; every field below is mirrored back into it.
+    const [initial] = useState(readViewFromHash);
+    const [initialHasCamera] = useState(() => decodeViewState(window.location.hash).camera !== undefined);
+    const [domain, setDomainState] = useState<NumberDomain>(initial.domain);
+    const [latticeOptions, setLatticeOptions] = useState<LatticeOptions>(initial.lattice);
+    const [mode, setMode] = useState<Mode>(initial.mode);
+    const [N, setN] = useState(initial.N);
+    const [start, setStart] = useState(initial.start);
+    // Far windows only: n = 1 stands for origin + 1 (see viewState)
+    const [origin, setOrigin] = useState(() => BigInt(initial.origin));
+    const far = origin !== 0n;
+    const [isAnimating, setIsAnimating] = useState(false);
+    // With "reduce motion" set, the view never turns by itself
+    const reducedMotion = useReducedMotion();
+    const autoRotate = isAnimating && !reducedMotion;
+    const [showSettings, setShowSettings] = useState(false);
+    const [resetKey, setResetKey] = useState(0);
 
-  function coordsLayeredTime(N: number, blockSize: number, layerRadius: number, stepAngle: number): Point3D[] {
-    const points: Point3D[] = [];
-    const safe = Math.max(blockSize, 1);
-    for (let n = 1; n <= N; n++) {
-      const layer = Math.floor((n - 1) / safe);
-      const idxInLayer = (n - 1) % safe;
-      const theta = idxInLayer * stepAngle;
-      points.push({ n, x: layerRadius * Math.cos(theta), y: layerRadius * Math.sin(theta), z: layer });
-    }
-    return points;
-  }
+    // Parameters: only values that differ from the geometry's schema defaults are kept
+    const [geometryParams, setGeometryParams] = useState<Record<string, GeometryParams>>(initial.geometryParams);
+    const [custom, setCustom] = useState<CustomGeometry>(initial.custom);
+    const customCompiled = useMemo(() => compileCustomGeometry(custom), [custom.x, custom.y, custom.z, custom.params.map(p => p.name).join()]);
+    const [dotSize, setDotSize] = useState(initial.dotSize);
+    const [animationSpeed, setAnimationSpeed] = useState(initial.animationSpeed);
 
-  /* -------------------- 3D Canvas (SVG) -------------------- */
-  interface Canvas3DProps {
-    points: Point3D[];
-    primes: Set<number>;
-    dotSize: number;
-    isAnimating: boolean;
-    animationSpeed: number;
-    resetSignal: number;
-    width: number;
-    height: number;
-    rotation: { x: number; y: number };
-    setRotation: React.Dispatch<React.SetStateAction<{ x: number; y: number }>>;
-    zoom: number;
-    setZoom: React.Dispatch<React.SetStateAction<number>>;
-    showAllNumbers: boolean;
-    showAxes: boolean;
-    perspective: boolean;
-    svgRef: React.RefObject<SVGSVGElement>;
-  }
+    // Camera state lifted up for external buttons
+    const [camera, setCamera] = useState<OrbitCamera>(initial.camera);
+    const [autoFit, setAutoFit] = useState(initial.autoFit);
+    // Keyframed camera path; the playhead is in timeline seconds
+    const [timeline, setTimeline] = useState<Timeline>(initial.timeline);
+    const [playhead, setPlayhead] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [showAllNumbers, setShowAllNumbers] = useState(initial.showAllNumbers);
+    const [showAxes, setShowAxes] = useState(initial.showAxes);
+    const [perspective, setPerspective] = useState(initial.perspective);
+    const [stereo, setStereo] = useState<StereoOptions>(DEFAULT_STEREO);
+    const [cues, setCues] = useState<DepthCues>(DEFAULT_DEPTH_CUES);
+    const [renderer, setRenderer] = useState<Renderer>(initial.renderer);
+    const maxN = Math.min(renderer === 'svg' ? SVG_MAX_N : CANVAS_MAX_N, far ? FAR_MAX_N : Infinity);
 
-  export function Canvas3D({
-    points, primes, dotSize, isAnimating, animationSpeed, resetSignal,
-    width, height, rotation, setRotation, zoom, setZoom, showAllNumbers, showAxes, perspective, svgRef
-  }: Canvas3DProps) {
-    const [isDragging, setIsDragging] = useState(false);
-    const lastPos = useRef({ x: 0, y: 0 });
-    const pointers = useRef(new Map<number, { x: number; y: number }>());
+    const { ref: vizRef, size } = useElementSize<HTMLDivElement>();
 
-    const [tooltip, setTooltip] = useState<null | { x: number; y: number; label: string }>(null);
-    const pinch = useRef<{ startDist: number; startZoom: number } | null>(null);
+    // Gaussian and Eisenstein domains draw lattice points instead of the spiral, numbered n = 1 … size by
+    // norm; the integer window below is kept (and sieved) for when the domain switches back
+    const ring = domain === 'integers' ? null : RINGS[domain];
+    const normBound = ring ? Math.min(latticeOptions.normBound, maxNormBound(ring, maxN)) : 0;
+    const lattice = useMemo(() => (ring ? enumerateLattice(ring, normBound) : null), [ring, normBound]);
+    const liftCompiled = useMemo(() => compileLift(latticeOptions.expr), [latticeOptions.expr]);
 
-    // Reset
-    useEffect(() => { setRotation({ x: 0, y: 0 }); setZoom(1); }, [resetSignal]);
+    const end = start + N - 1;
+    // Timeline playback sieves the largest keyframe N once; each frame then only narrows the set
+    const [timelineSpan, setTimelineSpan] = useState<{ start: number; origin: bigint; N: number } | null>(null);
+    const spanN = timelineSpan && timelineSpan.start === start && timelineSpan.origin === origin ? timelineSpan.N : 0;
+    const sieveEnd = start + Math.max(N, spanN) - 1;
+    const sieve = useSieve(start, sieveEnd, origin);
+    const windowPrimes = useMemo(
+      () => (sieveEnd === end ? sieve.primes : new Set([...sieve.primes].filter(n => n <= end))),
+      [sieve.primes, end, sieveEnd],
+    );
+    const primes = lattice ? lattice.primes : windowPrimes;
+    const [showPrimes, setShowPrimes] = useState(initial.showPrimes);
+    const [sequenceLayers, setSequenceLayers] = useState<SequenceLayerState[]>(initial.sequenceLayers);
+    const seqCtx = useMemo(() => createSequenceContext(start, end, windowPrimes, origin), [start, end, windowPrimes, origin]);
+    const { resolved: resolvedLayers, highlight } = useSequenceLayers(sequenceLayers, seqCtx, lattice !== null);
+    const highlightedNames = [...(showPrimes ? ['Primes'] : []), ...highlight.map(l => l.label)];
+    const customGeometry = useMemo(() => createCustomGeometry(custom, customCompiled), [custom, customCompiled]);
+    const geometries = useMemo(() => [...listGeometries(), customGeometry], [customGeometry]);
+    const geometry = (mode === CUSTOM_GEOMETRY_ID ? customGeometry : getGeometry(mode)) ?? geometries[0];
+    const params = useMemo(
+      () => resolveGeometryParams(geometry, geometryParams[geometry.id]),
+      [geometry, geometryParams[geometry.id]],
+    );
+    const spiralPoints = useMemo(() => (lattice ? [] : geometry.generate(N, params, { start })), [lattice === null, geometry, N, params, start]);
+    const latticePoints = useMemo(
+      () => lattice && liftLattice(lattice, latticeOptions, liftCompiled),
+      [lattice, latticeOptions.lift, latticeOptions.height, liftCompiled],
+    );
+    const points = latticePoints ?? spiralPoints;
 
-    // rAF animation
-    useEffect(() => {
-      let raf = 0;
-      let last = performance.now();
-      const tick = (t: number) => {
-        const dt = Math.min(32, t - last);
-        last = t;
-        if (isAnimating) {
-          setRotation(prev => ({
-            x: prev.x + 0.001 * animationSpeed * dt,
-            y: prev.y + 0.0005 * animationSpeed * dt,
-          }));
-        }
-        raf = requestAnimationFrame(tick);
+    // Clipping planes and the n-range narrow what is drawn; the box and lasso tools mark a region
+    const [clip, setClip] = useState<ClipState>(DEFAULT_CLIP);
+    const range = useMemo((): RangeTest | null => {
+      if (clip.min === null && clip.max === null) return null;
+      // Exact bounds in window terms: local n, or the norm itself in lattice domains
+      const offset = lattice ? 0n : origin;
+      return {
+        lo: clip.min === null ? -Infinity : Number(clip.min - offset),
+        hi: clip.max === null ? Infinity : Number(clip.max - offset),
+        valueOf: lattice ? (n: number) => lattice.norms[n - 1] : (n: number) => n,
       };
-      raf = requestAnimationFrame(tick);
-      return () => cancelAnimationFrame(raf);
-    }, [isAnimating, animationSpeed, setRotation]);
-
-    const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
-      (e.target as Element).setPointerCapture?.(e.pointerId);
-      pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
-      if (pointers.current.size === 1) {
-        setIsDragging(true);
-        lastPos.current = { x: e.clientX, y: e.clientY };
-      } else if (pointers.current.size === 2) {
-        const [a, b] = [...pointers.current.values()];
-        const dx = a.x - b.x, dy = a.y - b.y;
-        pinch.current = { startDist: Math.hypot(dx, dy), startZoom: zoom };
-      }
+    }, [clip.min, clip.max, lattice, origin]);
+    const keep = useMemo(() => clipTest(points, clip, range), [points, clip.axes, range]);
+    const [tool, setTool] = useState<SelectTool>('orbit');
+    const [region, setRegion] = useState<Set<number>>(() => new Set());
+    const onRegion = (ns: number[], additive: boolean) => setRegion(r => {
+      const next = new Set(additive ? r : []);
+      for (const n of ns) next.add(n);
+      return next;
+    });
+    const setParam = (name: string, value: number) => {
+      const fallback = geometry.params.find(p => p.name === name)?.default;
+      setGeometryParams(all => {
+        const { [name]: _, ...rest } = all[geometry.id] ?? {};
+        return { ...all, [geometry.id]: value === fallback ? rest : { ...rest, [name]: value } };
+      });
     };
 
-    const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
-      if (!pointers.current.has(e.pointerId)) return;
-      pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
-
-      if (pointers.current.size === 1 && isDragging) {
-        const dx = e.clientX - lastPos.current.x;
-        const dy = e.clientY - lastPos.current.y;
-        lastPos.current = { x: e.clientX, y: e.clientY };
-        setRotation(prev => ({ x: prev.x + dy * 0.01, y: prev.y + dx * 0.01 }));
-      } else if (pointers.current.size === 2 && pinch.current) {
-        const [a, b] = [...pointers.current.values()];
-        const dx = a.x - b.x, dy = a.y - b.y;
-        const dist = Math.hypot(dx, dy);
-        const factor = dist / Math.max(1, pinch.current.startDist);
-        setZoom(z => Math.max(0.1, Math.min(5, pinch.current!.startZoom * factor)));
+    const [colorSchemeId, setColorSchemeId] = useState(initial.colorScheme);
+    const [colorParams, setColorParams] = useState<SequenceParams>(initial.colorParams);
+    // Block coloring follows the layered geometry's rings, whichever geometry is shown
+    const layered = getGeometry('layered');
+    const blockSize = params.blockSize ?? (layered ? resolveGeometryParams(layered, geometryParams.layered).blockSize : 200);
+    const coloring = useMemo(() => {
+      const scheme = getColorScheme(colorSchemeId, far, lattice !== null);
+      const params = { ...Object.fromEntries((scheme.params ?? []).map(p => [p.key, p.default])), ...colorParams };
+      return scheme.build({ points, primes, ctx: seqCtx, blockSize, params, lattice });
+    }, [colorSchemeId, far, colorParams, points, primes, seqCtx, blockSize, lattice]);
+
+    // Analysis charts highlight the primes behind a clicked bar as one more overlay
+    const [analysisHighlight, setAnalysisHighlight] = useState<AnalysisHighlight | null>(null);
+    const shownLayers = useMemo(() => {
+      const layers = [...highlight];
+      if (analysisHighlight) {
+        const { label, members } = analysisHighlight;
+        layers.push({ id: 'analysis', label: `Selected: ${label}`, color: '#22d3ee', has: (n: number) => members.has(n) });
       }
-    };
+      if (region.size) layers.push({ id: 'region', label: 'Region', color: '#f97316', has: (n: number) => region.has(n) });
+      return layers;
+    }, [highlight, analysisHighlight, region]);
 
-    const onPointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
-      pointers.current.delete(e.pointerId);
-      if (pointers.current.size < 2) pinch.current = null;
-      if (pointers.current.size === 0) setIsDragging(false);
+    // Comparison: up to three extra viewports with their own geometry. Linked ones share the lifted
+    // camera (and so the external buttons); unlinked ones keep a camera of their own.
+    const [comparison, setComparison] = useState<ComparisonState>(DEFAULT_COMPARISON);
+    // Comparison viewports place rational integers, so lattice domains show the main view alone
+    const viewportCount = lattice ? 1 : comparison.count;
+    const { linked } = comparison;
+    const shownViewports = comparison.viewports.slice(0, viewportCount - 1);
+    const grid = gridOf(viewportCount);
+    const GRID_GAP = 8;
+    const viewportSize = {
+      width: (size.width - GRID_GAP * (grid.cols - 1)) / grid.cols,
+      height: (size.height - GRID_GAP * (grid.rows - 1)) / grid.rows,
     };
+    const setViewportCount = (count: number) => setComparison(c => ({
+      ...c,
+      count,
+      viewports: Array.from({ length: Math.max(c.viewports.length, count - 1) }, (_, i) => (
+        c.viewports[i] ?? { mode: geometry.id, geometryParams: geometryParams[geometry.id] ?? {}, camera }
+      )),
+    }));
+    const updateViewport = (i: number, update: (v: ComparisonViewport) => ComparisonViewport) =>
+      setComparison(c => ({ ...c, viewports: c.viewports.map((v, j) => (j === i ? update(v) : v)) }));
+    // Stable per-slot setters, so Canvas3D's animation effect is not re-subscribed every render
+    const viewportCameraSetters = useMemo(() => Array.from({ length: MAX_VIEWPORTS - 1 }, (_, i): React.Dispatch<React.SetStateAction<OrbitCamera>> =>
+      (next) => setComparison(c => ({
+        ...c,
+        viewports: c.viewports.map((v, j) => (j === i ? { ...v, camera: typeof next === 'function' ? next(v.camera) : next } : v)),
+      }))), []);
+    const toggleLinked = () => setComparison(c => ({
+      ...c,
+      linked: !c.linked,
+      // Unlinked viewports start from the shared view
+      viewports: c.linked ? c.viewports.map(v => ({ ...v, camera })) : c.viewports,
+    }));
 
-    const onWheel = (e: React.WheelEvent<SVGSVGElement>) => {
-      e.preventDefault();
-      const k = e.ctrlKey ? 0.0025 : 0.001;
-      setZoom(prev => Math.max(0.1, Math.min(5, prev + (-e.deltaY) * k)));
+    const viewportGeometries = shownViewports.map(v => (v.mode === CUSTOM_GEOMETRY_ID ? customGeometry : getGeometry(v.mode)) ?? geometries[0]);
+    const viewportKey = JSON.stringify(shownViewports.map(v => [v.mode, v.geometryParams]));
+    const extraViews = useMemo(() => shownViewports.map((v, i) => {
+      const geo = viewportGeometries[i];
+      const viewParams = resolveGeometryParams(geo, v.geometryParams);
+      const viewPoints = geo.generate(N, viewParams, { start });
+      const scheme = getColorScheme(colorSchemeId, far);
+      const schemeParams = { ...Object.fromEntries((scheme.params ?? []).map(p => [p.key, p.default])), ...colorParams };
+      const viewColoring = scheme.build({ points: viewPoints, primes, ctx: seqCtx, blockSize: viewParams.blockSize ?? blockSize, params: schemeParams });
+      return { geometry: geo, params: viewParams, points: viewPoints, coloring: viewColoring, keep: clipTest(viewPoints, clip, range) };
+    }), [viewportKey, customGeometry, N, start, colorSchemeId, far, colorParams, primes, seqCtx, blockSize, clip.axes, range]);
+    const setViewportParam = (i: number, name: string, value: number) => {
+      const fallback = viewportGeometries[i].params.find(p => p.name === name)?.default;
+      updateViewport(i, v => {
+        const { [name]: _, ...rest } = v.geometryParams;
+        return { ...v, geometryParams: value === fallback ? rest : { ...rest, [name]: value } };
+      });
     };
+    const viewportCameras = useMemo(
+      () => [camera, ...comparison.viewports.slice(0, viewportCount - 1).map(v => (linked ? camera : v.camera))],
+      [camera, comparison.viewports, viewportCount, linked],
+    );
 
-    // Project function
-    const project = (pt: { x: number; y: number; z: number }) => {
-      const cx = width / 2, cy = height / 2;
-      const scale = Math.min(width, height) * 0.12 * zoom;
-      const cosX = Math.cos(rotation.x), sinX = Math.sin(rotation.x);
-      const cosY = Math.cos(rotation.y), sinY = Math.sin(rotation.y);
-      const y1 = pt.y * cosX - pt.z * sinX;
-      const z1 = pt.y * sinX + pt.z * cosX;
-      const x2 = pt.x * cosY + z1 * sinY;
-      const z2 = -pt.x * sinY + z1 * cosY;
-      const persp = perspective ? (1 / (1 + z2 * 0.1)) : 1;
-      return { x: cx + x2 * scale * persp, y: cy + y1 * scale * persp, z: z2, p: persp };
-    };
+    // Difference overlay: each viewport against the main one (the main one against the second)
+    const differences = useMemo(() => {
+      if (viewportCount < 2 || !comparison.showDifferences) return null;
+      const visible = (n: number) => showAllNumbers || (showPrimes && primes.has(n)) || highlight.some(l => l.has(n));
+      const views = [points, ...extraViews.map(v => v.points)].map((viewPoints, i) => ({
+        points: viewPoints,
+        projector: makeProjector({ ...viewportSize, camera: viewportCameras[i], perspective }),
+      }));
+      return views.map((v, i) => divergingPoints(v, views[i === 0 ? 1 : 0], comparison.threshold, visible));
+    }, [viewportCount, comparison.showDifferences, comparison.threshold, points, extraViews, viewportSize.width, viewportSize.height,
+      viewportCameras, perspective, showAllNumbers, showPrimes, primes, highlight]);
+    const viewportLayers = useMemo(() => Array.from({ length: viewportCount }, (_, i): HighlightLayer[] => {
+      const diverging = differences?.[i];
+      if (!diverging) return shownLayers;
+      return [...shownLayers, { id: 'difference', label: 'Diverging', color: '#f43f5e', has: (n: number) => diverging.has(n) }];
+    }), [viewportCount, shownLayers, differences]);
 
-    // Points
-    const projected = useMemo(() => {
-      const arr: { x: number; y: number; z: number; n: number; r: number; prime: boolean }[] = [];
-      for (const p of points) {
-        const prime = primes.has(p.n);
-        if (!prime && !showAllNumbers) continue;
-        const pr = project(p);
-        const r = Math.max(1, (dotSize) * pr.p);
-        arr.push({ x: pr.x, y: pr.y, z: pr.z, n: p.n, r, prime });
+    // Selection: clicked numbers, their nearest visible dots and the inspector's jump-to
+    const NEIGHBOR_COUNT = 6;
+    const [selected, setSelected] = useState<number[]>([]);
+    // The last prime set may belong to the previous window until the new one is ready
+    const isPrime = useMemo(() => (lattice ? (n: number) => lattice.primes.has(n)
+      : sieve.pending || sieve.error ? (far ? (n: number) => isPrimeBig(exactN(n, origin)) : isPrimeTrial) : seqCtx.isPrime),
+    [lattice, sieve.pending, sieve.error, far, origin, seqCtx]);
+    // Region statistics bin the exact value, or the norm in lattice domains
+    const residue = useMemo(() => (lattice ? (n: number, m: number) => lattice.norms[n - 1] % m
+      : far ? (n: number, m: number) => Number(exactN(n, origin) % BigInt(m)) : (n: number, m: number) => n % m),
+    [lattice, far, origin]);
+    const neighbors = useMemo(() => {
+      const visible = (p: Point3D) => (!keep || keep(p))
+        && (showAllNumbers || (showPrimes && primes.has(p.n)) || highlight.some(l => l.has(p.n)));
+      const out = new Map<number, Neighbor[]>();
+      for (const n of selected) {
+        const i = findPointIndex(points, n);
+        if (i >= 0) out.set(n, nearestNeighbors(points, i, NEIGHBOR_COUNT, visible));
       }
-      arr.sort((a, b) => a.z - b.z);
-      return arr;
-    }, [points, primes, rotation.x, rotation.y, zoom, dotSize, width, height, showAllNumbers, perspective]);
-
-    // Axes
-    const axes = useMemo(() => {
-      if (!showAxes) return null;
-      const L = 8; // axis half-length in world units
-      const lines = [
-        { a: project({ x: -L, y: 0, z: 0 }), b: project({ x: L, y: 0, z: 0 }), label: 'X', end: project({ x: L, y: 0, z: 0 }) },
-        { a: project({ x: 0, y: -L, z: 0 }), b: project({ x: 0, y: L, z: 0 }), label: 'Y', end: project({ x: 0, y: L, z: 0 }) },
-        { a: project({ x: 0, y: 0, z: -L }), b: project({ x: 0, y: 0, z: L }), label: 'Z', end: project({ x: 0, y: 0, z: L }) },
-      ];
-      return lines;
-    }, [rotation.x, rotation.y, zoom, width, height, perspective, showAxes]);
+      return out;
+    }, [selected, points, showAllNumbers, showPrimes, primes, highlight, keep]);
+    const neighborIds = useMemo(() => [...neighbors.values()].flat().map(nb => nb.n), [neighbors]);
 
-    return (
-      <div className="relative">
-        <svg
-          ref={svgRef}
-          width={width}
-          height={height}
-          className="border border-gray-300 bg-gray-900 touch-pan-y"
-          style={{ display: 'block', width: '100%', height: '100%' }}
-          onPointerDown={onPointerDown}
-          onPointerMove={onPointerMove}
-          onPointerUp={onPointerUp}
-          onPointerCancel={onPointerUp}
-          onWheel={onWheel}
-        >
-          {/* Axes */}
-          {axes && axes.map((ax, i) => (
-            <g key={i}>
-              <line x1={ax.a.x} y1={ax.a.y} x2={ax.b.x} y2={ax.b.y} stroke="white" strokeOpacity="0.35" strokeWidth="1"/>
-              <text x={ax.end.x + 6} y={ax.end.y - 6} fontSize="10" fill="white" fillOpacity="0.6">{ax.label}</text>
-            </g>
-          ))}
-
-          {/* Points */}
-          {projected.map((p, i) => (
-            <circle
-              key={`${p.n}-${i}`}
-              cx={p.x}
-              cy={p.y}
-              r={p.r}
-              fill={p.prime ? `hsl(${p.n % 360}, 70%, 60%)` : "rgba(255,255,255,0.2)"}
-              opacity={p.prime ? 0.9 : 0.5}
-              onMouseEnter={() => setTooltip({ x: p.x, y: p.y, label: `Prime: ${p.n}` })}
-              onMouseMove={() => setTooltip({ x: p.x, y: p.y, label: `Prime: ${p.n}` })}
-              onMouseLeave={() => setTooltip(null)}
-            >
-              <title>{p.prime ? `Prime: ${p.n}` : `${p.n}`}</title>
-            </circle>
-          ))}
-        </svg>
-
-        <div className="absolute top-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-sm">
-          Primes: {projected.filter(p => p.prime).length} / {points.length}
-        </div>
-        <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs">
-          Drag to rotate • Scroll/Pinch to zoom
-        </div>
+    const onPick = (n: number | null, additive: boolean) => setSelected(s => {
+      if (n === null) return additive ? s : [];
+      if (!additive) return [n];
+      return s.includes(n) ? s.filter(m => m !== n) : [...s, n];
+    });
 
-        {/* Floating tooltip */}
-        {tooltip && (
-          <div
-            className="pointer-events-none absolute bg-white text-gray-900 text-xs px-2 py-1 rounded shadow"
-            style={{ left: tooltip.x + 10, top: tooltip.y + 10 }}
-          >
-            {tooltip.label}
-          </div>
-        )}
-      </div>
-    );
-  }
+    const centerOn = (n: number) => {
+      const i = findPointIndex(points, n);
+      if (i >= 0) setCamera(c => ({ ...c, target: [points[i].x, points[i].y, points[i].z] }));
+    };
+    // Set when the window has to move first; centred once the new points exist
+    const pendingFocus = useRef<number | null>(null);
+    // Moves the window to begin at an exact first number, switching between sieved and far windows
+    const setFirst = (first: bigint) => {
+      const next = splitStart(first);
+      if (next.origin !== origin) {
+        // Window-relative selections would point at other numbers
+        setSelected([]);
+        setRegion(new Set());
+        if (next.origin) setN(n => Math.min(n, FAR_MAX_N));
+      }
+      setOrigin(next.origin);
+      setStart(next.start);
+      return next;
+    };
+    const jumpTo = (value: bigint) => {
+      // Lattice domains: value is the element's n, which the inspector only offers inside the norm bound
+      if (lattice) {
+        const n = Number(value);
+        setSelected(s => (s.includes(n) ? s : [...s, n]));
+        centerOn(n);
+        return;
+      }
+      const local = value - origin;
+      if (local >= BigInt(start) && local <= BigInt(end)) {
+        const n = Number(local);
+        setSelected(s => (s.includes(n) ? s : [...s, n]));
+        centerOn(n);
+        return;
+      }
+      const next = setFirst(windowStartAround(value, N));
+      const n = Number(value - next.origin);
+      setSelected(s => (s.includes(n) ? s : [...s, n]));
+      pendingFocus.current = n;
+    };
 
-  /* -------------------- Main Component -------------------- */
-  export default function App() {
-    const [mode, setMode] = useState<'helix' | 'spherical' | 'conical' | 'layered'>('helix');
-    const [N, setN] = useState(2000);
-    const [isAnimating, setIsAnimating] = useState(false);
-    const [showSettings, setShowSettings] = useState(false);
-    const [resetKey, setResetKey] = useState(0);
+    const setDomain = (next: NumberDomain) => {
+      if (next === domain) return;
+      // n stands for a different number in every domain
+      setSelected([]);
+      setRegion(new Set());
+      setClip(c => ({ ...c, min: null, max: null }));
+      setAnalysisHighlight(null);
+      setDomainState(next);
+    };
 
-    // Parameters
-    const [stepAngle, setStepAngle] = useState(0.35);
-    const [radius, setRadius] = useState(1.0);
-    const [pitch, setPitch] = useState(0.08);
-    const [a, setA] = useState(0.8);
-    const [b, setB] = useState(0.04);
-    const [c, setC] = useState(0.03);
-    const [blockSize, setBlockSize] = useState(200);
-    const [layerRadius, setLayerRadius] = useState(6.0);
-    const [dotSize, setDotSize] = useState(3);
-    const [animationSpeed, setAnimationSpeed] = useState(1);
+    // Shareable state: the whole view as one object, mirrored into the URL hash
+    const view: ViewState = {
+      domain, lattice: latticeOptions, mode, start, origin: String(origin), N, geometryParams, custom,
+      dotSize, animationSpeed, camera, autoFit, showAllNumbers, showAxes, perspective, renderer, showPrimes, sequenceLayers,
+      colorScheme: colorSchemeId, colorParams, timeline,
+    };
+    const hash = encodeViewState(view);
 
-    // Camera state lifted up for external buttons
-    const [rotation, setRotation] = useState({ x: 0, y: 0 });
-    const [zoom, setZoom] = useState(1);
-    const [showAllNumbers, setShowAllNumbers] = useState(false);
-    const [showAxes, setShowAxes] = useState(false);
-    const [perspective, setPerspective] = useState(true);
+    const applyView = (next: ViewState) => {
+      const v = sanitizeView(next);
+      setDomainState(v.domain); setLatticeOptions(v.lattice);
+      setMode(v.mode); setStart(v.start); setOrigin(BigInt(v.origin)); setN(v.N);
+      setGeometryParams(v.geometryParams); setCustom(v.custom);
+      setDotSize(v.dotSize); setAnimationSpeed(v.animationSpeed);
+      setCamera(v.camera); setAutoFit(v.autoFit);
+      keepCamera.current = true;
+      setShowAllNumbers(v.showAllNumbers); setShowAxes(v.showAxes); setPerspective(v.perspective);
+      setRenderer(v.renderer); setShowPrimes(v.showPrimes); setSequenceLayers(v.sequenceLayers);
+      setColorSchemeId(v.colorScheme); setColorParams(v.colorParams);
+      setTimeline(v.timeline);
+    };
 
-    const svgRef = useRef<SVGSVGElement | null>(null);
-    const { ref: vizRef, size } = useElementSize<HTMLDivElement>();
+    // Auto-fit re-frames new geometry, except when the camera itself was just restored (URL, preset).
+    // keepCamera is cleared after every commit, so it only shields the points of that same commit.
+    const keepCamera = useRef(initialHasCamera);
+    useEffect(() => {
+      if (autoFit && !keepCamera.current) setCamera(c => fitToBounds(c, boundsOf(points)));
+    }, [points, autoFit]);
+    useEffect(() => {
+      if (pendingFocus.current === null) return;
+      centerOn(pendingFocus.current);
+      pendingFocus.current = null;
+    }, [points]);
+    useEffect(() => { keepCamera.current = false; });
+    // A lower norm bound (or the SVG renderer's cap) drops the outer elements, and their n with them
+    useEffect(() => {
+      if (!lattice) return;
+      const inside = (n: number) => n <= lattice.size;
+      setSelected(s => (s.every(inside) ? s : s.filter(inside)));
+      setRegion(r => ([...r].every(inside) ? r : new Set([...r].filter(inside))));
+    }, [lattice]);
 
-    const primes = useMemo(() => new Set(sievePrimes(N)), [N]);
-    const points = useMemo(() => {
-      switch (mode) {
-        case 'helix': return coordsHelix(N, stepAngle, radius, pitch);
-        case 'spherical': return coordsSphericalSpiral(N, stepAngle);
-        case 'conical': return coordsConicalArchimedean(N, stepAngle, a, b, c);
-        case 'layered': return coordsLayeredTime(N, blockSize, layerRadius, stepAngle);
-        default: return [];
-      }
-    }, [mode, N, stepAngle, radius, pitch, a, b, c, blockSize, layerRadius]);
-
-    const modelExplanations: Record<string, string> = {
-      helix: `
-**Helix (Cylindrical Spiral)**
-- **Position:** x = R·cos(t), y = R·sin(t), z = p·t where t = n·stepAngle.
-- **Idea:** Wrap the number line around a cylinder; as n grows, angle increases uniformly and height rises linearly.
-- **Look for:** Slanted bands or pseudo-diagonals of primes when stepAngle resonates with modular patterns.`,
-      spherical: `
-**Spherical Spiral**
-- **Position:** z spaced uniformly from −1 to 1; r = sqrt(1 − z²); θ = n·stepAngle; x = r·cos(θ), y = r·sin(θ).
-- **Idea:** Traverse the sphere with near-uniform surface coverage while numbers increment.
-- **Look for:** Whether prime density appears uniform across latitudes/longitudes.`,
-      conical: `
-**Conical Archimedean Spiral**
-- **Position:** r = a + b·t and z = c·t with t = n·stepAngle; x = r·cos(t), y = r·sin(t).
-- **Idea:** A 2D Archimedean spiral lifted in z; radius and height grow linearly.
-- **Look for:** Radial bands of primes; tweak b or c to stretch & reveal modular structures.`,
-      layered: `
-**Layered-Time Spiral**
-- **Position:** Integers chunked into blocks; each block forms a ring at fixed z. x = R·cos(k·stepAngle), y = R·sin(k·stepAngle).
-- **Idea:** Treat consecutive integers as time batches. Each layer is a batch; primes are highlighted timestamps.
-- **Look for:** Prime density differences between layers (local fluctuations).`,
+    // Timeline playback: the clock only moves the playhead; the view is sampled from the playhead alone
+    useEffect(() => {
+      if (!playing) return;
+      setIsAnimating(false);
+      let raf = 0;
+      let last = performance.now();
+      const tick = (now: number) => {
+        const dt = (now - last) / 1000;
+        last = now;
+        setPlayhead(t => Math.min(timeline.duration, t + dt));
+        raf = requestAnimationFrame(tick);
+      };
+      raf = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(raf);
+    }, [playing, timeline.duration]);
+    useEffect(() => {
+      if (playing && playhead >= timeline.duration) setPlaying(false);
+    }, [playing, playhead, timeline.duration]);
+    // Declared after the keepCamera reset so the flag survives into the commit with the new points
+    const [seekCount, setSeekCount] = useState(0);
+    useEffect(() => {
+      if (!playing && seekCount === 0) return;
+      const sample = sampleTimeline(timeline.keyframes, playhead);
+      if (!sample) return;
+      keepCamera.current = true;
+      setCamera(sample.camera);
+      const span = Math.min(maxN, Math.max(...timeline.keyframes.map(k => k.N)));
+      setTimelineSpan(s => (s && s.start === start && s.origin === origin && s.N === span ? s : { start, origin, N: span }));
+      setN(Math.min(maxN, sample.N));
+      setGeometryParams(all => {
+        const stored = Object.fromEntries(geometry.params
+          .filter(p => sample.params[p.name] !== undefined && sample.params[p.name] !== p.default)
+          .map(p => [p.name, sample.params[p.name]]));
+        return { ...all, [geometry.id]: stored };
+      });
+    }, [playhead, seekCount]);
+    const seek = (t: number) => {
+      setSeekCount(c => c + 1);
+      setPlayhead(Math.max(0, Math.min(timeline.duration, t)));
     };
+    const captureKeyframe = (t: number): Keyframe => ({ time: t, easing: 'ease-in-out', camera, N, params: { ...params } });
+
+    // Debounced: the camera changes every frame while animating, and browsers rate-limit replaceState.
+    useEffect(() => {
+      const id = window.setTimeout(() => {
+        if (window.location.hash.replace(/^#/, '') !== hash) {
+          window.history.replaceState(null, '', hash ? `#${hash}` : window.location.pathname + window.location.search);
+        }
+      }, 300);
+      return () => window.clearTimeout(id);
+    }, [hash]);
+
+    // A pasted link in the same tab only fires hashchange
+    useEffect(() => {
+      const onHashChange = () => applyView(readViewFromHash());
+      window.addEventListener('hashchange', onHashChange);
+      return () => window.removeEventListener('hashchange', onHashChange);
+    }, []);
 
     // Controls helpers
     const ROT_STEP = 0.12; // radians ~ 6.9°
     const ZOOM_STEP = 0.15;
+    const fitView = () => setCamera(c => fitToBounds(c, boundsOf(points)));
+    const resetView = () => { setIsAnimating(false); setResetKey(k => k + 1); };
+
+    // Keyboard: shortcuts act while a viewport has focus (see SHORTCUTS for the list)
+    const [helpOpen, setHelpOpen] = useState(false);
+    const onViewKeyDown = (e: React.KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      // Buttons in the viewport bars keep Space and Enter for themselves
+      if (e.target instanceof HTMLButtonElement) return;
+      const roll = e.shiftKey;
+      const actions: Record<string, () => void> = {
+        ArrowLeft: () => setCamera(c => (roll ? orbit(c, 0, 0, -ROT_STEP) : orbit(c, 0, -ROT_STEP))),
+        ArrowRight: () => setCamera(c => (roll ? orbit(c, 0, 0, ROT_STEP) : orbit(c, 0, ROT_STEP))),
+        ArrowUp: () => setCamera(c => orbit(c, -ROT_STEP, 0)),
+        ArrowDown: () => setCamera(c => orbit(c, ROT_STEP, 0)),
+        '+': () => setCamera(c => dolly(c, 1 / (1 + ZOOM_STEP))),
+        '=': () => setCamera(c => dolly(c, 1 / (1 + ZOOM_STEP))),
+        '-': () => setCamera(c => dolly(c, 1 + ZOOM_STEP)),
+        ' ': () => { if (!reducedMotion) setIsAnimating(a => !a); },
+        r: resetView,
+        R: resetView,
+        '?': () => setHelpOpen(true),
+        b: () => setTool(t => (t === 'box' ? 'orbit' : 'box')),
+        l: () => setTool(t => (t === 'lasso' ? 'orbit' : 'lasso')),
+        // Lattice domains draw no spiral, so a mode switch there would change nothing on screen
+        ...(lattice ? {} : Object.fromEntries(geometries.slice(0, 4).map((g, i) => [String(i + 1), () => setMode(g.id)]))),
+      };
+      const action = actions[e.key];
+      if (!action) return;
+      e.preventDefault();
+      action();
+    };
+
+    // Plain-language summary: the viewports' accessible description, shown on request
+    const [describeOpen, setDescribeOpen] = useState(false);
+    const descriptionRef = useRef<HTMLParagraphElement | null>(null);
+    const rangeLabel = lattice ? 'Norm' : 'n';
+    const formatValue = (v: bigint) => v.toLocaleString();
+    const lift = LIFTS.find(l => l.id === latticeOptions.lift)!;
+    const liftPhrase = lift.id === 'flat' ? 'drawn flat' : `lifted along z by ${lift.label.toLowerCase()}`;
+    const description = describeView({
+      geometry: geometry.label, origin, primeCount: primes.size, showPrimes, showAllNumbers,
+      ...(lattice ? { start: 1, end: lattice.size, lattice: { window: lattice, lift: liftPhrase } } : { start, end, lattice: null }),
+      overlays: resolvedLayers.filter(l => l.state.visible && l.available).map(l => ({ label: l.def.name, count: l.count })),
+      colorScheme: getColorScheme(colorSchemeId, far, lattice !== null).label.toLowerCase(),
+      camera, perspective, animating: autoRotate, selected,
+      clip: describeClip(clip, rangeLabel, formatValue), region: region.size,
+    });
+    const toggleDescription = () => {
+      setDescribeOpen(open => !open);
+      // Hand focus to the text so a screen reader reads it out
+      if (!describeOpen) requestAnimationFrame(() => descriptionRef.current?.focus());
+    };
 
-    const exportSVG = () => {
-      const svg = svgRef.current;
-      if (!svg) return;
-      const clone = svg.cloneNode(true) as SVGSVGElement;
-      // Ensure xmlns for proper SVG file
-      clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
-      const source = new XMLSerializer().serializeToString(clone);
-      const blob = new Blob([source], { type: "image/svg+xml;charset=utf-8" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'prime-spirals.svg';
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      URL.revokeObjectURL(url);
+    const toggleRenderer = () => {
+      if (renderer === 'canvas') setN(n => Math.min(n, SVG_MAX_N));
+      setRenderer(r => (r === 'canvas' ? 'svg' : 'canvas'));
     };
 
+    // Image export re-renders the view offline, so it packs its own cloud while the dialog is open
+    const [exportOpen, setExportOpen] = useState(false);
+    const exportCloud = useMemo(
+      () => (exportOpen ? packPointCloud(points, { primes, showPrimes, layers: highlight, showAllNumbers, keep, colorOf: coloring.colorOf }) : null),
+      [exportOpen, points, primes, showPrimes, highlight, showAllNumbers, keep, coloring]
+    );
+    const exportCaption = lattice ? [
+      `${lattice.ring.label} integers, norm ≤ ${lattice.normBound.toLocaleString()} (${lattice.size.toLocaleString()} elements), ${primes.size.toLocaleString()} primes (${((primes.size / lattice.size) * 100).toFixed(1)}%)`,
+      `${lift.label} lift${lift.id === 'flat' ? '' : `, height ${latticeOptions.height}`}${lift.id === 'custom' ? `: z = ${latticeOptions.expr}` : ''}`,
+    ] : [
+      `n = ${formatN(start, origin)} … ${formatN(end, origin)} (${N.toLocaleString()} numbers), ${primes.size.toLocaleString()} primes (${((primes.size / N) * 100).toFixed(1)}%)`,
+      geometry.params.map(p => `${p.label}: ${Number(params[p.name].toPrecision(4))}`).join(', '),
+    ];
+
     return (
       <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 p-4">
         <div className="max-w-7xl mx-auto">
@@ -368,47 +551,82 @@
           <div className="grid lg:grid-cols-4 gap-6">
             {/* Controls */}
             <div className="lg:col-span-1 space-y-4">
-              <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
+              <DomainPanel
+                domain={domain}
+                setDomain={setDomain}
+                options={latticeOptions}
+                setOptions={setLatticeOptions}
+                maxBound={ring ? maxNormBound(ring, maxN) : 0}
+                lattice={lattice}
+                compiled={liftCompiled}
+                skipped={lattice ? lattice.size - points.length : 0}
+              />
+
+              {!lattice && <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
                 <h3 className="text-white font-semibold mb-3">Spiral Mode</h3>
                 <div className="space-y-2">
-                  {Object.entries({
-                    helix: 'Cylindrical helix - numbers wrap around a cylinder',
-                    spherical: 'Spiral on a sphere - approximately uniform coverage',
-                    conical: '3D Archimedean spiral - radius grows with height',
-                    layered: 'Layered spiral - numbers in block-based levels',
-                  }).map(([key, desc]) => (
-                    <div key={key}>
+                  {geometries.map(g => (
+                    <div key={g.id}>
                       <button
-                        onClick={() => setMode(key as any)}
+                        onClick={() => setMode(g.id)}
                         className={`w-full text-left p-3 rounded-lg transition-all ${
-                          mode === key
+                          geometry.id === g.id
                             ? 'bg-blue-500/50 border-blue-400 text-white'
                             : 'bg-white/5 border-transparent text-gray-300 hover:bg-white/10'
                         } border`}
                       >
-                        <div className="font-medium capitalize">{key}</div>
-                        <div className="text-xs opacity-75 mt-1">{desc}</div>
+                        <div className="font-medium">{g.label}</div>
+                        <div className="text-xs opacity-75 mt-1">{g.description}</div>
                       </button>
                     </div>
                   ))}
                 </div>
-              </div>
+              </div>}
 
               <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
                 <h3 className="text-white font-semibold mb-3">Controls</h3>
                 <div className="space-y-3">
+                  {!lattice && (<>
+                  <div>
+                    <label className="text-gray-300 text-sm" htmlFor="range-start">Start at</label>
+                    <input
+                      id="range-start" type="text" inputMode="numeric" value={String(exactN(start, origin))}
+                      onChange={(e) => {
+                        const first = parseExact(e.target.value);
+                        if (first !== null) setFirst(first);
+                      }}
+                      className="w-full mt-1 bg-white/10 text-white rounded px-2 py-1 text-sm border border-white/20"
+                      title="Any whole number up to 10¹⁹; past 10¹⁴ primes are found by Miller–Rabin"
+                    />
+                    {far && (
+                      <p className="text-gray-400 text-xs mt-1">
+                        Far window: geometry counts from the window start, and primes come from Miller–Rabin (at most {FAR_MAX_N.toLocaleString()} numbers).
+                      </p>
+                    )}
+                  </div>
+
                   <div>
-                    <label className="text-gray-300 text-sm">Max number: {N}</label>
-                    <input type="range" min="100" max="10000" step="100" value={N} onChange={(e) => setN(Number(e.target.value))} className="w-full mt-1" />
+                    <label className="text-gray-300 text-sm">Count: {N.toLocaleString()}</label>
+                    {/* Logarithmic slider: the position is log10(N) so 100 … 10^7 stays usable */}
+                    <input
+                      type="range" min="2" max={Math.log10(maxN)} step="0.01" value={Math.log10(N)}
+                      onChange={(e) => setN(Math.max(100, Math.min(maxN, Math.round(10 ** Number(e.target.value) / 100) * 100)))}
+                      className="w-full mt-1"
+                    />
                   </div>
+                  </>)}
 
                   <div className="flex gap-2">
                     <button
                       onClick={() => setIsAnimating((s) => !s)}
-                      className="flex-1 flex items-center justify-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-lg transition-colors"
+                      disabled={reducedMotion}
+                      className="flex-1 flex items-center justify-center gap-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:hover:bg-blue-500 text-white px-3 py-2 rounded-lg transition-colors"
+                      title={reducedMotion ? 'Auto-rotation is off because your system asks for reduced motion' : undefined}
+                      aria-keyshortcuts="Space"
+                      aria-pressed={autoRotate}
                     >
-                      {isAnimating ? <Pause size={16} /> : <Play size={16} />}
-                      {isAnimating ? 'Pause' : 'Animate'}
+                      {autoRotate ? <Pause size={16} /> : <Play size={16} />}
+                      {autoRotate ? 'Pause' : 'Animate'}
                     </button>
 
                     <button
@@ -422,14 +640,78 @@
                 </div>
               </div>
 
+              <SequencePanel
+                layers={resolvedLayers}
+                setLayers={setSequenceLayers}
+                primeCount={primes.size}
+                primeSwatch={legendSwatch(coloring.legend)}
+                showPrimes={showPrimes}
+                setShowPrimes={setShowPrimes}
+                showAllNumbers={showAllNumbers}
+                far={far}
+                lattice={lattice !== null}
+              />
+
+              <ColoringPanel
+                schemeId={colorSchemeId}
+                setSchemeId={setColorSchemeId}
+                params={colorParams}
+                setParams={setColorParams}
+                legend={coloring.legend}
+                far={far}
+                lattice={lattice !== null}
+              />
+
+              {geometry.id === CUSTOM_GEOMETRY_ID && !lattice && (
+                <CustomGeometryPanel
+                  geometry={custom}
+                  setGeometry={setCustom}
+                  compiled={customCompiled}
+                  skipped={N - points.length}
+                />
+              )}
+
+              <RegionPanel
+                clip={clip}
+                setClip={setClip}
+                rangeLabel={rangeLabel}
+                formatValue={formatValue}
+                parseValue={parseExact}
+                region={region}
+                clearRegion={() => setRegion(new Set())}
+                isPrime={isPrime}
+                residue={residue}
+                name={n => (lattice ? formatElement(lattice.ring, elementAt(lattice, n)) : String(exactN(n, origin)))}
+              />
+
+              <PresetsPanel view={view} applyView={applyView} />
+
+              <DataExportPanel
+                points={points}
+                pack={{ primes, showPrimes, layers: highlight, showAllNumbers, keep, colorOf: coloring.colorOf }}
+                meta={lattice
+                  ? { geometry: lattice.ring.id, params: { normBound: lattice.normBound, height: latticeOptions.height }, start: 1, N: lattice.size, origin: 0n, element: n => elementAt(lattice, n) }
+                  : { geometry: geometry.id, params, start, N, origin }}
+              />
+
+              <DepthCuesPanel cues={cues} setCues={setCues} />
+
+              <StereoPanel
+                stereo={stereo}
+                setStereo={setStereo}
+                points={points}
+                pack={{ primes, showPrimes, layers: highlight, showAllNumbers, keep, colorOf: coloring.colorOf }}
+                camera={camera}
+                perspective={perspective}
+                dotSize={dotSize}
+                viewport={viewportSize}
+              />
+
               {showSettings && (
                 <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
                   <h3 className="text-white font-semibold mb-3">Parameters</h3>
                   <div className="space-y-3 text-sm">
-                    <div>
-                      <label className="text-gray-300">Angle step: {stepAngle.toFixed(2)}</label>
-                      <input type="range" min="0.1" max="1" step="0.01" value={stepAngle} onChange={(e) => setStepAngle(Number(e.target.value))} className="w-full mt-1" />
-                    </div>
+                    {!lattice && <ParamSliders schema={geometry.params} values={params} onChange={setParam} />}
 
                     <div>
                       <label className="text-gray-300">Dot size: {dotSize}</label>
@@ -441,42 +723,19 @@
                       <input type="range" min="0.1" max="3" step="0.1" value={animationSpeed} onChange={(e) => setAnimationSpeed(Number(e.target.value))} className="w-full mt-1" />
                     </div>
 
-                    {mode === 'helix' && (<>
-                      <div>
-                        <label className="text-gray-300">Radius: {radius.toFixed(2)}</label>
-                        <input type="range" min="0.5" max="3" step="0.1" value={radius} onChange={(e) => setRadius(Number(e.target.value))} className="w-full mt-1" />
-                      </div>
-                      <div>
-                        <label className="text-gray-300">Pitch: {pitch.toFixed(3)}</label>
-                        <input type="range" min="0.01" max="0.2" step="0.001" value={pitch} onChange={(e) => setPitch(Number(e.target.value))} className="w-full mt-1" />
-                      </div>
-                    </>)}
-
-                    {mode === 'conical' && (<>
-                      <div>
-                        <label className="text-gray-300">Base radius (a): {a.toFixed(2)}</label>
-                        <input type="range" min="0" max="2" step="0.1" value={a} onChange={(e) => setA(Number(e.target.value))} className="w-full mt-1" />
-                      </div>
-                      <div>
-                        <label className="text-gray-300">Radius growth (b): {b.toFixed(3)}</label>
-                        <input type="range" min="0.005" max="0.1" step="0.001" value={b} onChange={(e) => setB(Number(e.target.value))} className="w-full mt-1" />
-                      </div>
-                      <div>
-                        <label className="text-gray-300">Height growth (c): {c.toFixed(3)}</label>
-                        <input type="range" min="0.01" max="0.2" step="0.001" value={c} onChange={(e) => setC(Number(e.target.value))} className="w-full mt-1" />
-                      </div>
-                    </>)}
-
-                    {mode === 'layered' && (<>
-                      <div>
-                        <label className="text-gray-300">Block size: {blockSize}</label>
-                        <input type="range" min="50" max="500" step="10" value={blockSize} onChange={(e) => setBlockSize(Number(e.target.value))} className="w-full mt-1" />
-                      </div>
-                      <div>
-                        <label className="text-gray-300">Layer radius: {layerRadius.toFixed(1)}</label>
-                        <input type="range" min="2" max="15" step="0.5" value={layerRadius} onChange={(e) => setLayerRadius(Number(e.target.value))} className="w-full mt-1" />
-                      </div>
-                    </>)}
+                    <div>
+                      <label className="text-gray-300">Focal length: {camera.focalLength} mm</label>
+                      <input
+                        type="range" min={MIN_FOCAL_LENGTH} max={MAX_FOCAL_LENGTH} step="1" value={camera.focalLength}
+                        onChange={(e) => {
+                          // Keep the framing: scale the distance with the focal length, like a dolly zoom
+                          const focalLength = Number(e.target.value);
+                          setCamera(c => ({ ...c, focalLength, distance: c.distance * focalLength / c.focalLength }));
+                        }}
+                        className="w-full mt-1"
+                      />
+                    </div>
+
                   </div>
                 </div>
               )}
@@ -484,9 +743,23 @@
               <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
                 <h3 className="text-white font-semibold mb-2">Stats</h3>
                 <div className="text-gray-300 text-sm space-y-1">
-                  <div>Total numbers: {N}</div>
-                  <div>Primes: {primes.size}</div>
-                  <div>Density: {((primes.size / N) * 100).toFixed(1)}%</div>
+                  {lattice ? (<>
+                    <div>Norm: 1 … {lattice.normBound.toLocaleString()}</div>
+                    <div>Elements: {lattice.size.toLocaleString()}</div>
+                    <div>{lattice.ring.label} primes: {primes.size.toLocaleString()}</div>
+                    <div>Density: {((primes.size / lattice.size) * 100).toFixed(1)}%</div>
+                  </>) : (<>
+                  <div className="break-all">Range: {formatN(start, origin)} … {formatN(end, origin)}</div>
+                  <div>Total numbers: {N.toLocaleString()}</div>
+                  {sieve.error ? (
+                    <div className="text-red-300">Sieve failed: {sieve.error}</div>
+                  ) : sieve.pending ? (
+                    <div>{far ? 'Testing primality' : 'Sieving'}… {(sieve.progress * 100).toFixed(0)}%</div>
+                  ) : (<>
+                    <div>Primes: {primes.size.toLocaleString()}</div>
+                    <div>Density: {((primes.size / N) * 100).toFixed(1)}%</div>
+                  </>)}
+                  </>)}
                 </div>
               </div>
             </div>
@@ -496,19 +769,39 @@
               <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
                 <div className="flex flex-col gap-3">
                   <div className="flex justify-between items-center">
-                    <h3 className="text-white font-semibold capitalize">{mode} Spiral - Prime Numbers</h3>
+                    <h3 className="text-white font-semibold">{lattice ? `${lattice.ring.label} Integers` : `${geometry.label} Spiral`} - {highlightedNames.join(' + ') || 'All Numbers'}</h3>
                     <div className="flex items-center gap-2">
                       <button
-                        onClick={() => { setIsAnimating(false); setResetKey(k => k + 1); setRotation({ x: 0, y: 0 }); setZoom(1); }}
+                        onClick={resetView}
                         className="text-gray-200 hover:text-white px-2 py-1 rounded transition-colors"
-                        title="Reset view"
+                        title="Reset view (R)"
+                        aria-label="Reset view"
+                        aria-keyshortcuts="R"
                       >
                         <RotateCcw size={20} />
                       </button>
                       <button
-                        onClick={exportSVG}
+                        onClick={toggleDescription}
+                        className="text-gray-200 hover:text-white px-2 py-1 rounded transition-colors"
+                        title="Describe view in words"
+                        aria-label="Describe view"
+                        aria-expanded={describeOpen}
+                      >
+                        <FileText size={20} />
+                      </button>
+                      <button
+                        onClick={() => setHelpOpen(true)}
+                        className="text-gray-200 hover:text-white px-2 py-1 rounded transition-colors"
+                        title="Keyboard shortcuts (?)"
+                        aria-label="Keyboard shortcuts"
+                        aria-keyshortcuts="?"
+                      >
+                        <Keyboard size={20} />
+                      </button>
+                      <button
+                        onClick={() => setExportOpen(true)}
                         className="text-gray-200 hover:text-white px-2 py-1 rounded transition-colors"
-                        title="Download SVG snapshot"
+                        title="Export PNG or SVG image"
                       >
                         <Camera size={20} />
                       </button>
@@ -518,14 +811,22 @@
                   {/* EXTRA CONTROL BAR */}
                   <div className="flex flex-wrap items-center gap-2 bg-white/5 border border-white/10 rounded-lg p-2">
                     <div className="flex items-center gap-1">
-                      <button onClick={() => setZoom(z => Math.min(5, z + ZOOM_STEP))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Zoom in"><ZoomIn size={16}/>Zoom in</button>
-                      <button onClick={() => setZoom(z => Math.max(0.1, z - ZOOM_STEP))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Zoom out"><ZoomOut size={16}/>Zoom out</button>
+                      <button onClick={() => setCamera(c => dolly(c, 1 / (1 + ZOOM_STEP)))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Zoom in (+)" aria-keyshortcuts="+"><ZoomIn size={16}/>Zoom in</button>
+                      <button onClick={() => setCamera(c => dolly(c, 1 + ZOOM_STEP))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Zoom out (−)" aria-keyshortcuts="-"><ZoomOut size={16}/>Zoom out</button>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button onClick={() => setCamera(c => orbit(c, 0, -ROT_STEP))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Rotate left (←)" aria-keyshortcuts="ArrowLeft"><ArrowLeft size={16}/>Left</button>
+                      <button onClick={() => setCamera(c => orbit(c, 0, ROT_STEP))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Rotate right (→)" aria-keyshortcuts="ArrowRight"><ArrowRight size={16}/>Right</button>
+                      <button onClick={() => setCamera(c => orbit(c, -ROT_STEP, 0))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Rotate up (↑)" aria-keyshortcuts="ArrowUp"><ArrowUp size={16}/>Up</button>
+                      <button onClick={() => setCamera(c => orbit(c, ROT_STEP, 0))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Rotate down (↓)" aria-keyshortcuts="ArrowDown"><ArrowDown size={16}/>Down</button>
+                      <button onClick={() => setCamera(c => orbit(c, 0, 0, -ROT_STEP))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Roll counter-clockwise (Shift+←)" aria-keyshortcuts="Shift+ArrowLeft"><RotateCcw size={16}/>Roll</button>
+                      <button onClick={() => setCamera(c => orbit(c, 0, 0, ROT_STEP))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Roll clockwise (Shift+→)" aria-keyshortcuts="Shift+ArrowRight"><RotateCw size={16}/>Roll</button>
                     </div>
                     <div className="flex items-center gap-1">
-                      <button onClick={() => setRotation(r => ({ ...r, y: r.y - ROT_STEP }))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Rotate left"><ArrowLeft size={16}/>Left</button>
-                      <button onClick={() => setRotation(r => ({ ...r, y: r.y + ROT_STEP }))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Rotate right"><ArrowRight size={16}/>Right</button>
-                      <button onClick={() => setRotation(r => ({ ...r, x: r.x - ROT_STEP }))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Rotate up"><ArrowUp size={16}/>Up</button>
-                      <button onClick={() => setRotation(r => ({ ...r, x: r.x + ROT_STEP }))} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Rotate down"><ArrowDown size={16}/>Down</button>
+                      <button onClick={fitView} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Frame all points"><Maximize size={16}/>Fit</button>
+                      <button onClick={() => setAutoFit(v => !v)} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded" title="Re-frame automatically when the geometry or range changes">
+                        {autoFit ? 'Auto-fit on' : 'Auto-fit off'}
+                      </button>
                     </div>
                     <div className="flex items-center gap-1 ml-2">
                       <button onClick={() => setShowAllNumbers(v => !v)} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Toggle show all numbers">
@@ -538,33 +839,213 @@
                       <button onClick={() => setPerspective(p => !p)} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded" title="Toggle projection">
                         {perspective ? 'Perspective' : 'Orthographic'}
                       </button>
+                      <button onClick={toggleRenderer} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded" title={`Toggle renderer (SVG is limited to ${SVG_MAX_N.toLocaleString()} numbers)`}>
+                        {renderer === 'canvas' ? 'Canvas' : 'SVG'}
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-1 ml-2" role="group" aria-label="Pointer tool">
+                      {([
+                        ['orbit', 'Rotate', 'Drag to rotate', MousePointer2],
+                        ['box', 'Box', 'Drag a box to mark a region (B)', SquareDashed],
+                        ['lasso', 'Lasso', 'Draw a lasso to mark a region (L)', Lasso],
+                      ] as const).map(([id, name, hint, Icon]) => (
+                        <button
+                          key={id}
+                          onClick={() => setTool(id)}
+                          className={`${tool === id ? 'bg-white/30' : 'bg-white/10'} hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1`}
+                          title={hint}
+                          aria-pressed={tool === id}
+                          aria-keyshortcuts={id === 'orbit' ? undefined : id[0].toUpperCase()}
+                        >
+                          <Icon size={16}/>{name}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-1 ml-2">
+                      <LayoutGrid size={16} className="text-gray-300" aria-label="Viewports" />
+                      {Array.from({ length: MAX_VIEWPORTS }, (_, i) => i + 1).map(c => (
+                        <button
+                          key={c}
+                          onClick={() => setViewportCount(c)}
+                          disabled={lattice !== null && c > 1}
+                          className={`${viewportCount === c ? 'bg-white/30' : 'bg-white/10'} hover:bg-white/20 disabled:opacity-40 text-white px-2 py-1 rounded`}
+                          title={c === 1 ? 'Single view' : lattice ? 'Comparison places rational integers along spirals' : `Compare ${c} geometries side by side`}
+                        >
+                          {c}
+                        </button>
+                      ))}
+                      {viewportCount > 1 && (
+                        <>
+                          <button onClick={toggleLinked} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1" title="Share rotation and zoom between viewports">
+                            {linked ? <Link size={16}/> : <Unlink size={16}/>}
+                            {linked ? 'Linked' : 'Independent'}
+                          </button>
+                          <button
+                            onClick={() => setComparison(c => ({ ...c, showDifferences: !c.showDifferences }))}
+                            className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded"
+                            title="Highlight numbers whose screen positions differ from the main view (the main view against the second)"
+                          >
+                            {comparison.showDifferences ? 'Hide differences' : 'Show differences'}
+                          </button>
+                          {comparison.showDifferences && (
+                            <label className="flex items-center gap-1 text-gray-300 text-sm">
+                              <input
+                                type="range" min={2} max={100} value={comparison.threshold}
+                                onChange={(e) => setComparison(c => ({ ...c, threshold: Number(e.target.value) }))}
+                                className="w-20"
+                              />
+                              {comparison.threshold}px
+                            </label>
+                          )}
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
 
-                <div ref={vizRef} style={{ width: '100%', height: 600 }} className="mt-3">
-                  <Canvas3D
-                    points={points}
-                    primes={primes}
-                    dotSize={dotSize}
-                    isAnimating={isAnimating}
-                    animationSpeed={animationSpeed}
-                    resetSignal={resetKey}
-                    width={size.width}
-                    height={size.height}
-                    rotation={rotation}
-                    setRotation={setRotation}
-                    zoom={zoom}
-                    setZoom={setZoom}
-                    showAllNumbers={showAllNumbers}
-                    showAxes={showAxes}
-                    perspective={perspective}
-                    svgRef={svgRef}
-                  />
+                <div
+                  ref={vizRef}
+                  style={{ width: '100%', height: 600, gridTemplateColumns: `repeat(${grid.cols}, minmax(0, 1fr))` }}
+                  className="mt-3 grid gap-2"
+                  onKeyDown={onViewKeyDown}
+                >
+                  <div className="relative" style={{ height: viewportSize.height }}>
+                    <Canvas3D
+                      points={points}
+                      primes={primes}
+                      origin={origin}
+                      lattice={lattice}
+                      showPrimes={showPrimes}
+                      layers={viewportLayers[0]}
+                      colorOf={coloring.colorOf}
+                      dotSize={dotSize}
+                      isAnimating={autoRotate}
+                      animationSpeed={animationSpeed}
+                      resetSignal={resetKey}
+                      width={viewportSize.width}
+                      height={viewportSize.height}
+                      camera={camera}
+                      setCamera={setCamera}
+                      showAllNumbers={showAllNumbers}
+                      keep={keep}
+                      showAxes={showAxes}
+                      perspective={perspective}
+                      stereo={stereo}
+                      cues={cues}
+                      renderer={renderer}
+                      selected={selected}
+                      neighbors={neighborIds}
+                      onPick={onPick}
+                      tool={tool}
+                      onRegion={onRegion}
+                      label={`${lattice ? `${lattice.ring.label} integers` : `${geometry.label} spiral`}, ${viewportCount > 1 ? 'main viewport, ' : ''}interactive 3D view`}
+                      descriptionId="view-description"
+                    />
+                    {viewportCount > 1 && (
+                      <div className="absolute top-2 right-2 bg-black/70 text-white text-sm rounded px-2 py-0.5 pointer-events-none">{geometry.label}</div>
+                    )}
+                  </div>
+                  {extraViews.map((view, i) => (
+                    <div key={i} className="relative" style={{ height: viewportSize.height }}>
+                      <Canvas3D
+                        points={view.points}
+                        primes={primes}
+                        origin={origin}
+                        lattice={null}
+                        showPrimes={showPrimes}
+                        layers={viewportLayers[i + 1]}
+                        colorOf={view.coloring.colorOf}
+                        dotSize={dotSize}
+                        isAnimating={autoRotate && !linked}
+                        animationSpeed={animationSpeed}
+                        resetSignal={resetKey}
+                        width={viewportSize.width}
+                        height={viewportSize.height}
+                        camera={viewportCameras[i + 1]}
+                        setCamera={linked ? setCamera : viewportCameraSetters[i]}
+                        showAllNumbers={showAllNumbers}
+                        keep={view.keep}
+                        showAxes={showAxes}
+                        perspective={perspective}
+                        stereo={stereo}
+                        cues={cues}
+                        renderer={renderer}
+                        selected={selected}
+                        neighbors={neighborIds}
+                        onPick={onPick}
+                        tool={tool}
+                        onRegion={onRegion}
+                        label={`${view.geometry.label} spiral, viewport ${i + 2}, interactive 3D view`}
+                      />
+                      <ViewportControls
+                        geometries={geometries}
+                        geometry={view.geometry}
+                        params={view.params}
+                        setMode={(m) => updateViewport(i, v => ({ ...v, mode: m, geometryParams: geometryParams[m] ?? {} }))}
+                        setParam={(name, value) => setViewportParam(i, name, value)}
+                      />
+                    </div>
+                  ))}
                 </div>
 
+                <p
+                  id="view-description"
+                  ref={descriptionRef}
+                  tabIndex={-1}
+                  className={describeOpen ? 'mt-3 p-3 rounded-lg bg-black/30 text-gray-200 text-sm focus:outline-none' : 'sr-only'}
+                >
+                  {description}
+                </p>
+
+                {!lattice && (<>
+                <TimelinePanel
+                  timeline={timeline}
+                  setTimeline={setTimeline}
+                  playhead={playhead}
+                  seek={seek}
+                  playing={playing}
+                  setPlaying={setPlaying}
+                  captureKeyframe={captureKeyframe}
+                  scene={{
+                    geometry, start, origin, width: viewportSize.width, height: viewportSize.height, perspective, dotSize, showPrimes, showAllNumbers,
+                    sequenceLayers, colorScheme: colorSchemeId, colorParams, blockSize, clip, range, cues, maxN,
+                  }}
+                />
+
+                <SweepPanel
+                  geometry={geometry}
+                  params={params}
+                  setParam={setParam}
+                  N={N}
+                  start={start}
+                  isPrime={seqCtx.isPrime}
+                  ready={!sieve.pending && !sieve.error}
+                />
+                </>)}
+
+                <InspectorPanel
+                  selected={selected}
+                  setSelected={setSelected}
+                  points={points}
+                  isPrime={isPrime}
+                  layers={highlight}
+                  neighbors={neighbors}
+                  origin={lattice ? 0n : origin}
+                  jumpTo={jumpTo}
+                  maxTarget={lastReachable(N)}
+                  lattice={lattice}
+                />
+
+                {!lattice && <AnalysisPanel
+                  points={points}
+                  isPrime={seqCtx.isPrime}
+                  blockSize={blockSize}
+                  origin={origin}
+                  setHighlight={setAnalysisHighlight}
+                />}
+
                 <div className="mt-4 text-gray-200 text-sm whitespace-pre-line">
-                  {modelExplanations[mode]}
+                  {lattice ? DOMAINS.find(d => d.id === domain)!.explanation : geometry.explanation}
                 </div>
               </div>
             </div>
@@ -575,18 +1056,46 @@
             <div className="text-gray-300 text-sm leading-relaxed">
               <p className="mb-3">
                 This app places integers in 3D according to a chosen spiral geometry and highlights <strong>prime numbers</strong> as colored dots.
+                Other sequences (twin primes, semiprimes, Fibonacci numbers, …) can be layered on top from the <strong>Sequences</strong> panel.
+                The <strong>Number Domain</strong> panel switches to Gaussian or Eisenstein integers, drawn on their lattice in the complex plane and lifted into 3D, with primes and factorizations taken over that ring.
                 By rotating and zooming, you can explore spatial patterns that may be less visible on a straight number line.
               </p>
               <p className="mb-3">
-                <strong>Interaction:</strong> Drag to rotate, use mouse wheel or pinch gesture to zoom. Toggle animation for smooth auto-rotation.
-                Hover a dot to see its exact prime value.
+                <strong>Interaction:</strong> Drag to rotate (drag near the edge to roll), shift- or right-drag to pan, use mouse wheel or pinch gesture to zoom.
+                Double-click a dot to orbit around it and press <em>Fit</em> to frame everything again. Toggle animation for smooth auto-rotation (it stays off when your system asks for reduced motion).
+                Click or tab into the view to use the keyboard: arrows rotate, + and − zoom, Space animates, R resets and 1–4 switch modes; press <em>?</em> for the full list.
+                <em>Describe view</em> puts the current view into words, which screen readers also announce for the focused view.
+                Hover a dot to see its exact value and the sequences it belongs to; click it (shift-click for several) to open it in the <strong>Inspector</strong>.
+                <strong>Clip &amp; Select</strong> cuts the view down to a slab along x, y or z or a range of n; the box and lasso tools mark a region whose numbers you can count, bin by residue and save as a list.
+                The <strong>Timeline</strong> stores keyframes of the camera, count and parameters; it plays them back and exports the path as PNG or SVG frames or a WebM video.
+                The camera button exports the view as a PNG at any resolution or a standalone SVG, optionally with a title, caption, legend and axes.
+                <strong>Export data</strong> saves the visible dots as CSV or JSON, or as PLY, OBJ or glTF point clouds with the spiral path as a polyline or tube.
+                The <strong>Analysis</strong> charts compare prime counts per layer with 1/ln n and show prime angles, a polar (angle, z) heatmap and the gap distribution; click a bar to highlight its primes.
+                A <strong>Parameter sweep</strong> scores how strongly the primes line up across a parameter range; click a peak, or a fraction p/q of the step angle, to jump to it.
+                <strong>Depth cues</strong> add fog, sphere shading, the spiral path, links between consecutive or twin primes and a glow, each with its own intensity.
+                <strong>Stereo 3D</strong> draws red/cyan anaglyphs or cross-eyed and parallel pairs with adjustable eye separation and convergence, and exports wiggle stereograms.
+                The grid buttons show 2–4 viewports side by side, each with its own geometry; link or unlink their cameras, and show differences to mark the numbers that land elsewhere on screen.
               </p>
               <p>
                 <strong>Notes:</strong> The step angle often governs visible structures; certain values produce striking alignments due to modular resonances.
+                Color by <em>residue class mod m</em> to check them: a resonance shows up as spokes or bands of a single class.
+                Start a window beyond 10¹⁴ (up to 10¹⁹) and primality switches from the sieve to a deterministic Miller–Rabin test; the geometry then numbers the window from 1 while tooltips and the Inspector keep the exact value.
               </p>
             </div>
           </div>
         </div>
+
+        {exportOpen && exportCloud && (
+          <ExportDialog
+            onClose={() => setExportOpen(false)}
+            scene={{ cloud: exportCloud, camera, perspective, dotSize, viewport: viewportSize, cues: { options: cues, points, primes, keep } }}
+            title={`${lattice ? `${lattice.ring.label} Integers` : `${geometry.label} Spiral`} - ${highlightedNames.join(' + ') || 'All Numbers'}`}
+            caption={exportCaption}
+            legend={{ legend: coloring.legend, layers: highlight.map(l => ({ label: l.label, color: l.color })) }}
+            showAxes={showAxes}
+          />
+        )}
+        {helpOpen && <ShortcutHelp onClose={() => setHelpOpen(false)} />}
       </div>
     );
   }
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { SHORTCUTS } from './shortcuts';
+
+/** Modal list of the keyboard shortcuts; Escape or a click outside closes it. */
+export function ShortcutHelp({ onClose }: { onClose: () => void }) {
+  const closeRef = useRef<HTMLButtonElement | null>(null);
+  // Move focus into the dialog, and back to where it was on close
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        role="dialog" aria-modal="true" aria-labelledby="shortcut-help-title"
+        className="w-full max-w-sm bg-gray-800 rounded-xl p-5 border border-white/20 text-sm space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => { if (e.key === 'Escape') { e.stopPropagation(); onClose(); } }}
+      >
+        <div className="flex items-center justify-between">
+          <h3 id="shortcut-help-title" className="text-white font-semibold">Keyboard shortcuts</h3>
+          <button ref={closeRef} onClick={onClose} className="text-gray-300 hover:text-white" title="Close"><X size={18} /></button>
+        </div>
+        <p className="text-gray-400">Focus the visualization (click it or press Tab) to use them.</p>
+        <dl className="space-y-2">
+          {SHORTCUTS.map(({ keys, action }) => (
+            <div key={action} className="flex items-center justify-between gap-4">
+              <dt className="flex gap-1">
+                {keys.map(k => <kbd key={k} className="bg-white/10 text-white rounded px-1.5 py-0.5 border border-white/20 font-mono text-xs">{k}</kbd>)}
+              </dt>
+              <dd className="text-gray-300 text-right">{action}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
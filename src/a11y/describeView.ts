@@ -0,0 +1,74 @@
+import { quatToMatrix, type Camera } from '../render/camera';
+import { formatN } from '../state/viewState';
+import { elementAt, type LatticeWindow } from '../domains/lattice';
+import { formatElement } from '../domains/rings';
+
+/* -------------------- Text summary of the view -------------------- */
+export interface ViewSummary {
+  geometry: string;
+  start: number;
+  end: number;
+  /** Far windows: what start, end and selected count from. */
+  origin: bigint;
+  /** Gaussian or Eisenstein domains: the elements, and how the plane is lifted ("lifted by norm"); start … end then index them. */
+  lattice: { window: LatticeWindow; lift: string } | null;
+  primeCount: number;
+  showPrimes: boolean;
+  showAllNumbers: boolean;
+  /** Visible overlays with their member counts in the window. */
+  overlays: { label: string; count: number }[];
+  colorScheme: string;
+  camera: Camera;
+  perspective: boolean;
+  animating: boolean;
+  /** Selected numbers, in click order. */
+  selected: number[];
+  /** Active clipping planes and range in words ("z 40%–60%, n ≥ 100"), or null. */
+  clip: string | null;
+  /** Dots marked with the box or lasso tool. */
+  region: number;
+}
+
+const AXIS_NAMES = ['x', 'y', 'z'];
+
+/** Where the eye sits relative to the target, in words: "from +z, slightly towards −x". */
+function viewpoint(camera: Camera): string {
+  const m = quatToMatrix(camera.orientation);
+  // The eye sits at −distance along the view z axis; that axis is the matrix's third row
+  const eye = [-m[6], -m[7], -m[8]];
+  const order = [0, 1, 2].sort((a, b) => Math.abs(eye[b]) - Math.abs(eye[a]));
+  const name = (axis: number) => `${eye[axis] < 0 ? '−' : '+'}${AXIS_NAMES[axis]}`;
+  const [main, second] = order;
+  const lean = Math.abs(eye[second]) > 0.25 ? `, ${Math.abs(eye[second]) > 0.5 ? 'well' : 'slightly'} towards ${name(second)}` : '';
+  return `from ${name(main)}${lean}`;
+}
+
+/** A few plain sentences describing what is on screen, for screen readers and the "Describe view" box. */
+export function describeView(v: ViewSummary): string {
+  const total = v.end - v.start + 1;
+  const lattice = v.lattice?.window;
+  const sentences = [lattice
+    ? `${lattice.ring.label} integers of norm up to ${lattice.normBound.toLocaleString()} in the complex plane, ${v.lattice!.lift} (${total.toLocaleString()} numbers).`
+    : `${v.geometry} spiral of the numbers ${formatN(v.start, v.origin)} to ${formatN(v.end, v.origin)} (${total.toLocaleString()} numbers).`,
+  ];
+  const share = total > 0 ? ((v.primeCount / total) * 100).toFixed(1) : '0';
+  if (v.showPrimes) {
+    sentences.push(`${v.primeCount.toLocaleString()} of them are prime (${share}%) and are highlighted, colored by ${v.colorScheme}.`);
+  } else {
+    sentences.push(`${v.primeCount.toLocaleString()} of them are prime (${share}%); primes are not highlighted.`);
+  }
+  sentences.push(v.showAllNumbers ? 'Non-highlighted numbers are shown as faint dots.' : 'Only highlighted numbers are drawn.');
+  if (v.clip) sentences.push(`Clipped to ${v.clip}.`);
+  if (v.overlays.length) {
+    sentences.push(`Overlays: ${v.overlays.map(o => `${o.label} (${o.count.toLocaleString()})`).join(', ')}.`);
+  }
+  const [tx, ty, tz] = v.camera.target.map(c => Number(c.toPrecision(3)));
+  sentences.push(
+    `${v.perspective ? 'Perspective' : 'Orthographic'} view ${viewpoint(v.camera)}, centred on (${tx}, ${ty}, ${tz})`
+    + `${v.animating ? ', rotating automatically' : ''}.`,
+  );
+  const name = (n: number) => (lattice ? formatElement(lattice.ring, elementAt(lattice, n)) : formatN(n, v.origin));
+  if (v.selected.length) sentences.push(`Selected: ${v.selected.map(name).join(', ')}.`);
+  if (v.region) sentences.push(`${v.region.toLocaleString()} dots are marked as a region.`);
+  return sentences.join(' ');
+}
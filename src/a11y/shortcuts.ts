@@ -0,0 +1,20 @@
+/* -------------------- Keyboard shortcuts -------------------- */
+/** What the help overlay lists; the handling itself lives with the state it changes, in App. */
+export const SHORTCUTS: { keys: string[]; action: string }[] = [
+  { keys: ['←', '→'], action: 'Rotate left / right' },
+  { keys: ['↑', '↓'], action: 'Rotate up / down' },
+  { keys: ['Shift + ←', 'Shift + →'], action: 'Roll' },
+  { keys: ['+', '−'], action: 'Zoom in / out' },
+  { keys: ['Space'], action: 'Start or stop auto-rotation' },
+  { keys: ['R'], action: 'Reset the view' },
+  { keys: ['1', '2', '3', '4'], action: 'Switch to the first four spiral modes (integers only)' },
+  { keys: ['B', 'L'], action: 'Box or lasso selection (again to rotate)' },
+  { keys: ['?'], action: 'Show this help' },
+  { keys: ['Esc'], action: 'Close this help' },
+];
+
+/** Keys typed into form fields are text, not shortcuts. */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(el.tagName));
+}
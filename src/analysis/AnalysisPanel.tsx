@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useState } from 'react';
+import { BarChart3, ChevronDown, ChevronRight, Download } from 'lucide-react';
+import type { Point3D } from '../geometry/types';
+import { downloadBlob } from '../download';
+import { exactN, formatN } from '../state/viewState';
+import {
+  angleBin, angleHistogram, gapDistribution, layerDensity, polarHeatmap, toCSV, zBin,
+} from './stats';
+
+/** Numbers picked out by clicking a chart, drawn as an extra overlay. */
+export interface AnalysisHighlight {
+  label: string;
+  members: Set<number>;
+}
+
+interface AnalysisPanelProps {
+  points: Point3D[];
+  isPrime: (n: number) => boolean;
+  /** Block size of the layered geometry, which defines the layers. */
+  blockSize: number;
+  /** Far windows: what n counts from. */
+  origin: bigint;
+  setHighlight: (highlight: AnalysisHighlight | null) => void;
+}
+
+type Tab = 'layers' | 'angles' | 'polar' | 'gaps';
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'layers', label: 'Layer density' },
+  { id: 'angles', label: 'Angles' },
+  { id: 'polar', label: 'Polar heatmap' },
+  { id: 'gaps', label: 'Prime gaps' },
+];
+
+const ANGLE_BINS = 72;
+const POLAR_ANGLE_BINS = 36;
+const POLAR_Z_BINS = 12;
+/** More layers than this are merged into columns, so the chart stays readable. */
+const MAX_COLUMNS = 400;
+
+interface Chart {
+  /** Bar heights, or null for the heatmap. */
+  values: number[] | null;
+  expected?: number[];
+  labels: string[];
+  csv: () => string;
+  /** Primes contributing to bar (or cell) i. */
+  members: (i: number) => Set<number>;
+}
+
+/** Charts of where the primes fall, each clickable to highlight its points and exportable as CSV. */
+export function AnalysisPanel({ points, isPrime, blockSize, origin, setHighlight }: AnalysisPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<Tab>('layers');
+  const [selected, setSelected] = useState<number | null>(null);
+  const [hover, setHover] = useState<number | null>(null);
+
+  const primesWhere = (test: (p: Point3D) => boolean) => {
+    const out = new Set<number>();
+    for (const p of points) if (isPrime(p.n) && test(p)) out.add(p.n);
+    return out;
+  };
+
+  // Only the visible chart is computed, and nothing while the panel is collapsed
+  const heatmap = useMemo(
+    () => (open && tab === 'polar' ? polarHeatmap(points, isPrime, POLAR_ANGLE_BINS, POLAR_Z_BINS) : null),
+    [open, tab, points, isPrime],
+  );
+  const chart = useMemo((): Chart | null => {
+    if (!open) return null;
+    if (tab === 'layers') {
+      const layers = layerDensity(points, isPrime, blockSize, Number(origin));
+      const group = Math.max(1, Math.ceil(layers.length / MAX_COLUMNS));
+      const columns = Array.from({ length: Math.ceil(layers.length / group) }, (_, c) => layers.slice(c * group, (c + 1) * group));
+      return {
+        values: columns.map(col => col.reduce((s, l) => s + l.primes, 0)),
+        expected: columns.map(col => col.reduce((s, l) => s + l.expected, 0)),
+        labels: columns.map(col => {
+          const primes = col.reduce((s, l) => s + l.primes, 0), expected = col.reduce((s, l) => s + l.expected, 0);
+          return `n ${formatN(col[0].from, origin)}…${formatN(col[col.length - 1].to, origin)}: ${primes} primes, ${expected.toFixed(1)} expected (×${(primes / (expected || 1)).toFixed(2)})`;
+        }),
+        csv: () => toCSV(
+          ['block', 'from', 'to', 'numbers', 'primes', 'expected', 'ratio'],
+          layers.map(l => [l.block, String(exactN(l.from, origin)), String(exactN(l.to, origin)), l.total, l.primes, Number(l.expected.toFixed(4)), Number((l.primes / (l.expected || 1)).toFixed(4))]),
+        ),
+        members: (i) => {
+          const col = columns[i];
+          return primesWhere(p => p.n >= col[0].from && p.n <= col[col.length - 1].to);
+        },
+      };
+    }
+    if (tab === 'angles') {
+      const { primes, expected } = angleHistogram(points, isPrime, ANGLE_BINS);
+      const width = 360 / ANGLE_BINS;
+      return {
+        values: primes,
+        expected,
+        labels: primes.map((c, i) => `${(i * width).toFixed(0)}°–${((i + 1) * width).toFixed(0)}°: ${c} primes, ${expected[i].toFixed(1)} expected`),
+        csv: () => toCSV(['bin', 'angle_from_deg', 'angle_to_deg', 'primes', 'expected'], primes.map((c, i) => [i, i * width, (i + 1) * width, c, Number(expected[i].toFixed(4))])),
+        members: (i) => primesWhere(p => angleBin(p, ANGLE_BINS) === i),
+      };
+    }
+    if (tab === 'gaps') {
+      const { counts, expected } = gapDistribution(points, isPrime);
+      return {
+        values: counts,
+        expected,
+        labels: counts.map((c, g) => `gap ${g}: ${c} pairs, ${expected[g].toFixed(1)} expected`),
+        csv: () => toCSV(['gap', 'pairs', 'expected'], counts.map((c, g) => [g, c, Number(expected[g].toFixed(4))]).filter(r => r[0] !== 0)),
+        members: (g) => {
+          // Both ends of every pair of consecutive primes g apart
+          const out = new Set<number>();
+          let previous = -1;
+          for (const { n } of points) {
+            if (!isPrime(n)) continue;
+            if (previous >= 0 && n - previous === g) { out.add(previous); out.add(n); }
+            previous = n;
+          }
+          return out;
+        },
+      };
+    }
+    if (!heatmap) return null;
+    const width = 360 / POLAR_ANGLE_BINS, dz = (heatmap.zMax - heatmap.zMin) / POLAR_Z_BINS;
+    const zRange = (zi: number) => [heatmap.zMin + zi * dz, heatmap.zMin + (zi + 1) * dz];
+    return {
+      values: null,
+      labels: heatmap.counts.flatMap((row, zi) => row.map((c, ai) => {
+        const [z0, z1] = zRange(zi);
+        return `z ${z0.toFixed(2)}…${z1.toFixed(2)}, ${(ai * width).toFixed(0)}°–${((ai + 1) * width).toFixed(0)}°: ${c} primes`;
+      })),
+      csv: () => toCSV(
+        ['z_from', 'z_to', 'angle_from_deg', 'angle_to_deg', 'primes'],
+        heatmap.counts.flatMap((row, zi) => row.map((c, ai) => [...zRange(zi).map(z => Number(z.toFixed(6))), ai * width, (ai + 1) * width, c])),
+      ),
+      members: (cell) => {
+        const zi = Math.floor(cell / POLAR_ANGLE_BINS), ai = cell % POLAR_ANGLE_BINS;
+        return primesWhere(p => zBin(p.z, heatmap) === zi && angleBin(p, POLAR_ANGLE_BINS) === ai);
+      },
+    };
+  }, [open, tab, points, isPrime, blockSize, origin, heatmap]);
+
+  // A new window or chart invalidates the picked bin
+  useEffect(() => {
+    setSelected(null);
+    setHighlight(null);
+  }, [chart]);
+
+  const select = (i: number) => {
+    if (!chart || i === selected) {
+      setSelected(null);
+      setHighlight(null);
+      return;
+    }
+    setSelected(i);
+    setHighlight({ label: chart.labels[i].split(':')[0], members: chart.members(i) });
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20 mt-4 text-sm">
+      <button onClick={() => setOpen(o => !o)} className="flex items-center gap-2 text-white font-semibold">
+        {open ? <ChevronDown size={16} /> : <ChevronRight size={16} />}<BarChart3 size={16} />Analysis
+      </button>
+      {open && (
+        <>
+          <div className="flex flex-wrap items-center gap-1 mt-3">
+            {TABS.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`px-2 py-1 rounded ${tab === t.id ? 'bg-blue-500 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+              >
+                {t.label}
+              </button>
+            ))}
+            <button
+              onClick={() => chart && downloadBlob(chart.csv(), `prime-spirals-${tab}.csv`, 'text/csv')}
+              disabled={!chart}
+              className="ml-auto text-gray-300 hover:text-white flex items-center gap-1 disabled:opacity-40"
+              title="Download this chart's data as CSV"
+            >
+              <Download size={14} />CSV
+            </button>
+          </div>
+
+          <div className="mt-3">
+            {chart && chart.values && (
+              <BarChart values={chart.values} expected={chart.expected} selected={selected} onSelect={select} onHover={setHover} />
+            )}
+            {chart && heatmap && !chart.values && (
+              <PolarChart counts={heatmap.counts} selected={selected} onSelect={select} onHover={setHover} />
+            )}
+          </div>
+          <div className="text-gray-400 text-xs mt-1 min-h-4">
+            {chart && hover !== null && chart.labels[hover]
+              ? chart.labels[hover]
+              : tab === 'polar'
+                ? 'Rings go from low z (inside) to high z (outside). Click a cell to highlight its primes.'
+                : 'Bars: primes in the window; line: expected count. Click a bar to highlight its primes.'}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function BarChart({ values, expected, selected, onSelect, onHover }: {
+  values: number[];
+  expected?: number[];
+  selected: number | null;
+  onSelect: (i: number) => void;
+  onHover: (i: number | null) => void;
+}) {
+  const W = 1000, H = 160;
+  const max = Math.max(1, ...values, ...(expected ?? []));
+  const bw = W / Math.max(1, values.length);
+  const y = (v: number) => H - (v / max) * (H - 4);
+  const indexAt = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(values.length - 1, Math.floor(((e.clientX - rect.left) / rect.width) * values.length)));
+  };
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" className="w-full h-40 bg-black/20 rounded cursor-pointer"
+      onMouseMove={(e) => onHover(indexAt(e))}
+      onMouseLeave={() => onHover(null)}
+      onClick={(e) => onSelect(indexAt(e))}
+    >
+      {values.map((v, i) => v > 0 && (
+        <rect key={i} x={i * bw} y={y(v)} width={Math.max(bw * 0.85, 0.5)} height={H - y(v)} fill={i === selected ? '#22d3ee' : '#60a5fa'} />
+      ))}
+      {expected && (
+        <polyline
+          points={expected.map((v, i) => `${(i + 0.5) * bw},${y(v)}`).join(' ')}
+          fill="none" stroke="#fde047" strokeWidth={1.5} vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+}
+
+function PolarChart({ counts, selected, onSelect, onHover }: {
+  counts: number[][];
+  selected: number | null;
+  onSelect: (cell: number) => void;
+  onHover: (cell: number | null) => void;
+}) {
+  const size = 240, c = size / 2, inner = 18, outer = c - 4;
+  const rings = counts.length, sectors = counts[0]?.length ?? 0;
+  const dr = (outer - inner) / Math.max(1, rings);
+  const max = Math.max(1, ...counts.flat());
+  // Standard orientation: angle 0 to the right, counter-clockwise (screen y points down)
+  const at = (r: number, a: number) => `${(c + r * Math.cos(a)).toFixed(2)} ${(c - r * Math.sin(a)).toFixed(2)}`;
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-full max-w-xs mx-auto block" onMouseLeave={() => onHover(null)}>
+      {counts.map((row, zi) => row.map((count, ai) => {
+        const r0 = inner + zi * dr, r1 = r0 + dr;
+        const a0 = (2 * Math.PI * ai) / sectors, a1 = (2 * Math.PI * (ai + 1)) / sectors;
+        const cell = zi * sectors + ai;
+        const d = `M ${at(r0, a0)} L ${at(r1, a0)} A ${r1} ${r1} 0 0 0 ${at(r1, a1)} L ${at(r0, a1)} A ${r0} ${r0} 0 0 1 ${at(r0, a0)} Z`;
+        return (
+          <path
+            key={cell} d={d}
+            fill={cell === selected ? '#22d3ee' : `rgba(253, 224, 71, ${(0.06 + 0.94 * (count / max)).toFixed(3)})`}
+            stroke="rgba(0,0,0,0.25)" strokeWidth={0.3}
+            className="cursor-pointer"
+            onMouseEnter={() => onHover(cell)}
+            onClick={() => onSelect(cell)}
+          />
+        );
+      }))}
+      <text x={c + outer} y={c - 3} fontSize="8" fill="white" fillOpacity="0.6" textAnchor="end">0°</text>
+      <text x={c + 2} y={10} fontSize="8" fill="white" fillOpacity="0.6">90°</text>
+    </svg>
+  );
+}
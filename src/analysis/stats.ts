@@ -0,0 +1,130 @@
+import type { Point3D } from '../geometry/types';
+
+/* -------------------- Binning helpers -------------------- */
+const TAU = 2 * Math.PI;
+
+/** Angle of a point around the z axis, in [0, 2π). */
+export function angleOf(p: Point3D): number {
+  const a = Math.atan2(p.y, p.x);
+  return a < 0 ? a + TAU : a;
+}
+
+export function angleBin(p: Point3D, bins: number): number {
+  return Math.min(bins - 1, Math.floor((angleOf(p) / TAU) * bins));
+}
+
+/** Quotes a CSV table; numbers are written as-is. */
+export function toCSV(header: string[], rows: (string | number)[][]): string {
+  const cell = (v: string | number) => (typeof v === 'number' ? String(v) : /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  return [header, ...rows].map(r => r.map(cell).join(',')).join('\n') + '\n';
+}
+
+/* -------------------- Layer density -------------------- */
+export interface LayerDensity {
+  /** Block index floor((n − 1) / blockSize), the same blocks as the layered geometry's rings. */
+  block: number;
+  from: number;
+  to: number;
+  /** Numbers of the block inside the window. */
+  total: number;
+  primes: number;
+  /** Σ 1 / ln n over the block's numbers: the prime number theorem's expected count. */
+  expected: number;
+}
+
+/** `origin` is a far window's offset; it only moves the expected density, as blocks stay window-relative. */
+export function layerDensity(points: Point3D[], isPrime: (n: number) => boolean, blockSize: number, origin = 0): LayerDensity[] {
+  const size = Math.max(1, blockSize);
+  const out: LayerDensity[] = [];
+  let current: LayerDensity | null = null;
+  for (const { n } of points) {
+    const block = Math.floor((n - 1) / size);
+    if (!current || current.block !== block) {
+      current = { block, from: n, to: n, total: 0, primes: 0, expected: 0 };
+      out.push(current);
+    }
+    current.to = n;
+    current.total++;
+    if (isPrime(n)) current.primes++;
+    if (origin + n >= 2) current.expected += 1 / Math.log(origin + n);
+  }
+  return out;
+}
+
+/* -------------------- Angles -------------------- */
+export interface AngleHistogram {
+  primes: number[];
+  /** Prime count each bin would get if primes were spread over the bin's numbers like everywhere else. */
+  expected: number[];
+}
+
+export function angleHistogram(points: Point3D[], isPrime: (n: number) => boolean, bins: number): AngleHistogram {
+  const primes = new Array<number>(bins).fill(0);
+  const all = new Array<number>(bins).fill(0);
+  let primeTotal = 0;
+  for (const p of points) {
+    const b = angleBin(p, bins);
+    all[b]++;
+    if (isPrime(p.n)) { primes[b]++; primeTotal++; }
+  }
+  const rate = points.length ? primeTotal / points.length : 0;
+  return { primes, expected: all.map(c => c * rate) };
+}
+
+/* -------------------- Polar heatmap -------------------- */
+export interface PolarHeatmap {
+  angleBins: number;
+  zBins: number;
+  zMin: number;
+  zMax: number;
+  /** counts[zBin][angleBin] */
+  counts: number[][];
+}
+
+export function zBin(z: number, map: Pick<PolarHeatmap, 'zBins' | 'zMin' | 'zMax'>): number {
+  const span = map.zMax - map.zMin;
+  if (!(span > 0)) return 0;
+  return Math.max(0, Math.min(map.zBins - 1, Math.floor(((z - map.zMin) / span) * map.zBins)));
+}
+
+export function polarHeatmap(points: Point3D[], isPrime: (n: number) => boolean, angleBins: number, zBins: number): PolarHeatmap {
+  let zMin = Infinity, zMax = -Infinity;
+  for (const p of points) {
+    if (!isPrime(p.n)) continue;
+    if (p.z < zMin) zMin = p.z;
+    if (p.z > zMax) zMax = p.z;
+  }
+  const map: PolarHeatmap = {
+    angleBins, zBins, zMin: Number.isFinite(zMin) ? zMin : 0, zMax: Number.isFinite(zMax) ? zMax : 0,
+    counts: Array.from({ length: zBins }, () => new Array<number>(angleBins).fill(0)),
+  };
+  for (const p of points) if (isPrime(p.n)) map.counts[zBin(p.z, map)][angleBin(p, angleBins)]++;
+  return map;
+}
+
+/* -------------------- Prime gaps -------------------- */
+export interface GapDistribution {
+  /** counts[g] = number of consecutive prime pairs in the window that are g apart. */
+  counts: number[];
+  /** Cramér's model: gaps near n roughly exponential with mean ln n, on even gaps only. */
+  expected: number[];
+}
+
+export function gapDistribution(points: Point3D[], isPrime: (n: number) => boolean): GapDistribution {
+  const counts: number[] = [];
+  let previous = -1, pairs = 0, logSum = 0;
+  for (const { n } of points) {
+    if (!isPrime(n)) continue;
+    if (previous >= 0) {
+      const g = n - previous;
+      while (counts.length <= g) counts.push(0);
+      counts[g]++;
+      pairs++;
+      logSum += Math.log(n);
+    }
+    previous = n;
+  }
+  const L = pairs ? logSum / pairs : 1;
+  const expected = counts.map((_, g) => (g > 0 && g % 2 === 0 ? pairs * (2 / L) * Math.exp(-g / L) : 0));
+  return { counts, expected };
+}
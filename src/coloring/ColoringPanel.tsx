@@ -0,0 +1,74 @@
+import { COLOR_SCHEMES, getColorScheme, schemeAvailable, toCss, type Legend } from './schemes';
+import type { SequenceParams } from '../sequences/registry';
+
+interface ColoringPanelProps {
+  schemeId: string;
+  setSchemeId: (id: string) => void;
+  params: SequenceParams;
+  setParams: React.Dispatch<React.SetStateAction<SequenceParams>>;
+  legend: Legend;
+  /** Far windows disable the schemes that need factor tables. */
+  far: boolean;
+  /** Gaussian or Eisenstein domain: only the schemes that do not need n itself. */
+  lattice: boolean;
+}
+
+export function ColoringPanel({ schemeId, setSchemeId, params, setParams, legend, far, lattice }: ColoringPanelProps) {
+  const scheme = getColorScheme(schemeId, far, lattice);
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
+      <h3 className="text-white font-semibold mb-3">Coloring</h3>
+      <div className="space-y-3 text-sm">
+        <select
+          value={scheme.id}
+          onChange={(e) => setSchemeId(e.target.value)}
+          className="w-full bg-white/10 text-white rounded px-2 py-1 border border-white/20"
+        >
+          {COLOR_SCHEMES.map(s => (
+            <option key={s.id} value={s.id} disabled={!schemeAvailable(s, far, lattice)} className="text-gray-900">{s.label}</option>
+          ))}
+        </select>
+        <p className="text-gray-400 text-xs">{scheme.description}</p>
+
+        {scheme.params?.map(p => (
+          <div key={p.key}>
+            <label className="text-gray-300">{p.label}: {params[p.key] ?? p.default}</label>
+            <input
+              type="range" min={p.min} max={p.max} step={p.step} value={params[p.key] ?? p.default}
+              onChange={(e) => setParams(ps => ({ ...ps, [p.key]: Number(e.target.value) }))}
+              className="w-full mt-1"
+            />
+          </div>
+        ))}
+
+        <ColorLegend legend={legend} />
+      </div>
+    </div>
+  );
+}
+
+export function ColorLegend({ legend }: { legend: Legend }) {
+  return (
+    <div>
+      <div className="text-gray-300 text-xs mb-1">{legend.title}</div>
+      {legend.kind === 'categorical' ? (
+        <div className="flex flex-wrap gap-x-2 gap-y-1">
+          {legend.items.map(item => (
+            <span key={item.label} className="flex items-center gap-1 text-xs text-gray-300">
+              <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ background: toCss(item.color) }} />
+              {item.label}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <>
+          <div className="h-2.5 rounded" style={{ background: `linear-gradient(to right, ${legend.stops.map(toCss).join(', ')})` }} />
+          <div className="flex justify-between text-xs text-gray-400 mt-0.5">
+            <span>{legend.min}</span>
+            <span>{legend.max}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import type { SequenceContext } from '../sequences/arithmetic';
+import type { SequenceParam, SequenceParams } from '../sequences/registry';
+import { elementAt, type LatticeWindow } from '../domains/lattice';
+import { canonical } from '../domains/rings';
+
+/* -------------------- Color helpers (packed 0xRRGGBB) -------------------- */
+export function hslToRgb(h: number, s: number, l: number): number {
+  const k = (m: number) => (m + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (m: number) => Math.round(255 * (l - a * Math.max(-1, Math.min(k(m) - 3, Math.min(9 - k(m), 1)))));
+  return (f(0) << 16) | (f(8) << 8) | f(4);
+}
+
+export function toCss(rgb: number): string {
+  return `#${rgb.toString(16).padStart(6, '0')}`;
+}
+
+// Viridis: perceptually uniform and readable on the dark backdrop.
+const RAMP = [0x440154, 0x3b528b, 0x21918c, 0x5ec962, 0xfde725];
+
+/** Samples the ramp at t ∈ [0, 1]. */
+export function ramp(t: number): number {
+  const x = Math.max(0, Math.min(1, Number.isFinite(t) ? t : 0)) * (RAMP.length - 1);
+  const i = Math.min(RAMP.length - 2, Math.floor(x)), f = x - i;
+  const a = RAMP[i], b = RAMP[i + 1];
+  const mix = (shift: number) => Math.round(((a >> shift) & 255) + (((b >> shift) & 255) - ((a >> shift) & 255)) * f);
+  return (mix(16) << 16) | (mix(8) << 8) | mix(0);
+}
+
+/* -------------------- Color schemes -------------------- */
+export type Legend =
+  | { kind: 'categorical'; title: string; items: { label: string; color: number }[] }
+  | { kind: 'gradient'; title: string; min: string; max: string; stops: number[] };
+
+export interface ColorInput {
+  points: ArrayLike<{ n: number; x: number; y: number; z: number }>;
+  primes: Set<number>;
+  ctx: SequenceContext;
+  blockSize: number;
+  params: SequenceParams;
+  /** Gaussian or Eisenstein domains: the element behind each n. */
+  lattice?: LatticeWindow | null;
+}
+
+export interface Coloring {
+  /** Packed RGB for a point, or −1 to keep the neutral "other integer" fill. */
+  colorOf: (p: { n: number; x: number; y: number; z: number }, prime: boolean) => number;
+  legend: Legend;
+}
+
+export interface ColorScheme {
+  id: string;
+  label: string;
+  description: string;
+  params?: SequenceParam[];
+  /** Needs the window's factor tables, which only sieved windows have; far windows fall back to the first scheme. */
+  sieveOnly?: boolean;
+  /** Only meaningful for rational integers, or only for Gaussian and Eisenstein integers; unset works on any points. */
+  domain?: 'integers' | 'lattice';
+  build: (input: ColorInput) => Coloring;
+}
+
+/** Maps values onto the ramp over [min, max] of the values actually shown. */
+function continuous(title: string, valueOf: (p: { n: number; x: number; y: number; z: number }, prime: boolean) => number | null,
+  input: ColorInput, format: (v: number) => string = v => String(v), log = false): Coloring {
+  let lo = Infinity, hi = -Infinity;
+  for (let i = 0; i < input.points.length; i++) {
+    const p = input.points[i];
+    const v = valueOf(p, input.primes.has(p.n));
+    if (v === null) continue;
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
+  }
+  const f = log ? Math.log : (v: number) => v;
+  const span = f(hi) - f(lo);
+  return {
+    colorOf: (p, prime) => {
+      const v = valueOf(p, prime);
+      return v === null ? -1 : ramp(span > 0 ? (f(v) - f(lo)) / span : 0.5);
+    },
+    legend: { kind: 'gradient', title, min: lo <= hi ? format(lo) : '–', max: lo <= hi ? format(hi) : '–', stops: RAMP },
+  };
+}
+
+/** Gap from each prime in the window to its neighbour, reaching outside the window at the ends. */
+function primeGaps({ primes, ctx }: ColorInput, direction: 'prev' | 'next'): Map<number, number> {
+  const sorted = [...primes].sort((a, b) => a - b);
+  const gaps = new Map<number, number>();
+  if (sorted.length === 0) return gaps;
+  const outward = (from: number, step: number) => {
+    for (let m = from + step; m >= 2; m += step) if (ctx.isPrime(m)) return Math.abs(from - m);
+    return NaN; // no prime below 2
+  };
+  for (let i = 0; i < sorted.length; i++) {
+    const gap = direction === 'prev'
+      ? (i > 0 ? sorted[i] - sorted[i - 1] : outward(sorted[i], -1))
+      : (i < sorted.length - 1 ? sorted[i + 1] - sorted[i] : outward(sorted[i], 1));
+    if (Number.isFinite(gap)) gaps.set(sorted[i], gap);
+  }
+  return gaps;
+}
+
+const HUE_RGB = Array.from({ length: 360 }, (_, h) => hslToRgb(h, 0.7, 0.6));
+
+export const COLOR_SCHEMES: ColorScheme[] = [
+  {
+    id: 'hue',
+    domain: 'integers',
+    label: 'Hue (n mod 360)',
+    description: 'The original rainbow: hue = n mod 360. Decorative, with no arithmetic meaning.',
+    build: ({ ctx }) => ({
+      colorOf: (p, prime) => (prime ? HUE_RGB[ctx.mod(p.n, 360)] : -1),
+      legend: { kind: 'gradient', title: 'n mod 360', min: '0', max: '359', stops: [0, 60, 120, 180, 240, 300, 359].map(h => hslToRgb(h, 0.7, 0.6)) },
+    }),
+  },
+  {
+    id: 'residue',
+    domain: 'integers',
+    label: 'Residue class mod m',
+    description: 'One hue per class n mod m. Primes avoid classes sharing a factor with m, so resonances show up as spokes or bands of a single color.',
+    params: [{ key: 'm', label: 'Modulus m', min: 2, max: 60, step: 1, default: 6 }],
+    build: ({ params, ctx }) => {
+      const m = Math.max(2, Math.round(params.m));
+      const colors = Array.from({ length: m }, (_, r) => hslToRgb((360 * r) / m, 0.7, 0.6));
+      return {
+        colorOf: (p) => colors[ctx.mod(p.n, m)],
+        legend: { kind: 'categorical', title: `n mod ${m}`, items: colors.map((color, r) => ({ label: String(r), color })) },
+      };
+    },
+  },
+  {
+    id: 'associate',
+    label: 'Associate class',
+    description: 'Gaussian and Eisenstein integers: unit multiples of a number (its 4- or 6-fold rotations) share a hue, set by the argument of the one in the first sector. Folding also gives conjugate classes, mirror images across the real axis, the same hue.',
+    params: [{ key: 'fold', label: 'Fold mirror images', min: 0, max: 1, step: 1, default: 0 }],
+    domain: 'lattice',
+    build: ({ lattice, params }) => {
+      const fold = params.fold >= 0.5;
+      const sector = lattice ? 360 / lattice.ring.units.length : 90;
+      // A representative just below the sector's far edge sits next to one just above 0, so the wheel closes up;
+      // folded, the edges no longer meet and the hues stop short of red
+      const hueAt = (t: number) => (fold ? Math.round(300 * Math.min(t, 1 - t) * 2) : Math.floor(360 * t) % 360);
+      const colors = new Int32Array(lattice?.size ?? 0);
+      for (let n = 1; n <= colors.length; n++) {
+        const [x, y] = lattice!.ring.toPlane(canonical(lattice!.ring, elementAt(lattice!, n)));
+        colors[n - 1] = HUE_RGB[hueAt((Math.atan2(y, x) * 180) / Math.PI / sector)];
+      }
+      const stops = fold ? [0, 60, 120, 180, 240, 300] : [0, 60, 120, 180, 240, 300, 359];
+      return {
+        colorOf: (p) => colors[p.n - 1] ?? -1,
+        legend: {
+          kind: 'gradient', title: 'argument of the class representative', min: '0°', max: `${fold ? sector / 2 : sector}°`,
+          stops: stops.map(h => hslToRgb(h, 0.7, 0.6)),
+        },
+      };
+    },
+  },
+  {
+    id: 'gap-prev',
+    domain: 'integers',
+    label: 'Gap to previous prime',
+    description: 'Primes colored by p − (previous prime).',
+    build: (input) => {
+      const gaps = primeGaps(input, 'prev');
+      return continuous('gap to previous prime', (p, prime) => (prime ? gaps.get(p.n) ?? null : null), input);
+    },
+  },
+  {
+    id: 'gap-next',
+    domain: 'integers',
+    label: 'Gap to next prime',
+    description: 'Primes colored by (next prime) − p.',
+    build: (input) => {
+      const gaps = primeGaps(input, 'next');
+      return continuous('gap to next prime', (p, prime) => (prime ? gaps.get(p.n) ?? null : null), input);
+    },
+  },
+  {
+    id: 'divisors',
+    label: 'Number of divisors d(n)',
+    description: 'Every dot colored by d(n) on a log scale; primes all share d = 2, so enable "Show all numbers".',
+    sieveOnly: true,
+    domain: 'integers',
+    build: (input) => {
+      const { ctx } = input;
+      const d = ctx.factors().divisors;
+      return continuous('d(n)', (p) => d[p.n - ctx.start] || null, input, String, true);
+    },
+  },
+  {
+    id: 'axis-distance',
+    label: 'Distance from spiral axis',
+    description: 'Every dot colored by √(x² + y²), its distance from the z axis.',
+    build: (input) => continuous('distance from axis', (p) => Math.hypot(p.x, p.y), input, v => v.toFixed(2)),
+  },
+  {
+    id: 'layer',
+    domain: 'integers',
+    label: 'Layer index',
+    description: 'Every dot colored by its block ⌊(n − 1) / blockSize⌋, i.e. its ring in the layered geometry.',
+    build: (input) => {
+      const size = Math.max(1, input.blockSize);
+      const first = Math.floor((input.ctx.start - 1) / size);
+      return continuous('layer', (p) => Math.floor((p.n - 1) / size) - first, input);
+    },
+  },
+];
+
+/** Whether the scheme can color far windows (`far`) or Gaussian and Eisenstein integers (`lattice`). */
+export function schemeAvailable(scheme: ColorScheme, far: boolean, lattice: boolean): boolean {
+  if (far && scheme.sieveOnly) return false;
+  return !scheme.domain || scheme.domain === (lattice ? 'lattice' : 'integers');
+}
+
+/** The scheme `id`, or the first one that works in the current domain. */
+export function getColorScheme(id: string, far = false, lattice = false): ColorScheme {
+  const scheme = COLOR_SCHEMES.find(s => s.id === id);
+  return scheme && schemeAvailable(scheme, far, lattice) ? scheme : COLOR_SCHEMES.find(s => schemeAvailable(s, far, lattice))!;
+}
+
+/** A CSS background summarising a legend, for small swatches. */
+export function legendSwatch(legend: Legend): string {
+  const colors = legend.kind === 'categorical' ? legend.items.map(i => i.color) : legend.stops;
+  if (colors.length === 1) return toCss(colors[0]);
+  return `conic-gradient(${colors.map(toCss).join(', ')})`;
+}
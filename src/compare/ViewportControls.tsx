@@ -0,0 +1,39 @@
+import { useState } from 'react';
+import { Settings } from 'lucide-react';
+import type { GeometryParams, SpiralGeometry } from '../geometry/types';
+import { ParamSliders } from '../geometry/ParamSliders';
+
+interface ViewportControlsProps {
+  geometries: SpiralGeometry[];
+  geometry: SpiralGeometry;
+  params: GeometryParams;
+  setMode: (mode: string) => void;
+  setParam: (name: string, value: number) => void;
+}
+
+/** Geometry picker and parameter popover in the corner of a comparison viewport. */
+export function ViewportControls({ geometries, geometry, params, setMode, setParam }: ViewportControlsProps) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="absolute top-2 right-2 z-10 flex flex-col items-end gap-1 text-sm">
+      <div className="flex items-center gap-1 bg-black/70 rounded px-1 py-0.5">
+        <select
+          value={geometry.id}
+          onChange={(e) => setMode(e.target.value)}
+          className="bg-transparent text-white rounded px-1"
+          aria-label="Viewport geometry"
+        >
+          {geometries.map(g => <option key={g.id} value={g.id} className="text-gray-900">{g.label}</option>)}
+        </select>
+        <button onClick={() => setOpen(o => !o)} className="text-gray-300 hover:text-white px-1" title="Viewport parameters">
+          <Settings size={14} />
+        </button>
+      </div>
+      {open && (
+        <div className="w-56 bg-gray-900/90 border border-white/20 rounded-lg p-3 space-y-3">
+          <ParamSliders schema={geometry.params} values={params} onChange={setParam} />
+        </div>
+      )}
+    </div>
+  );
+}
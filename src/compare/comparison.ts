@@ -0,0 +1,67 @@
+import type { GeometryParams, Point3D } from '../geometry/types';
+import type { Camera } from '../render/camera';
+import type { Projector } from '../render/projection';
+
+/* -------------------- Comparison layout -------------------- */
+/** One extra viewport next to the main one: its own geometry, parameters and (when unlinked) camera. */
+export interface ComparisonViewport {
+  mode: string;
+  /** Non-default parameters, like `ViewState.geometryParams[mode]`. */
+  geometryParams: GeometryParams;
+  camera: Camera;
+}
+
+export interface ComparisonState {
+  /** Viewports shown, main one included: 1 … MAX_VIEWPORTS. */
+  count: number;
+  /** All viewports follow the main camera. */
+  linked: boolean;
+  showDifferences: boolean;
+  /** Screen distance in pixels beyond which a point counts as diverging. */
+  threshold: number;
+  /** The extra viewports; only the first count − 1 are shown, the rest keep their settings. */
+  viewports: ComparisonViewport[];
+}
+
+export const MAX_VIEWPORTS = 4;
+
+export const DEFAULT_COMPARISON: ComparisonState = {
+  count: 1, linked: true, showDifferences: false, threshold: 12, viewports: [],
+};
+
+/** Columns and rows of the viewport grid. */
+export function gridOf(count: number): { cols: number; rows: number } {
+  if (count <= 3) return { cols: count, rows: 1 };
+  return { cols: 2, rows: 2 };
+}
+
+/* -------------------- Difference overlay -------------------- */
+export interface ProjectedView {
+  points: Point3D[];
+  projector: Projector;
+}
+
+/**
+ * Numbers whose screen positions in two equally sized viewports are more than `threshold` pixels
+ * apart. Numbers missing from either view, hidden, or behind a near plane are skipped.
+ */
+export function divergingPoints(a: ProjectedView, b: ProjectedView, threshold: number, visible: (n: number) => boolean): Set<number> {
+  const out = new Set<number>();
+  const pa = new Float64Array(4), pb = new Float64Array(4);
+  const limit = threshold * threshold;
+  // Geometries usually emit the same numbers in the same order; where they do not, match by n (indexed on first need)
+  let indexB: Map<number, number> | null = null;
+  for (let i = 0; i < a.points.length; i++) {
+    const p = a.points[i];
+    if (!visible(p.n)) continue;
+    const j = b.points[i]?.n === p.n ? i : (indexB ??= new Map(b.points.map((q, k) => [q.n, k]))).get(p.n) ?? -1;
+    if (j < 0) continue;
+    const q = b.points[j];
+    a.projector.projectTo(p.x, p.y, p.z, pa, 0);
+    b.projector.projectTo(q.x, q.y, q.z, pb, 0);
+    if (pa[3] === 0 || pb[3] === 0) continue;
+    const dx = pa[0] - pb[0], dy = pa[1] - pb[1];
+    if (dx * dx + dy * dy > limit) out.add(p.n);
+  }
+  return out;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  EISENSTEIN, GAUSSIAN, compileLift, elementAt, enumerateLattice, factorElement, formatElement, indexOf, isRingPrime, parseElement,
+  type QuadraticRing, type RingElement,
+} from './index';
+
+const RINGS_UNDER_TEST: [string, QuadraticRing][] = [['Gaussian', GAUSSIAN], ['Eisenstein', EISENSTEIN]];
+
+const element = fc.tuple(fc.integer({ min: -300, max: 300 }), fc.integer({ min: -300, max: 300 }))
+  .filter(([a, b]) => a !== 0 || b !== 0) as fc.Arbitrary<RingElement>;
+
+/** Irreducible by brute force: no divisor of strictly smaller, non-unit norm. */
+function irreducible(ring: QuadraticRing, z: RingElement): boolean {
+  const n = ring.norm(z);
+  if (n <= 1) return false;
+  const lattice = enumerateLattice(ring, n - 1);
+  for (let k = 1; k <= lattice.size; k++) {
+    const d = elementAt(lattice, k);
+    const m = ring.norm(d);
+    if (m === 1 || n % m !== 0) continue;
+    const [a, b] = ring.mul(z, ring.conj(d));
+    if (a % m === 0 && b % m === 0) return false;
+  }
+  return true;
+}
+
+describe.each(RINGS_UNDER_TEST)('%s integers', (_, ring) => {
+  it('matches brute-force irreducibility up to norm 200', () => {
+    const lattice = enumerateLattice(ring, 200);
+    for (let n = 1; n <= lattice.size; n++) {
+      const z = elementAt(lattice, n);
+      expect(lattice.primes.has(n)).toBe(irreducible(ring, z));
+      expect(isRingPrime(ring, z)).toBe(lattice.primes.has(n));
+    }
+  });
+
+  it('factors every element back into itself', () => {
+    fc.assert(fc.property(element, (z) => {
+      const { unit, factors } = factorElement(ring, z);
+      expect(ring.norm(unit)).toBe(1);
+      let product: RingElement = unit;
+      for (const [pi, e] of factors) {
+        expect(isRingPrime(ring, pi)).toBe(true);
+        for (let i = 0; i < e; i++) product = ring.mul(product, pi);
+      }
+      expect(product).toEqual(z);
+    }));
+  });
+
+  it('parses what it formats', () => {
+    fc.assert(fc.property(element, (z) => {
+      expect(parseElement(ring, formatElement(ring, z))).toEqual(z);
+    }));
+  });
+
+  it('numbers elements by norm and finds them again', () => {
+    const lattice = enumerateLattice(ring, 1000);
+    for (let n = 1; n <= lattice.size; n++) {
+      expect(indexOf(lattice, elementAt(lattice, n))).toBe(n);
+      if (n > 1) expect(lattice.norms[n - 1]).toBeGreaterThanOrEqual(lattice.norms[n - 2]);
+    }
+    expect(indexOf(lattice, [1000, 0])).toBeNull();
+    expect(Math.abs(lattice.size / (ring.density * 1000) - 1)).toBeLessThan(0.05);
+  });
+});
+
+describe('prime counts', () => {
+  it('has 16 Gaussian and 24 Eisenstein primes of norm at most 10', () => {
+    expect(enumerateLattice(GAUSSIAN, 10).primes.size).toBe(16);
+    expect(enumerateLattice(EISENSTEIN, 10).primes.size).toBe(24);
+  });
+});
+
+describe('parseElement', () => {
+  it('reads the usual spellings', () => {
+    expect(parseElement(GAUSSIAN, '3 - 2i')).toEqual([3, -2]);
+    expect(parseElement(GAUSSIAN, '−i')).toEqual([0, -1]);
+    expect(parseElement(EISENSTEIN, '4+2w')).toEqual([4, 2]);
+    expect(parseElement(EISENSTEIN, 'ω')).toEqual([0, 1]);
+    expect(parseElement(GAUSSIAN, '2+')).toBeNull();
+  });
+});
+
+describe('compileLift', () => {
+  it('treats inherited object names as unknown', () => {
+    for (const expr of ['toString(a)', 'constructor', 'valueOf(1) + b']) {
+      const lift = compileLift(expr);
+      expect(lift.ok).toBe(false);
+      if (!lift.ok) expect(lift.error.message).toMatch(/^Unknown (name|function)/);
+    }
+    expect(compileLift('h * sqrt(norm) / sqrt(B)').ok).toBe(true);
+  });
+});
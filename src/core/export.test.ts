@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { coordsHelix, exportData, packPointCloud, type DataScene } from './index';
+
+function scene(origin: bigint): DataScene {
+  const points = coordsHelix(1, 50, 0.35, 1, 0.08);
+  const primes = new Set([2, 3, 5, 7, 11]);
+  const cloud = packPointCloud(points, { primes, showPrimes: true, layers: [], showAllNumbers: true, colorOf: () => -1 });
+  return { cloud, points, path: null, meta: { geometry: 'helix', params: { radius: 1 }, start: 1, N: 50, origin } };
+}
+
+describe('glTF export', () => {
+  it('writes the exact start of a far window into the root node', async () => {
+    const origin = 10n ** 18n;
+    const doc = JSON.parse(await exportData('gltf', scene(origin)).text());
+    const extras = doc.nodes[0].extras;
+    expect(extras.start).toBe(String(origin + 1n));
+    expect(extras).not.toHaveProperty('origin');
+  });
+
+  it('packs a GLB for far windows', async () => {
+    const bytes = new Uint8Array(await exportData('glb', scene(10n ** 18n)).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint32(0, true)).toBe(0x46546c67);
+    expect(view.getUint32(8, true)).toBe(bytes.length);
+    const json = JSON.parse(new TextDecoder().decode(bytes.subarray(20, 20 + view.getUint32(12, true))));
+    expect(json.nodes[0].extras.start).toBe('1000000000000000001');
+  });
+
+  it('keeps numbers for sieved windows', async () => {
+    const doc = JSON.parse(await exportData('gltf', scene(0n)).text());
+    expect(doc.nodes[0].extras).toEqual({ geometry: 'helix', params: { radius: 1 }, start: 1, N: 50 });
+  });
+});
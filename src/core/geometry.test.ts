@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  coordsConicalArchimedean, coordsFibonacciSphere, coordsHelix, coordsLayeredTime, coordsLogConical,
+  coordsSacks, coordsSphericalSpiral, coordsToroidal, coordsUlamLifted, ulamXY, type Point3D,
+} from './index';
+
+// Every built-in generator at its default parameters
+const GENERATORS: [string, (start: number, N: number) => Point3D[]][] = [
+  ['helix', (start, N) => coordsHelix(start, N, 0.35, 1, 0.08)],
+  ['spherical', (start, N) => coordsSphericalSpiral(start, N, 0.35)],
+  ['conical', (start, N) => coordsConicalArchimedean(start, N, 0.35, 0.8, 0.04, 0.03)],
+  ['layered', (start, N) => coordsLayeredTime(start, N, 200, 6, 0.35)],
+  ['sacks', (start, N) => coordsSacks(start, N, 0.1, 0.05)],
+  ['ulam', (start, N) => coordsUlamLifted(start, N, 0.1, 0.002)],
+  ['toroidal', (start, N) => coordsToroidal(start, N, 0.35, 3, 1, 2, 3)],
+  ['fibonacci sphere', (start, N) => coordsFibonacciSphere(start, N, 3, 0)],
+  ['logarithmic', (start, N) => coordsLogConical(start, N, 0.35, 0.3, 3, 0.8)],
+];
+
+// Snapshots store rounded coordinates so last-bit differences between Math libraries do not matter
+const rounded = (points: Point3D[]) => points.map(({ n, x, y, z }) => [n, ...[x, y, z].map(v => Number(v.toFixed(9)) || 0)]);
+
+describe.each(GENERATORS)('%s', (_, generate) => {
+  it('is empty for N = 0', () => {
+    expect(generate(1, 0)).toEqual([]);
+  });
+
+  it('gives a finite point for N = 1', () => {
+    const points = generate(1, 1);
+    expect(points).toHaveLength(1);
+    expect(points[0].n).toBe(1);
+    for (const v of [points[0].x, points[0].y, points[0].z]) expect(Number.isFinite(v)).toBe(true);
+  });
+
+  it('places start … start + N − 1 in order, all finite', () => {
+    fc.assert(fc.property(fc.integer({ min: 1, max: 1e9 }), fc.integer({ min: 0, max: 300 }), (start, N) => {
+      const points = generate(start, N);
+      expect(points.map(p => p.n)).toEqual(Array.from({ length: N }, (_, i) => start + i));
+      for (const p of points) expect(Number.isFinite(p.x) && Number.isFinite(p.y) && Number.isFinite(p.z)).toBe(true);
+    }), { numRuns: 50 });
+  });
+
+  it('matches the snapshot for 1 … 24', () => {
+    expect(rounded(generate(1, 24))).toMatchSnapshot();
+  });
+
+  it('matches the snapshot for a window at 10⁶', () => {
+    expect(rounded(generate(1_000_000, 8))).toMatchSnapshot();
+  });
+});
+
+describe('coordsSphericalSpiral', () => {
+  it('keeps every point on the unit sphere, from pole to pole', () => {
+    const points = coordsSphericalSpiral(1, 101, 0.35);
+    for (const p of points) expect(Math.hypot(p.x, p.y, p.z)).toBeCloseTo(1, 12);
+    expect(points[0].z).toBe(-1);
+    expect(points[100].z).toBe(1);
+  });
+
+  it('puts a single number at the south pole instead of dividing by zero', () => {
+    const [p] = coordsSphericalSpiral(7, 1, 0.35);
+    expect(p.n).toBe(7);
+    expect(Math.hypot(p.x, p.y)).toBe(0);
+    expect(p.z).toBe(-1);
+  });
+});
+
+describe('coordsLayeredTime', () => {
+  it('clamps a block size ≤ 0 to 1, one number per layer', () => {
+    for (const blockSize of [0, -5]) {
+      const points = coordsLayeredTime(1, 5, blockSize, 6, 0.35);
+      expect(points.map(p => p.z)).toEqual([0, 1, 2, 3, 4]);
+      for (const p of points) expect([p.x, p.y]).toEqual([6, 0]);
+    }
+  });
+
+  it('aligns blocks to multiples of the block size and counts layers from the window', () => {
+    const points = coordsLayeredTime(150, 200, 100, 6, 0.35);
+    expect(points.find(p => p.n === 200)!.z).toBe(0);
+    expect(points.find(p => p.n === 201)!.z).toBe(1);
+    expect(points.find(p => p.n === 301)!.z).toBe(2);
+  });
+
+  it('keeps every ring at the layer radius', () => {
+    for (const p of coordsLayeredTime(1, 500, 37, 4.5, 0.35)) expect(Math.hypot(p.x, p.y)).toBeCloseTo(4.5, 12);
+  });
+});
+
+describe('coordsHelix', () => {
+  it('stays on the cylinder and rises by pitch · stepAngle per number', () => {
+    const points = coordsHelix(10, 50, 0.35, 5, 0.2);
+    for (let i = 0; i < points.length; i++) {
+      expect(Math.hypot(points[i].x, points[i].y)).toBeCloseTo(5, 12);
+      expect(points[i].z).toBeCloseTo(0.2 * (i + 1) * 0.35, 12);
+    }
+  });
+});
+
+describe('coordsFibonacciSphere', () => {
+  it('stays on the sphere and strictly inside the poles', () => {
+    for (const N of [1, 2, 100]) {
+      for (const p of coordsFibonacciSphere(1, N, 3, 0)) {
+        expect(Math.hypot(p.x, p.y, p.z)).toBeCloseTo(3, 12);
+        expect(Math.abs(p.z)).toBeLessThan(3);
+      }
+    }
+  });
+});
+
+describe('ulamXY', () => {
+  it('walks the square spiral one unit step at a time', () => {
+    fc.assert(fc.property(fc.integer({ min: 1, max: 1e12 }), n => {
+      const [x0, y0] = ulamXY(n), [x1, y1] = ulamXY(n + 1);
+      expect(Math.abs(x1 - x0) + Math.abs(y1 - y0)).toBe(1);
+    }));
+  });
+
+  it('puts 1 at the origin and odd squares on the ring corners', () => {
+    expect(ulamXY(1).map(Math.abs)).toEqual([0, 0]);
+    for (let k = 1; k < 50; k++) expect(ulamXY((2 * k + 1) ** 2)).toEqual([k, -k]);
+  });
+});
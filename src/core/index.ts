@@ -0,0 +1,40 @@
+/* -------------------- Headless math core -------------------- */
+// Sieving and primality testing, Gaussian and Eisenstein integers, spiral coordinates, the camera projection and
+// clipping: everything the views draw, with no DOM, React or worker in the import graph, so it runs under Node as
+// well as in the page. The data exporters only need Blob, which Node has too.
+
+export type { Point3D, GeometryParams, SpiralGeometry } from '../geometry/types';
+
+export { DEFAULT_SEGMENT_SIZE, basePrimes, sieveSegment, sieveRange, type SieveRangeOptions } from '../sieve/segmentedSieve';
+export { MILLER_RABIN_LIMIT, isPrimeBig, modPow, primeOffsets, type PrimeOffsetsOptions } from '../sieve/millerRabin';
+
+export {
+  EISENSTEIN, GAUSSIAN, RINGS, associates, canonical, divideExact, factorElement, formatElement, formatFactorization,
+  isRingPrime, parseElement, primesAbove, type QuadraticRing, type RingElement, type RingFactorization, type RingId,
+} from '../domains/rings';
+export { compileLift, elementAt, enumerateLattice, indexOf, type LatticeWindow } from '../domains/lattice';
+
+export { coordsHelix } from '../geometry/helix';
+export { coordsSphericalSpiral } from '../geometry/spherical';
+export { coordsConicalArchimedean } from '../geometry/conical';
+export { coordsLayeredTime } from '../geometry/layered';
+export { coordsSacks } from '../geometry/sacks';
+export { coordsUlamLifted, ulamXY } from '../geometry/ulam';
+export { coordsToroidal } from '../geometry/toroidal';
+export { coordsFibonacciSphere } from '../geometry/fibonacciSphere';
+export { coordsLogConical } from '../geometry/logarithmic';
+
+export {
+  DEFAULT_CAMERA, IDENTITY, quatFromAxisAngle, quatMultiply, quatNormalize, quatToMatrix,
+  boundsOf, cameraFromEuler, dolly, fitToBounds, focalPixels, orbit, pan,
+  type Camera, type Quat, type Vec3,
+} from '../render/camera';
+export {
+  CLIP_AXES, DEFAULT_CLIP, boxPolygon, clipActive, clipTest, insidePolygon, regionStats,
+  type ClipState, type RangeTest, type RegionStats,
+} from '../region/region';
+export { makeProjector, type ProjectedPoint, type Projector, type ViewParams } from '../render/projection';
+export { packPointCloud, type PackOptions, type PointCloud } from '../render/pointCloud';
+export { exportData, type DataFormat, type DataScene } from '../export/formats';
+export { DEFAULT_VIEW, decodeViewState, sanitizeView, type ViewState } from '../state/viewState';
+export { parsePresetFile, serializePresets, type Preset } from '../state/presets';
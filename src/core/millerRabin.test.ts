@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { MILLER_RABIN_LIMIT, isPrimeBig, modPow, primeOffsets, sieveRange } from './index';
+
+// Strong pseudoprimes to several of the smaller base sets: each fools some Miller–Rabin variant
+const PSEUDOPRIMES = [
+  2_047n, 1_373_653n, 25_326_001n, 3_215_031_751n, 2_152_302_898_747n, 3_474_749_660_383n,
+  341_550_071_728_321n, 3_825_123_056_546_413_051n, 318_665_857_834_031_151_167_461n,
+];
+
+describe('isPrimeBig', () => {
+  it('agrees with the sieve below 10⁵', () => {
+    const primes = new Set(sieveRange(1, 100_000));
+    for (let n = 0; n <= 100_000; n++) expect(isPrimeBig(BigInt(n))).toBe(primes.has(n));
+  });
+
+  it('rejects strong pseudoprimes', () => {
+    for (const n of PSEUDOPRIMES) expect(isPrimeBig(n)).toBe(false);
+  });
+
+  it('accepts known large primes on both sides of 2⁶⁴', () => {
+    expect(isPrimeBig(1_000_000_000_000_037n)).toBe(true);
+    expect(isPrimeBig(2n ** 61n - 1n)).toBe(true);
+    expect(isPrimeBig(18_446_744_073_709_551_557n)).toBe(true); // largest prime below 2⁶⁴
+    expect(isPrimeBig(2n ** 64n + 13n)).toBe(true);
+    expect(isPrimeBig(2n ** 64n + 1n)).toBe(false);
+    expect(isPrimeBig((2n ** 61n - 1n) * 1_000_003n)).toBe(false);
+  });
+
+  it('refuses numbers at or above the proven limit', () => {
+    expect(() => isPrimeBig(MILLER_RABIN_LIMIT)).toThrow(RangeError);
+  });
+});
+
+describe('modPow', () => {
+  it('matches repeated multiplication', () => {
+    fc.assert(fc.property(fc.bigInt({ min: 0n, max: 10n ** 12n }), fc.integer({ min: 0, max: 40 }), fc.bigInt({ min: 1n, max: 10n ** 9n }), (b, e, m) => {
+      let expected = 1n % m;
+      for (let i = 0; i < e; i++) expected = (expected * b) % m;
+      expect(modPow(b, BigInt(e), m)).toBe(expected);
+    }));
+  });
+
+  it('reduces a zero exponent modulo m', () => {
+    expect(modPow(0n, 0n, 1n)).toBe(0n);
+    expect(modPow(5n, 0n, 7n)).toBe(1n);
+  });
+});
+
+describe('primeOffsets', () => {
+  it('finds the same primes as the sieve, including windows reaching down to 1', () => {
+    for (const [start, end] of [[1, 10_000], [65_000, 70_000], [4_294_900_000, 4_295_000_000]]) {
+      const offsets = primeOffsets(BigInt(start), end - start + 1);
+      expect([...offsets].map(i => start + i)).toEqual([...sieveRange(start, end)]);
+    }
+  });
+
+  it('keeps the presieve primes in windows starting at 0 or inside the presieve range', () => {
+    for (const first of [0n, 2n, 3n, 5n, 7n, 100n, 1_000n]) {
+      const offsets = primeOffsets(first, 2_000);
+      expect([...offsets].map(i => Number(first) + i)).toEqual([...sieveRange(Math.max(1, Number(first)), Number(first) + 1_999)]);
+    }
+  });
+
+  it('agrees with isPrimeBig on random far windows', () => {
+    fc.assert(fc.property(fc.bigInt({ min: 10n ** 15n, max: 10n ** 20n }), fc.integer({ min: 0, max: 400 }), (first, width) => {
+      const expected: number[] = [];
+      for (let i = 0; i < width; i++) if (isPrimeBig(first + BigInt(i))) expected.push(i);
+      expect([...primeOffsets(first, width)]).toEqual(expected);
+    }), { numRuns: 30 });
+  });
+
+  it('reports progress up to the window width', () => {
+    const calls: [number, number][] = [];
+    primeOffsets(10n ** 18n, 10_000, { onProgress: (done, total) => calls.push([done, total]) });
+    expect(calls).toEqual([[4_096, 10_000], [8_192, 10_000], [10_000, 10_000]]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VIEW, decodeViewState, parsePresetFile, serializePresets } from './index';
+
+const fileWith = (view: Record<string, unknown>) => JSON.stringify({ presets: [{ name: 'p', view }] });
+
+describe('parsePresetFile', () => {
+  it('round-trips a saved preset', () => {
+    const preset = { id: 'a', name: 'Ulam', savedAt: '2024-01-01T00:00:00.000Z', view: { ...DEFAULT_VIEW, mode: 'ulam', N: 5000 } };
+    expect(parsePresetFile(serializePresets([preset]))).toEqual([preset]);
+  });
+
+  it('replaces fields of the wrong type with the defaults', () => {
+    const [{ view }] = parsePresetFile(fileWith({
+      N: 'abc', dotSize: 'q', start: null, animationSpeed: Infinity, mode: 42, renderer: 'webgl',
+      showAxes: 'yes', sequenceLayers: {}, colorScheme: 7, colorParams: null, camera: 'front',
+    }));
+    expect(view).toEqual(DEFAULT_VIEW);
+  });
+
+  it('keeps the well-formed parts of layers and parameters', () => {
+    const [{ view }] = parsePresetFile(fileWith({
+      sequenceLayers: [{ id: 'k-distinct', visible: false, params: { k: 3, bad: 'x' } }, { visible: true }, null, 'twin'],
+      colorScheme: 'residue',
+      colorParams: { m: 6, label: 'x' },
+      N: 1e12,
+    }));
+    expect(view.sequenceLayers).toEqual([{ id: 'k-distinct', visible: false, params: { k: 3 } }]);
+    expect(view.colorParams).toEqual({ m: 6 });
+    expect(view.N).toBe(10_000_000);
+  });
+
+  it('rejects files that are not preset lists', () => {
+    expect(() => parsePresetFile('{')).toThrow(/Not valid JSON/);
+    expect(() => parsePresetFile('{"presets": {}}')).toThrow(/"presets" array/);
+    expect(() => parsePresetFile('[{"name": "x"}]')).toThrow(/has no view/);
+  });
+});
+
+describe('decodeViewState', () => {
+  it('clamps color and layer parameters to their ranges', () => {
+    const view = decodeViewState('color=residue(m=100000000)&layers=k-distinct(k=1e9),twin(x=3)');
+    expect(view.colorParams).toEqual({ m: 60 });
+    expect(view.sequenceLayers).toEqual([
+      { id: 'k-distinct', visible: true, params: { k: 8 } },
+      { id: 'twin', visible: true, params: {} },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { DEFAULT_CAMERA, cameraFromEuler, dolly, makeProjector, orbit, quatToMatrix, type Camera, type Vec3 } from './index';
+
+const WIDTH = 800, HEIGHT = 600;
+
+const angle = fc.double({ min: -Math.PI, max: Math.PI, noNaN: true });
+const coord = fc.double({ min: -50, max: 50, noNaN: true });
+const camera = fc.record({
+  rx: angle, ry: angle, rz: angle,
+  target: fc.tuple(coord, coord, coord),
+  distance: fc.double({ min: 1, max: 200, noNaN: true }),
+  focalLength: fc.double({ min: 15, max: 200, noNaN: true }),
+}).map(({ rx, ry, rz, target, distance, focalLength }): Camera => (
+  { ...orbit(DEFAULT_CAMERA, rx, ry, rz), target, distance, focalLength }
+));
+
+/** World point at view-space offset (vx, vy, vz) from the target: the transpose takes view back to world. */
+function fromView(cam: Camera, vx: number, vy: number, vz: number): { x: number; y: number; z: number } {
+  const m = quatToMatrix(cam.orientation);
+  const [tx, ty, tz] = cam.target;
+  return {
+    x: tx + m[0] * vx + m[3] * vy + m[6] * vz,
+    y: ty + m[1] * vx + m[4] * vy + m[7] * vz,
+    z: tz + m[2] * vx + m[5] * vy + m[8] * vz,
+  };
+}
+
+describe('makeProjector', () => {
+  it('puts the target at the centre of the screen with perspective factor 1', () => {
+    fc.assert(fc.property(camera, fc.boolean(), (cam, perspective) => {
+      const [x, y, z] = cam.target;
+      const p = makeProjector({ width: WIDTH, height: HEIGHT, camera: cam, perspective }).project({ x, y, z });
+      expect(p.x).toBeCloseTo(WIDTH / 2, 6);
+      expect(p.y).toBeCloseTo(HEIGHT / 2, 6);
+      expect(p.z).toBeCloseTo(-cam.distance, 6);
+      expect(p.p).toBeCloseTo(1, 12);
+    }));
+  });
+
+  it('maps view x and y on the target plane to screen pixels at `scale`, in both modes', () => {
+    fc.assert(fc.property(camera, coord, coord, (cam, vx, vy) => {
+      for (const perspective of [false, true]) {
+        const projector = makeProjector({ width: WIDTH, height: HEIGHT, camera: cam, perspective });
+        const p = projector.project(fromView(cam, vx, vy, 0));
+        expect(p.x).toBeCloseTo(WIDTH / 2 + vx * projector.scale, 4);
+        expect(p.y).toBeCloseTo(HEIGHT / 2 + vy * projector.scale, 4);
+      }
+    }));
+  });
+
+  it('never scales dots when orthographic, whatever the depth', () => {
+    fc.assert(fc.property(camera, coord, coord, coord, (cam, x, y, z) => {
+      const p = makeProjector({ width: WIDTH, height: HEIGHT, camera: cam, perspective: false }).project({ x, y, z });
+      expect(p.p).toBe(1);
+      expect(Number.isFinite(p.x) && Number.isFinite(p.y)).toBe(true);
+    }));
+  });
+
+  it('sorts depth back to front: nearer the eye means a larger z and bigger dots', () => {
+    fc.assert(fc.property(camera, fc.double({ min: -0.9, max: 5, noNaN: true }), fc.double({ min: 0.01, max: 1, noNaN: true }), (cam, t, dt) => {
+      const projector = makeProjector({ width: WIDTH, height: HEIGHT, camera: cam, perspective: true });
+      const far = projector.project(fromView(cam, 1, 1, (t + dt) * cam.distance));
+      const near = projector.project(fromView(cam, 1, 1, t * cam.distance));
+      expect(near.z).toBeGreaterThan(far.z);
+      expect(near.p).toBeGreaterThan(far.p);
+    }));
+  });
+
+  it('clips points in front of the near plane', () => {
+    const projector = makeProjector({ width: WIDTH, height: HEIGHT, camera: DEFAULT_CAMERA, perspective: true });
+    const p = projector.project(fromView(DEFAULT_CAMERA, 0, 0, -DEFAULT_CAMERA.distance));
+    expect(p.p).toBe(0);
+    expect(p.x).toBeNaN();
+    expect(p.y).toBeNaN();
+  });
+
+  it('writes the same numbers through projectTo as through project', () => {
+    fc.assert(fc.property(camera, fc.boolean(), coord, coord, coord, (cam, perspective, x, y, z) => {
+      const projector = makeProjector({ width: WIDTH, height: HEIGHT, camera: cam, perspective });
+      const out = new Float64Array(6);
+      projector.projectTo(x, y, z, out, 2);
+      const p = projector.project({ x, y, z });
+      expect([...out.subarray(2)]).toEqual([p.x, p.y, p.z, p.p]);
+    }));
+  });
+
+  it('halves the scale when the camera backs off to twice the distance', () => {
+    const a = makeProjector({ width: WIDTH, height: HEIGHT, camera: DEFAULT_CAMERA, perspective: true });
+    const b = makeProjector({ width: WIDTH, height: HEIGHT, camera: dolly(DEFAULT_CAMERA, 2), perspective: true });
+    expect(b.scale).toBeCloseTo(a.scale / 2, 12);
+  });
+
+  it('keeps the old Euler-angle projection for saved views', () => {
+    const projector = makeProjector({ width: WIDTH, height: HEIGHT, camera: cameraFromEuler(0.3, -0.5, 1.5), perspective: false });
+    const p = projector.project({ x: 1, y: 2, z: 3 });
+    // Rotate about x by 0.3, then about y by −0.5, at min(w, h) · 0.12 · zoom pixels per unit
+    const k = Math.min(WIDTH, HEIGHT) * 0.12 * 1.5;
+    const y1 = 2 * Math.cos(0.3) - 3 * Math.sin(0.3), z1 = 2 * Math.sin(0.3) + 3 * Math.cos(0.3);
+    const x2 = 1 * Math.cos(-0.5) + z1 * Math.sin(-0.5);
+    expect(p.x).toBeCloseTo(WIDTH / 2 + x2 * k, 6);
+    expect(p.y).toBeCloseTo(HEIGHT / 2 + y1 * k, 6);
+  });
+});
+
+describe('projectSegment', () => {
+  const cam: Camera = { ...DEFAULT_CAMERA, target: [0, 0, 0] as Vec3 };
+  const projector = makeProjector({ width: WIDTH, height: HEIGHT, camera: cam, perspective: true });
+
+  it('projects visible segments end to end', () => {
+    const a = fromView(cam, -1, 0, 0), b = fromView(cam, 2, 1, 3);
+    expect(projector.projectSegment(a, b)).toEqual([projector.project(a), projector.project(b)]);
+  });
+
+  it('drops segments entirely behind the near plane', () => {
+    expect(projector.projectSegment(fromView(cam, 0, 0, -cam.distance), fromView(cam, 1, 1, -2 * cam.distance))).toBeNull();
+  });
+
+  it('cuts segments crossing the near plane at the plane', () => {
+    const seg = projector.projectSegment(fromView(cam, 0, 0, -2 * cam.distance), fromView(cam, 1, 0, 0));
+    expect(seg).not.toBeNull();
+    const [clipped, kept] = seg!;
+    expect(Number.isFinite(clipped.x) && Number.isFinite(clipped.y)).toBe(true);
+    expect(clipped.p).toBeGreaterThan(kept.p);
+    expect(kept).toEqual(projector.project(fromView(cam, 1, 0, 0)));
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { DEFAULT_CLIP, boxPolygon, clipActive, clipTest, coordsHelix, insidePolygon, regionStats, type ClipState } from './index';
+
+const slab = (from: number, to: number): ClipState => ({ ...DEFAULT_CLIP, axes: { ...DEFAULT_CLIP.axes, z: { enabled: true, from, to } } });
+
+describe('insidePolygon', () => {
+  it('matches the rectangle test for boxes', () => {
+    const c = fc.double({ min: -100, max: 100, noNaN: true });
+    fc.assert(fc.property(c, c, c, c, c, c, (x0, y0, x1, y1, x, y) => {
+      // Points on an edge may fall either way
+      fc.pre(x !== x0 && x !== x1 && y !== y0 && y !== y1);
+      const expected = x > Math.min(x0, x1) && x < Math.max(x0, x1) && y > Math.min(y0, y1) && y < Math.max(y0, y1);
+      expect(insidePolygon(x, y, boxPolygon(x0, y0, x1, y1))).toBe(expected);
+    }));
+  });
+
+  it('handles concave outlines', () => {
+    // A U shape open at the top
+    const u = [0, 0, 30, 0, 30, 30, 20, 30, 20, 10, 10, 10, 10, 30, 0, 30];
+    expect(insidePolygon(5, 20, u)).toBe(true);
+    expect(insidePolygon(25, 20, u)).toBe(true);
+    expect(insidePolygon(15, 20, u)).toBe(false);
+    expect(insidePolygon(15, 5, u)).toBe(true);
+  });
+});
+
+describe('clipTest', () => {
+  const points = coordsHelix(1, 1000, 0.3, 2, 0.01);
+
+  it('is null when nothing is clipped', () => {
+    expect(clipActive(DEFAULT_CLIP)).toBe(false);
+    expect(clipTest(points, DEFAULT_CLIP, null)).toBeNull();
+    expect(clipTest(points, slab(0, 1), null)).toBeNull();
+  });
+
+  it('keeps the slab between two fractions of the extent, in either order', () => {
+    const zs = points.map(p => p.z);
+    const lo = Math.min(...zs), hi = Math.max(...zs);
+    for (const [from, to] of [[0.4, 0.6], [0.6, 0.4], [0, 0.25]]) {
+      const keep = clipTest(points, slab(from, to), null)!;
+      const a = lo + Math.min(from, to) * (hi - lo), b = lo + Math.max(from, to) * (hi - lo);
+      for (const p of points) expect(keep(p)).toBe(p.z >= a && p.z <= b);
+    }
+  });
+
+  it('applies the n-range through valueOf', () => {
+    const keep = clipTest(points, { ...DEFAULT_CLIP, min: 100n }, { lo: 100, hi: 250, valueOf: n => n })!;
+    expect(points.filter(keep).map(p => p.n)).toEqual(Array.from({ length: 151 }, (_, i) => 100 + i));
+  });
+});
+
+describe('regionStats', () => {
+  it('counts members, primes and residues', () => {
+    const primes = new Set([2, 3, 5, 7, 11, 13]);
+    const stats = regionStats([1, 2, 3, 4, 5, 6, 7, 11, 12, 13], n => primes.has(n), n => n % 3, 3);
+    expect(stats).toEqual({ count: 10, primes: 6, residues: [3, 4, 3], primeResidues: [1, 2, 3] });
+  });
+});
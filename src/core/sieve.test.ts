@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { basePrimes, sieveRange } from './index';
+
+// π(x), the number of primes ≤ x
+const PI: [number, number][] = [
+  [1, 0], [2, 1], [10, 4], [100, 25], [1_000, 168], [10_000, 1_229], [100_000, 9_592], [1_000_000, 78_498],
+];
+
+const isPrimeNaive = (n: number) => {
+  if (n < 2) return false;
+  for (let d = 2; d * d <= n; d++) if (n % d === 0) return false;
+  return true;
+};
+
+describe('sieveRange', () => {
+  it.each(PI)('finds π(%i) = %i primes', (x, count) => {
+    expect(sieveRange(1, x).length).toBe(count);
+  });
+
+  it('matches π(b) − π(a − 1) for windows away from 1', () => {
+    expect(sieveRange(101, 1_000).length).toBe(168 - 25);
+    expect(sieveRange(900_001, 1_000_000).length).toBe(78_498 - sieveRange(1, 900_000).length);
+  });
+
+  it('gives the same primes for any segment size', () => {
+    const whole = sieveRange(1, 50_000);
+    for (const segmentSize of [1, 7, 1_000, 49_999]) {
+      expect(sieveRange(1, 50_000, { segmentSize })).toEqual(whole);
+    }
+  });
+
+  it('returns primes in ascending order', () => {
+    const primes = sieveRange(1, 10_000);
+    for (let i = 1; i < primes.length; i++) expect(primes[i]).toBeGreaterThan(primes[i - 1]);
+  });
+
+  it('handles empty and degenerate windows', () => {
+    expect(sieveRange(1, 0).length).toBe(0);
+    expect(sieveRange(0, 1).length).toBe(0);
+    expect(sieveRange(10, 5).length).toBe(0);
+    expect([...sieveRange(-5, 3)]).toEqual([2, 3]);
+    expect([...sieveRange(2, 2)]).toEqual([2]);
+    expect([...sieveRange(4, 4)]).toEqual([]);
+  });
+
+  it('reports progress up to the window width', () => {
+    const calls: [number, number][] = [];
+    sieveRange(1, 1_000, { segmentSize: 300, onProgress: (done, total) => calls.push([done, total]) });
+    expect(calls).toEqual([[300, 1_000], [600, 1_000], [900, 1_000], [1_000, 1_000]]);
+  });
+
+  it('agrees with trial division on random windows', () => {
+    fc.assert(fc.property(
+      fc.integer({ min: 1, max: 2_000_000 }), fc.integer({ min: 0, max: 500 }), fc.integer({ min: 1, max: 300 }),
+      (start, width, segmentSize) => {
+        const expected: number[] = [];
+        for (let n = start; n <= start + width; n++) if (isPrimeNaive(n)) expected.push(n);
+        expect([...sieveRange(start, start + width, { segmentSize })]).toEqual(expected);
+      },
+    ), { numRuns: 200 });
+  });
+});
+
+describe('basePrimes', () => {
+  it('lists the primes up to the limit', () => {
+    expect([...basePrimes(30)]).toEqual([2, 3, 5, 7, 11, 13, 17, 19, 23, 29]);
+    expect(basePrimes(1).length).toBe(0);
+    expect(basePrimes(-1).length).toBe(0);
+  });
+});
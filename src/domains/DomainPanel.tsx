@@ -0,0 +1,113 @@
+import { ErrorCaret } from '../expr/CustomGeometryPanel';
+import { CONSTANT_NAMES, FUNCTION_NAMES } from '../expr/compile';
+import {
+  DOMAINS, LIFTS, LIFT_VARIABLES, MIN_NORM_BOUND,
+  type CompiledLift, type LatticeLift, type LatticeOptions, type LatticeWindow, type NumberDomain,
+} from './lattice';
+
+interface DomainPanelProps {
+  domain: NumberDomain;
+  setDomain: (domain: NumberDomain) => void;
+  options: LatticeOptions;
+  setOptions: React.Dispatch<React.SetStateAction<LatticeOptions>>;
+  /** Largest norm bound the current renderer can draw. */
+  maxBound: number;
+  /** The enumerated elements, null for rational integers. */
+  lattice: LatticeWindow | null;
+  compiled: CompiledLift;
+  /** Dots dropped because the custom lift evaluated to NaN or ±Infinity. */
+  skipped: number;
+}
+
+/** Domain selector; for Gaussian and Eisenstein integers also the norm bound and how the plane is lifted. */
+export function DomainPanel({ domain, setDomain, options, setOptions, maxBound, lattice, compiled, skipped }: DomainPanelProps) {
+  const lift = LIFTS.find(l => l.id === options.lift)!;
+  const bound = Math.min(options.normBound, maxBound);
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
+      <h3 className="text-white font-semibold mb-3">Number Domain</h3>
+      <div className="space-y-3 text-sm">
+        <div className="flex gap-1" role="group" aria-label="Number domain">
+          {DOMAINS.map(d => (
+            <button
+              key={d.id}
+              onClick={() => setDomain(d.id)}
+              className={`flex-1 px-2 py-1 rounded ${domain === d.id ? 'bg-blue-500/50 text-white' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+              title={d.description}
+              aria-pressed={domain === d.id}
+            >
+              {d.label}
+            </button>
+          ))}
+        </div>
+
+        {lattice && (<>
+          <div>
+            <label className="text-gray-300">
+              Norm ≤ {bound.toLocaleString()}
+              <span className="text-gray-400"> ({lattice.size.toLocaleString()} elements, {lattice.primes.size.toLocaleString()} primes)</span>
+            </label>
+            {/* Logarithmic like the count slider */}
+            <input
+              type="range" min={Math.log10(MIN_NORM_BOUND)} max={Math.log10(maxBound)} step="0.01" value={Math.log10(bound)}
+              onChange={(e) => {
+                const normBound = Math.max(MIN_NORM_BOUND, Math.min(maxBound, Math.round(10 ** Number(e.target.value))));
+                setOptions(o => ({ ...o, normBound }));
+              }}
+              className="w-full mt-1"
+            />
+          </div>
+
+          <div>
+            <label className="text-gray-300" htmlFor="lattice-lift">Lift</label>
+            <select
+              id="lattice-lift"
+              value={options.lift}
+              onChange={(e) => setOptions(o => ({ ...o, lift: e.target.value as LatticeLift }))}
+              className="w-full mt-1 bg-white/10 text-white rounded px-2 py-1 border border-white/20"
+            >
+              {LIFTS.map(l => <option key={l.id} value={l.id} className="text-gray-900">{l.label}</option>)}
+            </select>
+            <p className="text-gray-400 text-xs mt-1">{lift.description}</p>
+          </div>
+
+          {options.lift === 'custom' && (
+            <div>
+              <label className="text-gray-300 font-mono">z =</label>
+              <input
+                value={options.expr}
+                onChange={(e) => setOptions(o => ({ ...o, expr: e.target.value }))}
+                spellCheck={false}
+                className={`w-full mt-1 bg-white/10 text-white rounded px-2 py-1 font-mono border ${compiled.ok ? 'border-white/20' : 'border-red-400'}`}
+              />
+              {!compiled.ok && <ErrorCaret source={options.expr} error={compiled.error} />}
+              {compiled.ok && skipped > 0 && (
+                <div className="text-amber-300 text-xs mt-1">{skipped.toLocaleString()} elements skipped (NaN or infinite z)</div>
+              )}
+              <p className="text-gray-400 text-xs mt-1">
+                Variables: {LIFT_VARIABLES.join(', ')} (z = a + b·{lattice.ring.symbol} at x + iy, r = |z|, arg ∈ [0, 2π), B = norm bound, h = height · √B).
+                Functions: {FUNCTION_NAMES.join(', ')}. Constants: {CONSTANT_NAMES.join(', ')}.
+              </p>
+            </div>
+          )}
+
+          {options.lift !== 'flat' && (
+            <div>
+              <label className="text-gray-300">Height: {options.height.toFixed(2)}</label>
+              <input
+                type="range" min="0" max="2" step="0.05" value={options.height}
+                onChange={(e) => setOptions(o => ({ ...o, height: Number(e.target.value) }))}
+                className="w-full mt-1"
+              />
+            </div>
+          )}
+
+          <p className="text-gray-400 text-xs">
+            Dots are numbered by norm, then by argument. Sequences, comparison viewports, the timeline, the sweep and the
+            analysis charts work on rational integers and are set aside here.
+          </p>
+        </>)}
+      </div>
+    </div>
+  );
+}
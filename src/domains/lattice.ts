@@ -0,0 +1,210 @@
+import type { Point3D } from '../geometry/types';
+import { basePrimes } from '../sieve/segmentedSieve';
+import { compileExpression, type CompiledExpression } from '../expr/compile';
+import { ExpressionError } from '../expr/parser';
+import {
+  factorElement, formatElement, formatFactorization, isRingPrime,
+  type QuadraticRing, type RingElement, type RingId,
+} from './rings';
+
+/* -------------------- Number domains -------------------- */
+export type NumberDomain = 'integers' | RingId;
+
+export const DOMAINS: { id: NumberDomain; label: string; description: string; explanation: string }[] = [
+  { id: 'integers', label: 'Integers', description: 'Rational integers n along the chosen spiral', explanation: '' },
+  {
+    id: 'gaussian',
+    label: 'Gaussian',
+    description: 'a + bi on the square lattice; primes have prime norm a² + b², or are ±p, ±pi for p ≡ 3 mod 4',
+    explanation: `
+**Gaussian Integers ℤ[i]**
+- **Position:** a + bi at (a, b) in the plane, z from the chosen lift; all elements with norm a² + b² up to the bound.
+- **Idea:** ℤ[i] factors uniquely up to the units ±1, ±i. Its primes are 1 + i (over 2, which ramifies), a pair of conjugates a ± bi over each p ≡ 1 mod 4 (p = a² + b²), and the rational primes p ≡ 3 mod 4 themselves.
+- **Look for:** The fourfold rotation and mirror symmetry, and the axes, where the only primes are the inert 3, 7, 11, … and their associates.`,
+  },
+  {
+    id: 'eisenstein',
+    label: 'Eisenstein',
+    description: 'a + bω on the triangular lattice, ω = e^(2πi/3); norm a² − ab + b², inert primes p ≡ 2 mod 3',
+    explanation: `
+**Eisenstein Integers ℤ[ω]**
+- **Position:** a + bω at (a − b/2, b·√3/2), ω = e^(2πi/3), z from the chosen lift; all elements with norm a² − ab + b² up to the bound.
+- **Idea:** ℤ[ω] factors uniquely up to its six units ±1, ±ω, ±ω². Its primes are 1 − ω (over 3, which ramifies), conjugate pairs over each p ≡ 1 mod 3, and the rational primes p ≡ 2 mod 3.
+- **Look for:** Sixfold rotation and mirror symmetry on the hexagonal grid; color by associate class to see one wedge repeated six times.`,
+  },
+];
+
+export function isNumberDomain(value: unknown): value is NumberDomain {
+  return DOMAINS.some(d => d.id === value);
+}
+
+/* -------------------- Lifting the plane into 3D -------------------- */
+export type LatticeLift = 'norm' | 'sqrt-norm' | 'argument' | 'flat' | 'custom';
+
+export const LIFTS: { id: LatticeLift; label: string; description: string }[] = [
+  { id: 'norm', label: 'Norm', description: 'z ∝ N(z): a paraboloid, with each norm shell on one level' },
+  { id: 'sqrt-norm', label: '√Norm', description: 'z ∝ |z|: a cone, so the plane picture survives any viewing angle' },
+  { id: 'argument', label: 'Argument', description: 'z ∝ arg z: a helicoid that pulls the unit rotations apart' },
+  { id: 'flat', label: 'Flat', description: 'z = 0: the plane itself' },
+  { id: 'custom', label: 'Custom', description: 'Your own z(a, b, x, y, r, arg, norm, B, h)' },
+];
+
+export interface LatticeOptions {
+  /** Elements with 1 ≤ N(z) ≤ normBound are drawn. */
+  normBound: number;
+  lift: LatticeLift;
+  /** Height of the lift at the outer rim, as a fraction of the rim radius √normBound. */
+  height: number;
+  /** z for the custom lift. */
+  expr: string;
+}
+
+export const MIN_NORM_BOUND = 10;
+// About 900,000 Eisenstein integers; the sort by norm and argument takes a second or so there
+export const MAX_NORM_BOUND = 250_000;
+
+export const DEFAULT_LATTICE_OPTIONS: LatticeOptions = {
+  normBound: 2000,
+  lift: 'sqrt-norm',
+  height: 0.5,
+  expr: 'h * cos(12 * arg) * r / sqrt(B)',
+};
+
+/** Largest norm bound whose lattice fits in `maxPoints` dots. */
+export function maxNormBound(ring: QuadraticRing, maxPoints: number): number {
+  return Math.max(MIN_NORM_BOUND, Math.min(MAX_NORM_BOUND, Math.floor(maxPoints / ring.density)));
+}
+
+/** Scope slots of the custom lift, in order. */
+export const LIFT_VARIABLES = ['a', 'b', 'x', 'y', 'r', 'arg', 'norm', 'B', 'h'] as const;
+
+export type CompiledLift = { ok: true; z: CompiledExpression } | { ok: false; error: ExpressionError };
+
+export function compileLift(expr: string): CompiledLift {
+  try {
+    return { ok: true, z: compileExpression(expr, [...LIFT_VARIABLES]) };
+  } catch (err) {
+    if (!(err instanceof ExpressionError)) throw err;
+    return { ok: false, error: err };
+  }
+}
+
+/* -------------------- Enumeration up to a norm bound -------------------- */
+/**
+ * Every nonzero element with norm ≤ normBound, numbered n = 1 … size by norm and then by argument
+ * from the positive real axis. n is what the rest of the app keys dots by (primes, selection,
+ * layers), the way it keys a window of rational integers by their value.
+ */
+export interface LatticeWindow {
+  ring: QuadraticRing;
+  normBound: number;
+  size: number;
+  /** Coefficients a, b of element n at 2(n − 1) and 2(n − 1) + 1. */
+  coeffs: Int32Array;
+  /** N(z) of element n at n − 1; nondecreasing. */
+  norms: Float64Array;
+  /** n of every ring prime. */
+  primes: Set<number>;
+}
+
+const TAU = 2 * Math.PI;
+
+function argument(ring: QuadraticRing, z: RingElement): number {
+  const [x, y] = ring.toPlane(z);
+  const t = Math.atan2(y, x);
+  return t < 0 ? t + TAU : t;
+}
+
+export function enumerateLattice(ring: QuadraticRing, normBound: number): LatticeWindow {
+  const bound = Math.max(1, Math.floor(normBound));
+  // N(z) ≥ ¾·max(a, b)² in both rings, which bounds the box to search
+  const reach = Math.floor(Math.sqrt((4 * bound) / 3));
+  const found: RingElement[] = [];
+  for (let a = -reach; a <= reach; a++) {
+    for (let b = -reach; b <= reach; b++) {
+      const n = ring.norm([a, b]);
+      if (n >= 1 && n <= bound) found.push([a, b]);
+    }
+  }
+  const norms = found.map(z => ring.norm(z));
+  const args = found.map(z => argument(ring, z));
+  const order = Array.from(found.keys()).sort((i, j) => norms[i] - norms[j] || args[i] - args[j]);
+
+  const isPrime = new Uint8Array(bound + 1);
+  for (const p of basePrimes(bound)) isPrime[p] = 1;
+  const test = (n: number) => n <= bound && isPrime[n] === 1;
+
+  const lattice: LatticeWindow = {
+    ring, normBound: bound, size: found.length,
+    coeffs: new Int32Array(2 * found.length), norms: new Float64Array(found.length), primes: new Set(),
+  };
+  order.forEach((i, k) => {
+    lattice.coeffs[2 * k] = found[i][0];
+    lattice.coeffs[2 * k + 1] = found[i][1];
+    lattice.norms[k] = norms[i];
+    if (isRingPrime(ring, found[i], test)) lattice.primes.add(k + 1);
+  });
+  return lattice;
+}
+
+export function elementAt(lattice: LatticeWindow, n: number): RingElement {
+  return [lattice.coeffs[2 * n - 2], lattice.coeffs[2 * n - 1]];
+}
+
+/** n of z in the window, or null when its norm is out of bounds. */
+export function indexOf(lattice: LatticeWindow, z: RingElement): number | null {
+  const norm = lattice.ring.norm(z);
+  if (norm < 1 || norm > lattice.normBound) return null;
+  // Binary search for the norm shell, then a scan through it
+  let lo = 0, hi = lattice.size;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (lattice.norms[mid] < norm) lo = mid + 1; else hi = mid;
+  }
+  for (let k = lo; k < lattice.size && lattice.norms[k] === norm; k++) {
+    if (lattice.coeffs[2 * k] === z[0] && lattice.coeffs[2 * k + 1] === z[1]) return k + 1;
+  }
+  return null;
+}
+
+/** Dots in the complex plane, lifted along z; a custom lift that evaluates to NaN or ±Infinity drops the dot. */
+export function liftLattice(lattice: LatticeWindow, { lift, height }: LatticeOptions, custom?: CompiledLift): Point3D[] {
+  const { ring, normBound, size } = lattice;
+  const rim = Math.sqrt(normBound), h = height * rim;
+  const scope = new Float64Array(LIFT_VARIABLES.length);
+  scope[7] = normBound;
+  scope[8] = h;
+  const points: Point3D[] = [];
+  for (let n = 1; n <= size; n++) {
+    const z = elementAt(lattice, n);
+    const [x, y] = ring.toPlane(z);
+    const norm = lattice.norms[n - 1];
+    let lifted: number;
+    switch (lift) {
+      case 'norm': lifted = (h * norm) / normBound; break;
+      case 'sqrt-norm': lifted = h * Math.sqrt(norm / normBound); break;
+      case 'argument': lifted = (h * argument(ring, z)) / TAU; break;
+      case 'flat': lifted = 0; break;
+      case 'custom': {
+        if (!custom?.ok) return [];
+        scope[0] = z[0]; scope[1] = z[1]; scope[2] = x; scope[3] = y;
+        scope[4] = Math.sqrt(norm); scope[5] = argument(ring, z); scope[6] = norm;
+        lifted = custom.z(scope);
+        if (!Number.isFinite(lifted)) continue;
+      }
+    }
+    points.push({ n, x, y, z: lifted });
+  }
+  return points;
+}
+
+/** "4+2i = −i · (1+i)² · (2+i), norm 20": the dot's name in tooltips. */
+export function describeElement(lattice: LatticeWindow, n: number): string {
+  const { ring } = lattice;
+  const z = elementAt(lattice, n);
+  const norm = lattice.norms[n - 1];
+  const name = formatElement(ring, z);
+  if (norm === 1) return `${name} (unit)`;
+  const factors = lattice.primes.has(n) ? '' : ` = ${formatFactorization(ring, factorElement(ring, z))}`;
+  return `${name}${factors}, norm ${norm.toLocaleString()}`;
+}
@@ -0,0 +1,189 @@
+import { factorize, isPrimeTrial } from '../inspect/numberTheory';
+
+/* -------------------- Gaussian and Eisenstein integers -------------------- */
+// Both rings are lattices a + b·θ in the complex plane, with θ = i or θ = ω = e^(2πi/3). Elements
+// are coefficient pairs and all arithmetic stays exact: coefficients never come near 2^26.
+
+export type RingElement = readonly [a: number, b: number];
+export type RingId = 'gaussian' | 'eisenstein';
+
+export interface QuadraticRing {
+  id: RingId;
+  label: string;
+  /** θ as written after the coefficient: i or ω. */
+  symbol: string;
+  norm: (z: RingElement) => number;
+  mul: (z: RingElement, w: RingElement) => RingElement;
+  conj: (z: RingElement) => RingElement;
+  /** Units counter-clockwise from 1, each a 2π / units.length turn from the last. */
+  units: { value: RingElement; name: string }[];
+  /** Position in the complex plane. */
+  toPlane: (z: RingElement) => [number, number];
+  /** The half-open sector [0, 2π / units.length) holding exactly one associate of each nonzero element. */
+  inFirstSector: (z: RingElement) => boolean;
+  /** Whether the rational prime p stays prime in the ring. */
+  inert: (p: number) => boolean;
+  /** Some element of norm p, or null when there is none. */
+  elementOfNorm: (p: number) => RingElement | null;
+  /** Elements per unit of norm: the count up to norm B is about density · B. */
+  density: number;
+  /** `p mod m ≡ r` rule for inert primes, for the inspector. */
+  inertRule: string;
+}
+
+// -0 from products such as 0 · −1 would print as "−0"
+const int = (v: number) => v + 0;
+
+function isqrt(n: number): number {
+  const r = Math.floor(Math.sqrt(n));
+  return r * r > n ? r - 1 : r;
+}
+
+export const GAUSSIAN: QuadraticRing = {
+  id: 'gaussian',
+  label: 'Gaussian',
+  symbol: 'i',
+  norm: ([a, b]) => a * a + b * b,
+  mul: ([a, b], [c, d]) => [int(a * c - b * d), int(a * d + b * c)],
+  conj: ([a, b]) => [a, int(-b)],
+  units: [
+    { value: [1, 0], name: '1' }, { value: [0, 1], name: 'i' }, { value: [-1, 0], name: '−1' }, { value: [0, -1], name: '−i' },
+  ],
+  toPlane: ([a, b]) => [a, b],
+  inFirstSector: ([a, b]) => a > 0 && b >= 0,
+  inert: p => p % 4 === 3,
+  elementOfNorm: (p) => {
+    for (let b = 0; 2 * b * b <= p; b++) {
+      const a = isqrt(p - b * b);
+      if (a * a === p - b * b) return [a, b];
+    }
+    return null;
+  },
+  density: Math.PI,
+  inertRule: 'p ≡ 3 mod 4',
+};
+
+// ω² = −1 − ω, so (a + bω)(c + dω) = (ac − bd) + (ad + bc − bd)ω, and ω̄ = ω² gives conj(a + bω) = (a − b) − bω.
+export const EISENSTEIN: QuadraticRing = {
+  id: 'eisenstein',
+  label: 'Eisenstein',
+  symbol: 'ω',
+  norm: ([a, b]) => a * a - a * b + b * b,
+  mul: ([a, b], [c, d]) => [int(a * c - b * d), int(a * d + b * c - b * d)],
+  conj: ([a, b]) => [int(a - b), int(-b)],
+  // 1 + ω = −ω² is the sixth root of unity e^(iπ/3)
+  units: [
+    { value: [1, 0], name: '1' }, { value: [1, 1], name: '−ω²' }, { value: [0, 1], name: 'ω' },
+    { value: [-1, 0], name: '−1' }, { value: [-1, -1], name: 'ω²' }, { value: [0, -1], name: '−ω' },
+  ],
+  toPlane: ([a, b]) => [a - b / 2, (b * Math.sqrt(3)) / 2],
+  // a·1 + b·ω = (a − b)·1 + b·(1 + ω): the sector between 1 and 1 + ω
+  inFirstSector: ([a, b]) => a > b && b >= 0,
+  inert: p => p % 3 === 2,
+  elementOfNorm: (p) => {
+    // a² − ab + b² = p  ⇔  (2a − b)² = 4p − 3b²
+    for (let b = 0; 3 * b * b <= 4 * p; b++) {
+      const disc = 4 * p - 3 * b * b, s = isqrt(disc);
+      if (s * s === disc && (b + s) % 2 === 0) return [(b + s) / 2, b];
+    }
+    return null;
+  },
+  density: (2 * Math.PI) / Math.sqrt(3),
+  inertRule: 'p ≡ 2 mod 3',
+};
+
+export const RINGS: Record<RingId, QuadraticRing> = { gaussian: GAUSSIAN, eisenstein: EISENSTEIN };
+
+export function associates(ring: QuadraticRing, z: RingElement): RingElement[] {
+  return ring.units.map(u => ring.mul(z, u.value));
+}
+
+/** The associate of nonzero z in the first sector, which stands for its whole class. */
+export function canonical(ring: QuadraticRing, z: RingElement): RingElement {
+  return associates(ring, z).find(ring.inFirstSector) ?? z;
+}
+
+/** z / w when w divides z in the ring, else null. */
+export function divideExact(ring: QuadraticRing, z: RingElement, w: RingElement): RingElement | null {
+  // z · w̄ = (z / w) · N(w)
+  const [a, b] = ring.mul(z, ring.conj(w));
+  const n = ring.norm(w);
+  return a % n === 0 && b % n === 0 ? [int(a / n), int(b / n)] : null;
+}
+
+/**
+ * Primes of the ring have a prime norm, or are associates of an inert rational prime p (norm p²).
+ * `isPrime` tests rational integers, so callers with a sieve at hand can skip the trial division.
+ */
+export function isRingPrime(ring: QuadraticRing, z: RingElement, isPrime: (n: number) => boolean = isPrimeTrial): boolean {
+  const n = ring.norm(z);
+  if (isPrime(n)) return true;
+  const p = isqrt(n);
+  return p * p === n && ring.inert(p) && isPrime(p);
+}
+
+/** The primes above the rational prime p, one per associate class: [p] itself when inert, else one or two conjugates. */
+export function primesAbove(ring: QuadraticRing, p: number): RingElement[] {
+  const found = ring.elementOfNorm(p);
+  if (!found) return [[p, 0]];
+  const pi = canonical(ring, found), bar = canonical(ring, ring.conj(found));
+  // Ramified primes (2 in ℤ[i], 3 in ℤ[ω]) are associate to their own conjugate
+  return pi[0] === bar[0] && pi[1] === bar[1] ? [pi] : [pi, bar];
+}
+
+export interface RingFactorization {
+  unit: RingElement;
+  /** Prime factors as class representatives with exponents, by increasing norm. */
+  factors: [RingElement, number][];
+}
+
+/** Unique factorization z = unit · ∏ πᵉ, found by factoring N(z) over ℤ and dividing by the primes above each factor. */
+export function factorElement(ring: QuadraticRing, z: RingElement): RingFactorization {
+  const factors: [RingElement, number][] = [];
+  let rest = z;
+  for (const [p] of factorize(ring.norm(z))) {
+    for (const pi of primesAbove(ring, p)) {
+      let e = 0;
+      for (let q = divideExact(ring, rest, pi); q; q = divideExact(ring, rest, pi)) { rest = q; e++; }
+      if (e) factors.push([pi, e]);
+    }
+  }
+  return { unit: rest, factors };
+}
+
+const minus = (v: number) => (v < 0 ? `−${-v}` : String(v));
+
+/** "3+2i", "−ω", "2−3ω". */
+export function formatElement(ring: QuadraticRing, [a, b]: RingElement): string {
+  if (b === 0) return minus(a);
+  const term = `${Math.abs(b) === 1 ? '' : Math.abs(b)}${ring.symbol}`;
+  if (a === 0) return b < 0 ? `−${term}` : term;
+  return `${minus(a)}${b < 0 ? '−' : '+'}${term}`;
+}
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const superscript = (e: number) => [...String(e)].map(d => SUPERSCRIPTS[Number(d)]).join('');
+
+/** "−i · (1+i)² · (2+i)"; the unit is left out when it is 1. */
+export function formatFactorization(ring: QuadraticRing, { unit, factors }: RingFactorization): string {
+  const unitName = ring.units.find(u => u.value[0] === unit[0] && u.value[1] === unit[1])?.name ?? formatElement(ring, unit);
+  const parts = factors.map(([pi, e]) => {
+    const text = formatElement(ring, pi);
+    return (pi[0] !== 0 && pi[1] !== 0 ? `(${text})` : text) + (e > 1 ? superscript(e) : '');
+  });
+  if (unitName !== '1' || parts.length === 0) parts.unshift(unitName);
+  return parts.join(' · ');
+}
+
+/** Reads "3+2i", "-i", "4 − 2w" (w for ω); null for anything else. */
+export function parseElement(ring: QuadraticRing, text: string): RingElement | null {
+  const s = text.replace(/[\s*]/g, '').replace(/−/g, '-').replace(ring.id === 'eisenstein' ? /w/gi : /I/g, ring.symbol);
+  const sym = ring.symbol;
+  const coefficient = (sign: string, digits: string) => (sign === '-' ? -1 : 1) * (digits === '' ? 1 : Number(digits));
+  const pure = new RegExp(`^([+-]?)(\\d*)${sym}$`).exec(s);
+  const full = new RegExp(`^([+-]?\\d+)(?:([+-])(\\d*)${sym})?$`).exec(s);
+  const z: RingElement | null = pure
+    ? [0, coefficient(pure[1], pure[2])]
+    : full ? [Number(full[1]), full[2] ? coefficient(full[2], full[3]) : 0] : null;
+  return z && z.every(Number.isSafeInteger) ? [int(z[0]), int(z[1])] : null;
+}
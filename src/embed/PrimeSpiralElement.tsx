@@ -0,0 +1,405 @@
+import { createRoot, type Root } from 'react-dom/client';
+import styles from '../index.css?inline';
+import '../geometry/builtins';
+import { getGeometry, resolveGeometryParams } from '../geometry/registry';
+import type { GeometryParams, Point3D } from '../geometry/types';
+import { Canvas3D } from '../render/Canvas3D';
+import { DEFAULT_STEREO } from '../render/stereo';
+import { DEFAULT_DEPTH_CUES } from '../render/depthCues';
+import { boundsOf, fitToBounds, type Camera } from '../render/camera';
+import { packPointCloud } from '../render/pointCloud';
+import { sieveInWorker } from '../sieve/useSieve';
+import { createSequenceContext } from '../sequences/arithmetic';
+import { getColorScheme, type Coloring } from '../coloring/schemes';
+import { snapshotPNG, snapshotSVG } from '../export/snapshot';
+import {
+  CANVAS_MAX_N, DEFAULT_VIEW, FAR_MAX_N, SVG_MAX_N, decodeViewState, encodeViewState, exactN, sanitizeView, type ViewState,
+} from '../state/viewState';
+import { connectBridge } from './bridge';
+
+/* -------------------- Attributes -------------------- */
+// Each attribute stands for a key of the app's URL hash, so `view` can take a copied link and the
+// single attributes override it. `params` and `camera` are spelled out for hand-written markup.
+const HASH_KEYS: Record<string, string> = {
+  mode: 'mode',
+  n: 'N',
+  start: 'start',
+  color: 'color',
+  'dot-size': 'dotSize',
+  renderer: 'renderer',
+  'show-all': 'showAllNumbers',
+  'show-primes': 'showPrimes',
+  axes: 'showAxes',
+  perspective: 'perspective',
+  'auto-fit': 'autoFit',
+};
+const BOOLEAN_ATTRIBUTES = new Set(['show-all', 'show-primes', 'axes', 'perspective', 'auto-fit']);
+
+/** "stepAngle=0.3, radius=2" → { stepAngle: 0.3, radius: 2 }; malformed entries are skipped. */
+export function parseParams(text: string): GeometryParams {
+  const out: GeometryParams = {};
+  for (const entry of text.split(/[,;\s]+/)) {
+    const [name, raw] = entry.split('=');
+    const v = Number(raw);
+    if (name && raw !== undefined && raw.trim() !== '' && Number.isFinite(v)) out[name] = v;
+  }
+  return out;
+}
+
+/** A dot as `getPoints()` and the events report it; `value` is the exact number, as a string past 2⁵³. */
+export interface SpiralPoint {
+  n: number;
+  value: string;
+  x: number;
+  y: number;
+  z: number;
+  prime: boolean;
+}
+
+export interface ExportOptions {
+  /** Output size in pixels; the element's own size by default. */
+  width?: number;
+  height?: number;
+  /** Hex backdrop color, or null for transparent. */
+  background?: string | null;
+  title?: string;
+  /** PNG only. */
+  dpi?: number;
+}
+
+interface Scene {
+  key: string;
+  points: Point3D[];
+  params: GeometryParams;
+}
+
+/**
+ * `<prime-spiral>`: one spiral view with the app's geometries, sieve, colorings and renderer, in a
+ * shadow root of its own. Fires `spiral-hover`, `spiral-select` and `spiral-ready`.
+ */
+export class PrimeSpiralElement extends HTMLElement {
+  static observedAttributes = ['view', ...Object.keys(HASH_KEYS), 'params', 'camera', 'animate', 'bridge'];
+
+  #root: Root | null = null;
+  #container: HTMLDivElement;
+  #resize: ResizeObserver | null = null;
+  #size = { width: 400, height: 400 };
+
+  #view: ViewState = DEFAULT_VIEW;
+  #params: GeometryParams = {};
+  #camera: Camera = DEFAULT_VIEW.camera;
+  #scene: Scene | null = null;
+  #coloring: { key: string; coloring: Coloring } | null = null;
+  #primes = new Set<number>();
+  #sieved = '';
+  #sieve: { key: string; job: AbortController } | null = null;
+  #selected: number[] = [];
+  #hovered: number | null = null;
+  #disconnectBridge: (() => void) | null = null;
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = `${styles}\n:host { display: block; position: relative; height: 400px; }`;
+    this.#container = document.createElement('div');
+    this.#container.style.cssText = 'width: 100%; height: 100%;';
+    shadow.append(style, this.#container);
+  }
+
+  connectedCallback() {
+    this.#root ??= createRoot(this.#container);
+    this.#resize = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      this.#size = { width: Math.max(50, width), height: Math.max(50, height) };
+      this.#render();
+    });
+    this.#resize.observe(this);
+    this.#readAttributes();
+    this.#connectBridge();
+  }
+
+  disconnectedCallback() {
+    this.#resize?.disconnect();
+    this.#sieve?.job.abort();
+    this.#sieve = null;
+    this.#sieved = '';
+    this.#disconnectBridge?.();
+    this.#disconnectBridge = null;
+    // Unmounting synchronously inside a React commit warns, so it waits a tick
+    const root = this.#root;
+    this.#root = null;
+    queueMicrotask(() => root?.unmount());
+  }
+
+  attributeChangedCallback(name: string) {
+    if (!this.isConnected) return;
+    if (name === 'bridge') this.#connectBridge();
+    else this.#readAttributes(name === 'camera' || name === 'view');
+  }
+
+  /* -------------------- Properties -------------------- */
+  /** The whole state in the app's terms; setting it writes the `view` attribute. */
+  get view(): ViewState {
+    return { ...this.#view, camera: this.#camera };
+  }
+
+  set view(next: Partial<ViewState>) {
+    this.setAttribute('view', encodeViewState(sanitizeView({ ...DEFAULT_VIEW, ...next })));
+  }
+
+  get mode(): string { return this.#view.mode; }
+  set mode(mode: string) { this.setAttribute('mode', mode); }
+
+  get N(): number { return this.#view.N; }
+  set N(n: number) { this.setAttribute('n', String(n)); }
+
+  /** The first number of the window; far windows (past 10¹⁴) need a bigint or a string. */
+  get start(): bigint { return exactN(this.#view.start, BigInt(this.#view.origin)); }
+  set start(first: bigint | number | string) { this.setAttribute('start', String(first)); }
+
+  /** Far windows: what n counts from in `getPoints()`; 0n otherwise. */
+  get origin(): bigint { return BigInt(this.#view.origin); }
+
+  /** The current geometry's parameters, defaults included; setting one merges it into the `params` attribute. */
+  get params(): GeometryParams { return this.#currentScene().params; }
+  set params(params: GeometryParams) {
+    this.setAttribute('params', Object.entries({ ...this.#params, ...params }).map(([k, v]) => `${k}=${v}`).join(','));
+  }
+
+  get colorScheme(): string { return this.#view.colorScheme; }
+  set colorScheme(id: string) { this.setAttribute('color', id); }
+
+  get camera(): Camera { return this.#camera; }
+  set camera(camera: Partial<Camera>) { this.setCamera(camera); }
+
+  /** Selected numbers, in click order. */
+  get selected(): number[] { return [...this.#selected]; }
+
+  /* -------------------- Methods -------------------- */
+  setCamera(camera: Partial<Camera>) {
+    this.#camera = sanitizeView({ camera: { ...this.#camera, ...camera } }).camera!;
+    this.#render();
+  }
+
+  getCamera(): Camera {
+    return this.#camera;
+  }
+
+  /** Frames every point, keeping the orientation. */
+  fit() {
+    this.setCamera(fitToBounds(this.#camera, boundsOf(this.#currentScene().points)));
+  }
+
+  select(ns: number[]) {
+    if (!Array.isArray(ns) || !ns.every(Number.isSafeInteger)) throw new TypeError('select() takes an array of integers');
+    this.#selected = [...new Set(ns)];
+    this.#render();
+  }
+
+  /** Every point of the window with its position and primality, in order of n. */
+  getPoints(): SpiralPoint[] {
+    return this.#currentScene().points.map(p => this.#describe(p));
+  }
+
+  /** The view as a standalone SVG document. */
+  exportSVG(options: ExportOptions = {}): string {
+    const { scene, snapshot } = this.#snapshot(options);
+    return snapshotSVG(scene, snapshot);
+  }
+
+  exportPNG(options: ExportOptions = {}): Promise<Blob> {
+    const { scene, snapshot } = this.#snapshot(options);
+    return snapshotPNG(scene, snapshot, options.dpi ?? 96);
+  }
+
+  /* -------------------- Internals -------------------- */
+  /** Rebuilds the view from the attributes; `cameraChanged` takes the camera from them as well. */
+  #readAttributes(cameraChanged = false) {
+    const q = new URLSearchParams(this.getAttribute('view')?.replace(/^#/, '') ?? '');
+    for (const [attribute, key] of Object.entries(HASH_KEYS)) {
+      const value = this.getAttribute(attribute);
+      if (value === null) continue;
+      q.set(key, BOOLEAN_ATTRIBUTES.has(attribute) ? (value === 'false' || value === '0' ? '0' : '1') : value);
+    }
+    const camera = this.#cameraAttribute();
+    const decoded = decodeViewState(q.toString());
+    const previous = this.#view;
+    this.#view = sanitizeView({ ...DEFAULT_VIEW, ...decoded, ...(camera && { camera: { ...(decoded.camera ?? DEFAULT_VIEW.camera), ...camera } }) });
+    // The renderers cap how many dots they draw
+    const max = Math.min(this.#view.renderer === 'svg' ? SVG_MAX_N : CANVAS_MAX_N, this.#view.origin !== '0' ? FAR_MAX_N : Infinity);
+    this.#view.N = Math.min(this.#view.N, max);
+    this.#params = parseParams(this.getAttribute('params') ?? '');
+
+    const pinned = decoded.camera !== undefined || camera !== null;
+    if (cameraChanged || previous === DEFAULT_VIEW) this.#camera = this.#view.camera;
+    const before = this.#scene?.points;
+    const after = this.#currentScene().points;
+    if (after !== before && this.#view.autoFit && !pinned) this.#camera = fitToBounds(this.#camera, boundsOf(after));
+    if (after !== before) this.#selected = [];
+    this.#startSieve();
+    this.#render();
+  }
+
+  /** The `camera` attribute: JSON with any of orientation, target, distance and focalLength. */
+  #cameraAttribute(): Partial<Camera> | null {
+    const raw = this.getAttribute('camera');
+    if (!raw) return null;
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  #currentScene(): Scene {
+    const { mode, N, start } = this.#view;
+    const geometry = getGeometry(mode) ?? getGeometry(DEFAULT_VIEW.mode)!;
+    const params = resolveGeometryParams(geometry, { ...this.#view.geometryParams[geometry.id], ...this.#params });
+    const key = JSON.stringify([geometry.id, N, start, params]);
+    if (this.#scene?.key !== key) this.#scene = { key, points: geometry.generate(N, params, { start }), params };
+    return this.#scene;
+  }
+
+  #currentColoring(): Coloring {
+    const { start, N, colorScheme, colorParams } = this.#view;
+    const origin = BigInt(this.#view.origin);
+    const scene = this.#currentScene();
+    const key = `${scene.key}|${this.#sieved}|${colorScheme}|${JSON.stringify(colorParams)}`;
+    if (this.#coloring?.key !== key) {
+      const scheme = getColorScheme(colorScheme, origin !== 0n);
+      const params = { ...Object.fromEntries((scheme.params ?? []).map(p => [p.key, p.default])), ...colorParams };
+      const ctx = createSequenceContext(start, start + N - 1, this.#primes, origin);
+      // Block coloring follows the layered geometry's rings, as in the app
+      const layered = getGeometry('layered');
+      const blockSize = scene.params.blockSize ?? (layered ? resolveGeometryParams(layered, this.#view.geometryParams.layered).blockSize : 200);
+      this.#coloring = { key, coloring: scheme.build({ points: scene.points, primes: this.#primes, ctx, blockSize, params }) };
+    }
+    return this.#coloring.coloring;
+  }
+
+  /** Sieves a new window off the main thread; the previous primes stay up until it is done. */
+  #startSieve() {
+    const { start, N } = this.#view;
+    const key = `${this.#view.origin}:${start}:${N}`;
+    if (key === this.#sieved || key === this.#sieve?.key) return;
+    this.#sieve?.job.abort();
+    const job = new AbortController();
+    this.#sieve = { key, job };
+    sieveInWorker(start, start + N - 1, { signal: job.signal, origin: BigInt(this.#view.origin) }).then((primes) => {
+      if (job.signal.aborted) return;
+      this.#primes = primes;
+      this.#sieved = key;
+      this.#sieve = null;
+      this.#render();
+      this.dispatchEvent(new CustomEvent('spiral-ready', { detail: { N, primes: primes.size }, bubbles: true, composed: true }));
+    }, (err) => {
+      if (job.signal.aborted) return;
+      this.#sieve = null;
+      this.dispatchEvent(new CustomEvent('spiral-error', { detail: { message: err instanceof Error ? err.message : String(err) }, bubbles: true, composed: true }));
+    });
+  }
+
+  #describe(p: Point3D): SpiralPoint {
+    const value = exactN(p.n, BigInt(this.#view.origin));
+    return { n: p.n, value: String(value), x: p.x, y: p.y, z: p.z, prime: this.#primes.has(p.n) };
+  }
+
+  #point(n: number): SpiralPoint | null {
+    const p = this.#currentScene().points.find(q => q.n === n);
+    return p ? this.#describe(p) : null;
+  }
+
+  #onPick = (n: number | null, additive: boolean) => {
+    if (n === null) this.#selected = additive ? this.#selected : [];
+    else if (!additive) this.#selected = [n];
+    else this.#selected = this.#selected.includes(n) ? this.#selected.filter(m => m !== n) : [...this.#selected, n];
+    this.#render();
+    this.dispatchEvent(new CustomEvent('spiral-select', {
+      detail: { point: n === null ? null : this.#point(n), selected: this.selected },
+      bubbles: true,
+      composed: true,
+    }));
+  };
+
+  #onHover = (n: number | null) => {
+    if (n === this.#hovered) return;
+    this.#hovered = n;
+    this.dispatchEvent(new CustomEvent('spiral-hover', { detail: { point: n === null ? null : this.#point(n) }, bubbles: true, composed: true }));
+  };
+
+  #setCamera: React.Dispatch<React.SetStateAction<Camera>> = (next) => {
+    this.#camera = typeof next === 'function' ? next(this.#camera) : next;
+    this.#render();
+  };
+
+  #snapshot({ width, height, background = '#111827', title }: ExportOptions) {
+    const v = this.#view;
+    const { points } = this.#currentScene();
+    const cloud = packPointCloud(points, {
+      primes: this.#primes, showPrimes: v.showPrimes, layers: [], showAllNumbers: v.showAllNumbers, colorOf: this.#currentColoring().colorOf,
+    });
+    return {
+      scene: { cloud, camera: this.#camera, perspective: v.perspective, dotSize: v.dotSize, viewport: this.#size },
+      snapshot: {
+        width: Math.round(width ?? this.#size.width),
+        height: Math.round(height ?? this.#size.height),
+        background,
+        annotations: { title, axes: v.showAxes },
+      },
+    };
+  }
+
+  #connectBridge() {
+    this.#disconnectBridge?.();
+    this.#disconnectBridge = null;
+    const origin = this.getAttribute('bridge');
+    if (origin === null) return;
+    try {
+      this.#disconnectBridge = connectBridge(this, origin);
+    } catch (err) {
+      this.dispatchEvent(new CustomEvent('spiral-error', { detail: { message: err instanceof Error ? err.message : String(err) }, bubbles: true, composed: true }));
+    }
+  }
+
+  #render() {
+    if (!this.#root) return;
+    const v = this.#view;
+    const scene = this.#currentScene();
+    const geometry = getGeometry(v.mode) ?? getGeometry(DEFAULT_VIEW.mode)!;
+    this.#root.render(
+      <Canvas3D
+        points={scene.points}
+        primes={this.#primes}
+        origin={BigInt(v.origin)}
+        lattice={null}
+        showPrimes={v.showPrimes}
+        layers={[]}
+        colorOf={this.#currentColoring().colorOf}
+        dotSize={v.dotSize}
+        isAnimating={this.hasAttribute('animate') && this.getAttribute('animate') !== 'false'}
+        animationSpeed={v.animationSpeed}
+        resetSignal={0}
+        width={this.#size.width}
+        height={this.#size.height}
+        camera={this.#camera}
+        setCamera={this.#setCamera}
+        showAllNumbers={v.showAllNumbers}
+        keep={null}
+        showAxes={v.showAxes}
+        perspective={v.perspective}
+        stereo={DEFAULT_STEREO}
+        cues={DEFAULT_DEPTH_CUES}
+        renderer={v.renderer}
+        selected={this.#selected}
+        neighbors={[]}
+        onPick={this.#onPick}
+        onHover={this.#onHover}
+        tool="orbit"
+        onRegion={() => {}}
+        label={this.getAttribute('aria-label') ?? `${geometry.label} spiral, interactive 3D view`}
+      />,
+    );
+  }
+}
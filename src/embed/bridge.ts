@@ -0,0 +1,92 @@
+import type { PrimeSpiralElement } from './PrimeSpiralElement';
+
+/* -------------------- postMessage protocol -------------------- */
+/**
+ * What an iframe host posts to drive the element: `call` runs one of BRIDGE_METHODS with `args`,
+ * `set` assigns properties. `target` picks an element by id when a page holds several.
+ */
+export interface BridgeRequest {
+  type: 'prime-spiral';
+  id?: string | number;
+  target?: string;
+  call?: string;
+  args?: unknown[];
+  set?: Record<string, unknown>;
+}
+
+/** Sent back to the posting window for every request. */
+export type BridgeResult =
+  | { type: 'prime-spiral:result'; id?: string | number; target?: string; result: unknown }
+  | { type: 'prime-spiral:result'; id?: string | number; target?: string; error: string };
+
+/** Element events, forwarded to the parent window. */
+export interface BridgeEvent {
+  type: 'prime-spiral:event';
+  target?: string;
+  event: string;
+  detail: unknown;
+}
+
+export const BRIDGE_METHODS = ['setCamera', 'getCamera', 'fit', 'select', 'getPoints', 'exportSVG', 'exportPNG'] as const;
+export const BRIDGE_PROPERTIES = ['mode', 'N', 'start', 'params', 'colorScheme', 'camera', 'view'] as const;
+export const BRIDGE_EVENTS = ['spiral-hover', 'spiral-select', 'spiral-ready', 'spiral-error'] as const;
+
+function isRequest(data: unknown): data is BridgeRequest {
+  return typeof data === 'object' && data !== null && (data as { type?: unknown }).type === 'prime-spiral';
+}
+
+/** `https://host[:port]` exactly as `MessageEvent.origin` reports it, or null. */
+export function parseOrigin(value: string): string | null {
+  try {
+    const { origin } = new URL(value);
+    return origin !== 'null' && origin === value.replace(/\/$/, '') ? origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lets the embedding page drive `element` with postMessage, and forwards its events up. Only the
+ * parent window at `allowedOrigin` is listened to and told anything, since `getPoints()` and the
+ * exports hand out the view. Throws when `allowedOrigin` is not a single origin. Returns the disconnect.
+ */
+export function connectBridge(element: PrimeSpiralElement, allowedOrigin: string): () => void {
+  const origin = parseOrigin(allowedOrigin);
+  if (!origin) throw new Error(`The bridge needs the embedding page's origin (like https://example.org), got "${allowedOrigin}"`);
+  const target = element.id || undefined;
+  const parent = window.parent;
+  const onMessage = async (e: MessageEvent) => {
+    if (parent === window || e.source !== parent || e.origin !== origin || !isRequest(e.data)) return;
+    const request = e.data;
+    if (request.target !== undefined && request.target !== element.id) return;
+    const reply = (message: BridgeResult) => parent.postMessage(message, origin);
+    try {
+      for (const [key, value] of Object.entries(request.set ?? {})) {
+        if (!(BRIDGE_PROPERTIES as readonly string[]).includes(key)) throw new Error(`Unknown property "${key}"`);
+        (element as unknown as Record<string, unknown>)[key] = value;
+      }
+      let result: unknown = null;
+      if (request.call !== undefined) {
+        if (!(BRIDGE_METHODS as readonly string[]).includes(request.call)) throw new Error(`Unknown method "${request.call}"`);
+        const method = element[request.call as (typeof BRIDGE_METHODS)[number]] as (...args: unknown[]) => unknown;
+        result = await method.apply(element, request.args ?? []);
+      }
+      reply({ type: 'prime-spiral:result', id: request.id, target, result });
+    } catch (err) {
+      reply({ type: 'prime-spiral:result', id: request.id, target, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const forward = (e: Event) => {
+    if (parent === window) return;
+    const message: BridgeEvent = { type: 'prime-spiral:event', target, event: e.type, detail: (e as CustomEvent).detail };
+    parent.postMessage(message, origin);
+  };
+
+  window.addEventListener('message', onMessage);
+  for (const name of BRIDGE_EVENTS) element.addEventListener(name, forward);
+  return () => {
+    window.removeEventListener('message', onMessage);
+    for (const name of BRIDGE_EVENTS) element.removeEventListener(name, forward);
+  };
+}
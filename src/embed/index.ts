@@ -0,0 +1,18 @@
+// Library entry for the standalone `<prime-spiral>` element (`npm run build:lib`)
+import { PrimeSpiralElement } from './PrimeSpiralElement';
+
+if (!customElements.get('prime-spiral')) customElements.define('prime-spiral', PrimeSpiralElement);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'prime-spiral': PrimeSpiralElement;
+  }
+}
+
+export { PrimeSpiralElement, parseParams, type ExportOptions, type SpiralPoint } from './PrimeSpiralElement';
+export {
+  BRIDGE_EVENTS, BRIDGE_METHODS, BRIDGE_PROPERTIES, connectBridge, parseOrigin,
+  type BridgeEvent, type BridgeRequest, type BridgeResult,
+} from './bridge';
+export type { Camera } from '../render/camera';
+export type { ViewState } from '../state/viewState';
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import type { Point3D } from '../geometry/types';
+import { packPointCloud, type PackOptions } from '../render/pointCloud';
+import { downloadBlob } from '../download';
+import { DATA_FORMATS, MAX_PATH_POINTS, exportData, type DataFormat, type DataScene, type PathOptions } from './formats';
+
+interface DataExportPanelProps {
+  points: Point3D[];
+  /** The live filter and colors, so the file holds exactly the dots on screen. */
+  pack: PackOptions;
+  meta: DataScene['meta'];
+}
+
+/** Downloads the visible points (and optionally the spiral path) as tables or 3D files. */
+export function DataExportPanel({ points, pack, meta }: DataExportPanelProps) {
+  const [format, setFormat] = useState<DataFormat>('ply-binary');
+  const [withPath, setWithPath] = useState(false);
+  const [path, setPath] = useState<PathOptions>({ style: 'polyline', radius: 0.02, sides: 8 });
+  const [error, setError] = useState<string | null>(null);
+  const spec = DATA_FORMATS.find(f => f.id === format)!;
+
+  const save = () => {
+    setError(null);
+    try {
+      const cloud = packPointCloud(points, pack);
+      const blob = exportData(format, { cloud, points, path: withPath && spec.path ? path : null, meta });
+      downloadBlob(blob, `prime-spirals-${meta.geometry}.${spec.extension}`, spec.mime);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
+      <h3 className="text-white font-semibold mb-3">Export data</h3>
+      <div className="space-y-3 text-sm">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as DataFormat)}
+          className="w-full bg-white/10 text-white rounded px-2 py-1 border border-white/20"
+        >
+          {DATA_FORMATS.map(f => <option key={f.id} value={f.id} className="text-gray-900">{f.label}</option>)}
+        </select>
+        <p className="text-gray-400 text-xs">
+          {spec.path
+            ? 'Visible dots with their colors, n and prime flag, for Blender, ParaView or MeshLab.'
+            : 'One row per visible dot: n, x, y, z, isPrime, its overlay sequences and color, for notebooks and spreadsheets.'}
+        </p>
+
+        {spec.path && (
+          <>
+            <label className="flex items-center gap-2 text-gray-300">
+              <input type="checkbox" checked={withPath} onChange={(e) => setWithPath(e.target.checked)} />
+              Trace the spiral path
+            </label>
+            {withPath && (
+              <div className="flex items-center gap-2 text-gray-300 pl-6">
+                <select
+                  value={path.style}
+                  onChange={(e) => setPath(p => ({ ...p, style: e.target.value as PathOptions['style'] }))}
+                  className="bg-white/10 text-white rounded px-1 border border-white/20"
+                >
+                  <option value="polyline" className="text-gray-900">Polyline</option>
+                  <option value="tube" className="text-gray-900">Tube mesh</option>
+                </select>
+                {path.style === 'tube' && (
+                  <label>
+                    radius <input
+                      type="number" min={0.001} step={0.005} value={path.radius}
+                      onChange={(e) => { const v = Number(e.target.value); if (v > 0) setPath(p => ({ ...p, radius: v })); }}
+                      className="w-16 bg-white/10 text-white rounded px-1 border border-white/20"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+            {withPath && points.length > MAX_PATH_POINTS && (
+              <p className="text-gray-400 text-xs pl-6">The path follows the first {MAX_PATH_POINTS.toLocaleString()} numbers.</p>
+            )}
+          </>
+        )}
+
+        <button
+          onClick={save}
+          className="w-full flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded"
+        >
+          <Download size={14} />Download .{spec.extension}
+        </button>
+        {error && <div className="text-red-300">Export failed: {error}</div>}
+      </div>
+    </div>
+  );
+}
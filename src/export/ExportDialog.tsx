@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { downloadBlob } from '../download';
+import {
+  MAX_SNAPSHOT_PIXELS, MAX_SNAPSHOT_SIDE, snapshotPNG, snapshotSVG, type Annotations, type SnapshotScene,
+} from './snapshot';
+
+interface ExportDialogProps {
+  onClose: () => void;
+  scene: SnapshotScene;
+  /** Defaults for the burned-in annotations. */
+  title: string;
+  caption: string[];
+  legend: NonNullable<Annotations['legend']>;
+  showAxes: boolean;
+}
+
+type SizePreset = 'screen' | 'screen2' | '1080p' | '4k' | 'a4' | 'letter' | 'custom';
+
+const SIZE_PRESETS: { id: SizePreset; label: string }[] = [
+  { id: 'screen', label: 'Viewport' },
+  { id: 'screen2', label: 'Viewport ×2' },
+  { id: '1080p', label: 'Full HD 1920×1080' },
+  { id: '4k', label: '4K 3840×2160' },
+  { id: 'a4', label: 'A4 landscape (print)' },
+  { id: 'letter', label: 'US Letter landscape (print)' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const DPI_CHOICES = [72, 96, 150, 300, 600];
+
+function sizeOf(preset: SizePreset, viewport: { width: number; height: number }, dpi: number, custom: { width: number; height: number }) {
+  const print = (inW: number, inH: number) => ({ width: Math.round(inW * dpi), height: Math.round(inH * dpi) });
+  switch (preset) {
+    case 'screen': return { width: Math.round(viewport.width), height: Math.round(viewport.height) };
+    case 'screen2': return { width: Math.round(viewport.width * 2), height: Math.round(viewport.height * 2) };
+    case '1080p': return { width: 1920, height: 1080 };
+    case '4k': return { width: 3840, height: 2160 };
+    case 'a4': return print(297 / 25.4, 210 / 25.4);
+    case 'letter': return print(11, 8.5);
+    case 'custom': return custom;
+  }
+}
+
+/** PNG/SVG export of the current view at any size, with optional burned-in annotations. */
+export function ExportDialog({ onClose, scene, title: defaultTitle, caption: defaultCaption, legend, showAxes }: ExportDialogProps) {
+  const [format, setFormat] = useState<'png' | 'svg'>('png');
+  const [preset, setPreset] = useState<SizePreset>('4k');
+  const [dpi, setDpi] = useState(300);
+  const [custom, setCustom] = useState({ width: 3000, height: 3000 });
+  const [transparent, setTransparent] = useState(false);
+  const [background, setBackground] = useState('#111827');
+  const [title, setTitle] = useState(defaultTitle);
+  const [withTitle, setWithTitle] = useState(true);
+  const [withCaption, setWithCaption] = useState(true);
+  const [withLegend, setWithLegend] = useState(true);
+  const [withAxes, setWithAxes] = useState(showAxes);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const size = sizeOf(preset, scene.viewport, dpi, custom);
+  const tooLarge = size.width > MAX_SNAPSHOT_SIDE || size.height > MAX_SNAPSHOT_SIDE || size.width * size.height > MAX_SNAPSHOT_PIXELS;
+  const invalid = !(size.width >= 16 && size.height >= 16) || (format === 'png' && tooLarge);
+
+  const save = async () => {
+    const options = {
+      ...size,
+      background: transparent ? null : background,
+      annotations: {
+        title: withTitle && title.trim() ? title.trim() : undefined,
+        caption: withCaption ? defaultCaption : undefined,
+        legend: withLegend ? legend : undefined,
+        axes: withAxes,
+      },
+    };
+    setBusy(true);
+    setError(null);
+    try {
+      if (format === 'svg') {
+        downloadBlob(snapshotSVG(scene, options), 'prime-spirals.svg', 'image/svg+xml;charset=utf-8');
+      } else {
+        downloadBlob(await snapshotPNG(scene, options, dpi), 'prime-spirals.png', 'image/png');
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const check = (label: string, checked: boolean, set: (v: boolean) => void) => (
+    <label className="flex items-center gap-2 text-gray-300">
+      <input type="checkbox" checked={checked} onChange={(e) => set(e.target.checked)} />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        role="dialog" aria-modal="true" aria-label="Export image"
+        className="w-full max-w-md bg-gray-800 rounded-xl p-5 border border-white/20 text-sm space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-white font-semibold">Export image</h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white" title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="flex gap-2">
+          {(['png', 'svg'] as const).map(f => (
+            <button
+              key={f}
+              onClick={() => setFormat(f)}
+              className={`flex-1 px-2 py-1 rounded ${format === f ? 'bg-blue-500 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+            >
+              {f === 'png' ? 'PNG (raster)' : 'SVG (vector)'}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as SizePreset)}
+              className="flex-1 bg-white/10 text-white rounded px-2 py-1 border border-white/20"
+            >
+              {SIZE_PRESETS.map(p => <option key={p.id} value={p.id} className="text-gray-900">{p.label}</option>)}
+            </select>
+            <select
+              value={dpi}
+              onChange={(e) => setDpi(Number(e.target.value))}
+              className="bg-white/10 text-white rounded px-2 py-1 border border-white/20"
+              title="Print resolution; sets the size of print presets and is stored in the PNG"
+            >
+              {DPI_CHOICES.map(d => <option key={d} value={d} className="text-gray-900">{d} DPI</option>)}
+            </select>
+          </div>
+          {preset === 'custom' && (
+            <div className="flex items-center gap-2 text-gray-300">
+              <input
+                type="number" min={16} max={MAX_SNAPSHOT_SIDE} value={custom.width}
+                onChange={(e) => setCustom(c => ({ ...c, width: Math.round(Number(e.target.value)) }))}
+                className="w-24 bg-white/10 text-white rounded px-2 py-1 border border-white/20" aria-label="Width in pixels"
+              />
+              ×
+              <input
+                type="number" min={16} max={MAX_SNAPSHOT_SIDE} value={custom.height}
+                onChange={(e) => setCustom(c => ({ ...c, height: Math.round(Number(e.target.value)) }))}
+                className="w-24 bg-white/10 text-white rounded px-2 py-1 border border-white/20" aria-label="Height in pixels"
+              />
+              px
+            </div>
+          )}
+          <div className="text-gray-400 text-xs">
+            {size.width.toLocaleString()} × {size.height.toLocaleString()} px
+            {' '}= {(size.width / dpi).toFixed(2)} × {(size.height / dpi).toFixed(2)} in at {dpi} DPI
+            {format === 'png' && tooLarge && <span className="text-red-300"> — too large for a browser canvas</span>}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {check('Transparent background', transparent, setTransparent)}
+          {!transparent && (
+            <input
+              type="color" value={background} onChange={(e) => setBackground(e.target.value)}
+              className="w-8 h-6 bg-transparent" aria-label="Background color"
+            />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input type="checkbox" checked={withTitle} onChange={(e) => setWithTitle(e.target.checked)} aria-label="Burn in title" />
+            <input
+              type="text" value={title} onChange={(e) => setTitle(e.target.value)} disabled={!withTitle}
+              className="flex-1 bg-white/10 text-white rounded px-2 py-1 border border-white/20 disabled:opacity-50" placeholder="Title"
+            />
+          </div>
+          {check('Parameter caption', withCaption, setWithCaption)}
+          {withCaption && <div className="text-gray-400 text-xs pl-6">{defaultCaption.join(' · ')}</div>}
+          {check('Color legend', withLegend, setWithLegend)}
+          {check('Axes with labels', withAxes, setWithAxes)}
+        </div>
+
+        {error && <div className="text-red-300">Export failed: {error}</div>}
+        <button
+          onClick={save}
+          disabled={busy || invalid}
+          className="w-full flex items-center justify-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded-lg disabled:opacity-40"
+        >
+          <Download size={16} />{busy ? 'Rendering…' : `Download ${format.toUpperCase()}`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+import type { GeometryParams, Point3D } from '../geometry/types';
+import type { PointCloud } from '../render/pointCloud';
+import { parseHexColor } from '../render/canvasRenderer';
+import { exactN } from '../state/viewState';
+import type { RingElement } from '../domains/rings';
+
+/* -------------------- Export scene -------------------- */
+export type DataFormat = 'csv' | 'json' | 'ply' | 'ply-binary' | 'obj' | 'gltf' | 'glb';
+
+export const DATA_FORMATS: { id: DataFormat; label: string; extension: string; mime: string; path: boolean }[] = [
+  { id: 'csv', label: 'CSV table', extension: 'csv', mime: 'text/csv', path: false },
+  { id: 'json', label: 'JSON records', extension: 'json', mime: 'application/json', path: false },
+  { id: 'ply', label: 'PLY (ASCII)', extension: 'ply', mime: 'text/plain', path: true },
+  { id: 'ply-binary', label: 'PLY (binary)', extension: 'ply', mime: 'application/octet-stream', path: true },
+  { id: 'obj', label: 'Wavefront OBJ', extension: 'obj', mime: 'text/plain', path: true },
+  { id: 'gltf', label: 'glTF (embedded)', extension: 'gltf', mime: 'model/gltf+json', path: true },
+  { id: 'glb', label: 'GLB (binary glTF)', extension: 'glb', mime: 'model/gltf-binary', path: true },
+];
+
+export interface PathOptions {
+  style: 'polyline' | 'tube';
+  /** Tube radius in world units. */
+  radius: number;
+  /** Vertices per tube ring. */
+  sides: number;
+}
+
+export interface DataScene {
+  /** The visible dots: packed with the current filter, overlays and colors. */
+  cloud: PointCloud;
+  /** The geometry's points, which the cloud indexes into and the path follows in order of n. */
+  points: Point3D[];
+  /** Trace the spiral through every point, or null for dots only. */
+  path: PathOptions | null;
+  /**
+   * `origin` is 0n except in far windows, where n and start count from it. Gaussian and Eisenstein
+   * domains add `element`, the coefficients a, b behind each n, written as columns of their own.
+   */
+  meta: { geometry: string; params: GeometryParams; start: number; N: number; origin: bigint; element?: (n: number) => RingElement };
+}
+
+// Far windows write n exactly, as a string: a JSON number or float column would round it
+function exactOf({ origin }: DataScene['meta']): (n: number) => number | string {
+  return origin ? n => String(exactN(n, origin)) : n => n;
+}
+
+/** The spiral path is capped so a tube stays a mesh a desktop tool can open. */
+export const MAX_PATH_POINTS = 500_000;
+
+// Dots without an overlay or scheme color are drawn as faint white; exported as mid gray.
+const NEUTRAL = 0x9ca3af;
+
+/** Packed 0xRRGGBB of a cloud slot, the same precedence as the renderers. */
+function colorOfSlot(cloud: PointCloud, i: number, palette: number[]): number {
+  if (cloud.layer[i]) return palette[cloud.layer[i] - 1];
+  return cloud.color[i] >= 0 ? cloud.color[i] : NEUTRAL;
+}
+
+function paletteOf(cloud: PointCloud): number[] {
+  return cloud.layers.map(l => {
+    const [r, g, b] = parseHexColor(l.color);
+    return (r << 16) | (g << 8) | b;
+  });
+}
+
+const hex = (rgb: number) => `#${rgb.toString(16).padStart(6, '0')}`;
+
+/** Collects text lines into blob parts every few thousand lines, so millions of rows never form one string. */
+function textSink() {
+  const parts: string[] = [];
+  let lines: string[] = [];
+  return {
+    line(s: string) {
+      lines.push(s);
+      if (lines.length >= 20_000) { parts.push(lines.join('\n') + '\n'); lines = []; }
+    },
+    blob(type: string) {
+      if (lines.length) parts.push(lines.join('\n') + '\n');
+      return new Blob(parts, { type });
+    },
+  };
+}
+
+/* -------------------- Path geometry -------------------- */
+interface PathMesh {
+  /** Interleaved xyz. */
+  positions: Float32Array;
+  /** Triangle indices for a tube; empty for a polyline, whose vertices are simply consecutive. */
+  triangles: Uint32Array;
+  /** n of the path point each vertex belongs to. */
+  n: Float64Array;
+}
+
+function pathMesh(points: Point3D[], { style, radius, sides }: PathOptions): PathMesh {
+  const path = points.length > MAX_PATH_POINTS ? points.slice(0, MAX_PATH_POINTS) : points;
+  const m = path.length;
+  if (style === 'polyline' || m < 2) {
+    const positions = new Float32Array(m * 3);
+    const n = new Float64Array(m);
+    path.forEach((p, i) => { positions.set([p.x, p.y, p.z], i * 3); n[i] = p.n; });
+    return { positions, triangles: new Uint32Array(0), n };
+  }
+
+  // Rings around the path, oriented by parallel transport so the tube does not twist
+  const positions = new Float32Array(m * sides * 3);
+  const n = new Float64Array(m * sides);
+  let tx = 0, ty = 0, tz = 1;
+  let nx = 1, ny = 0, nz = 0;
+  for (let i = 0; i < m; i++) {
+    const a = path[Math.max(0, i - 1)], b = path[Math.min(m - 1, i + 1)];
+    const dx = b.x - a.x, dy = b.y - a.y, dz = b.z - a.z;
+    const len = Math.hypot(dx, dy, dz);
+    if (len > 1e-12) { tx = dx / len; ty = dy / len; tz = dz / len; }
+    // Remove the tangent component of the previous normal; restart from an axis when it degenerates
+    let d = nx * tx + ny * ty + nz * tz;
+    let px = nx - d * tx, py = ny - d * ty, pz = nz - d * tz;
+    let pl = Math.hypot(px, py, pz);
+    if (pl < 1e-6) {
+      [nx, ny, nz] = Math.abs(tx) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+      d = nx * tx + ny * ty + nz * tz;
+      px = nx - d * tx; py = ny - d * ty; pz = nz - d * tz;
+      pl = Math.hypot(px, py, pz);
+    }
+    nx = px / pl; ny = py / pl; nz = pz / pl;
+    const bx = ty * nz - tz * ny, by = tz * nx - tx * nz, bz = tx * ny - ty * nx;
+    const p = path[i];
+    for (let j = 0; j < sides; j++) {
+      const ang = (2 * Math.PI * j) / sides;
+      const c = Math.cos(ang) * radius, s = Math.sin(ang) * radius;
+      const k = (i * sides + j) * 3;
+      positions[k] = p.x + c * nx + s * bx;
+      positions[k + 1] = p.y + c * ny + s * by;
+      positions[k + 2] = p.z + c * nz + s * bz;
+      n[i * sides + j] = p.n;
+    }
+  }
+  const triangles = new Uint32Array((m - 1) * sides * 6);
+  let t = 0;
+  for (let i = 0; i < m - 1; i++) {
+    for (let j = 0; j < sides; j++) {
+      const a = i * sides + j, b = i * sides + ((j + 1) % sides);
+      const c = a + sides, d = b + sides;
+      triangles[t++] = a; triangles[t++] = c; triangles[t++] = b;
+      triangles[t++] = b; triangles[t++] = c; triangles[t++] = d;
+    }
+  }
+  return { positions, triangles, n };
+}
+
+/* -------------------- Tables -------------------- */
+function csv({ cloud, points, meta }: DataScene): Blob {
+  const palette = paletteOf(cloud);
+  const exact = exactOf(meta);
+  const layerCols = cloud.layers.map(l => l.id);
+  const { element } = meta;
+  const out = textSink();
+  out.line(['n', ...(element ? ['a', 'b'] : []), 'x', 'y', 'z', 'isPrime', 'layer', ...layerCols, 'color'].join(','));
+  for (let i = 0; i < cloud.count; i++) {
+    const p = points[cloud.source[i]];
+    const top = cloud.layer[i] ? cloud.layers[cloud.layer[i] - 1].id : '';
+    const member = cloud.layers.map(l => (l.has(p.n) ? 1 : 0));
+    out.line([exact(p.n), ...(element ? element(p.n) : []), p.x, p.y, p.z, cloud.prime[i], top, ...member, hex(colorOfSlot(cloud, i, palette))].join(','));
+  }
+  return out.blob('text/csv');
+}
+
+/** The metadata as plain JSON: the exact start instead of the BigInt origin, and no element lookup. */
+function metaHeader(meta: DataScene['meta']) {
+  const { origin: _, element: __, ...rest } = meta;
+  return { ...rest, start: exactOf(meta)(meta.start) };
+}
+
+function json({ cloud, points, meta }: DataScene): Blob {
+  const palette = paletteOf(cloud);
+  const exact = exactOf(meta);
+  const { element } = meta;
+  const header = { ...metaHeader(meta), layers: cloud.layers.map(l => ({ id: l.id, label: l.label, color: l.color })), count: cloud.count };
+  const chunks: string[] = [];
+  let chunk: string[] = [];
+  for (let i = 0; i < cloud.count; i++) {
+    const p = points[cloud.source[i]];
+    chunk.push(JSON.stringify({
+      n: exact(p.n), ...(element && { a: element(p.n)[0], b: element(p.n)[1] }), x: p.x, y: p.y, z: p.z, isPrime: cloud.prime[i] === 1,
+      layers: cloud.layers.filter(l => l.has(p.n)).map(l => l.id),
+      color: hex(colorOfSlot(cloud, i, palette)),
+    }));
+    if (chunk.length >= 20_000) { chunks.push(chunk.join(',\n')); chunk = []; }
+  }
+  if (chunk.length) chunks.push(chunk.join(',\n'));
+  const parts = [
+    JSON.stringify(header).slice(0, -1) + ',"points":[\n',
+    ...chunks.flatMap((c, i) => (i ? [',\n', c] : [c])),
+    '\n]}\n',
+  ];
+  return new Blob(parts, { type: 'application/json' });
+}
+
+/* -------------------- Meshes -------------------- */
+function comment(meta: DataScene['meta']): string {
+  const params = Object.entries(meta.params).map(([k, v]) => `${k}=${v}`).join(' ');
+  return `prime-spirals ${meta.geometry} start=${exactOf(meta)(meta.start)} N=${meta.N} ${params}`.trim();
+}
+
+function ply({ cloud, meta }: DataScene, path: PathMesh | null, style: PathOptions['style'] | null, binary: boolean): Blob {
+  const palette = paletteOf(cloud);
+  const pathCount = path ? path.n.length : 0;
+  const edges = path && style === 'polyline' ? Math.max(0, pathCount - 1) : 0;
+  const faces = path && style === 'tube' ? path.triangles.length / 3 : 0;
+  const header = [
+    'ply',
+    `format ${binary ? 'binary_little_endian' : 'ascii'} 1.0`,
+    `comment ${comment(meta)}`,
+    `element vertex ${cloud.count + pathCount}`,
+    'property float x', 'property float y', 'property float z',
+    'property uchar red', 'property uchar green', 'property uchar blue',
+    'property double n', 'property uchar prime',
+    ...(edges ? [`element edge ${edges}`, 'property int vertex1', 'property int vertex2'] : []),
+    ...(faces ? [`element face ${faces}`, 'property list uchar int vertex_indices'] : []),
+    'end_header',
+  ].join('\n') + '\n';
+
+  const vertex = (i: number) => {
+    if (i < cloud.count) {
+      const rgb = colorOfSlot(cloud, i, palette);
+      return { x: cloud.xyz[i * 3], y: cloud.xyz[i * 3 + 1], z: cloud.xyz[i * 3 + 2], rgb, n: cloud.n[i], prime: cloud.prime[i] };
+    }
+    const k = i - cloud.count;
+    return { x: path!.positions[k * 3], y: path!.positions[k * 3 + 1], z: path!.positions[k * 3 + 2], rgb: NEUTRAL, n: path!.n[k], prime: 0 };
+  };
+  const total = cloud.count + pathCount;
+
+  if (!binary) {
+    const out = textSink();
+    out.line(header.trimEnd());
+    for (let i = 0; i < total; i++) {
+      const v = vertex(i);
+      out.line(`${v.x} ${v.y} ${v.z} ${(v.rgb >> 16) & 255} ${(v.rgb >> 8) & 255} ${v.rgb & 255} ${v.n} ${v.prime}`);
+    }
+    for (let e = 0; e < edges; e++) out.line(`${cloud.count + e} ${cloud.count + e + 1}`);
+    for (let f = 0; f < faces; f++) {
+      const t = path!.triangles;
+      out.line(`3 ${cloud.count + t[f * 3]} ${cloud.count + t[f * 3 + 1]} ${cloud.count + t[f * 3 + 2]}`);
+    }
+    return out.blob('text/plain');
+  }
+
+  const VERTEX_BYTES = 12 + 3 + 8 + 1;
+  const body = new DataView(new ArrayBuffer(total * VERTEX_BYTES + edges * 8 + faces * 13));
+  let o = 0;
+  for (let i = 0; i < total; i++) {
+    const v = vertex(i);
+    body.setFloat32(o, v.x, true); body.setFloat32(o + 4, v.y, true); body.setFloat32(o + 8, v.z, true);
+    body.setUint8(o + 12, (v.rgb >> 16) & 255); body.setUint8(o + 13, (v.rgb >> 8) & 255); body.setUint8(o + 14, v.rgb & 255);
+    body.setFloat64(o + 15, v.n, true);
+    body.setUint8(o + 23, v.prime);
+    o += VERTEX_BYTES;
+  }
+  for (let e = 0; e < edges; e++, o += 8) {
+    body.setInt32(o, cloud.count + e, true);
+    body.setInt32(o + 4, cloud.count + e + 1, true);
+  }
+  for (let f = 0; f < faces; f++, o += 13) {
+    body.setUint8(o, 3);
+    for (let k = 0; k < 3; k++) body.setInt32(o + 1 + k * 4, cloud.count + path!.triangles[f * 3 + k], true);
+  }
+  return new Blob([header, body.buffer], { type: 'application/octet-stream' });
+}
+
+function obj({ cloud, meta }: DataScene, path: PathMesh | null, style: PathOptions['style'] | null): Blob {
+  const palette = paletteOf(cloud);
+  const out = textSink();
+  const c3 = (rgb: number) => `${(((rgb >> 16) & 255) / 255).toFixed(4)} ${(((rgb >> 8) & 255) / 255).toFixed(4)} ${((rgb & 255) / 255).toFixed(4)}`;
+  out.line(`# ${comment(meta)}`);
+  out.line('# Vertex colors follow the positions (v x y z r g b)');
+  out.line('o points');
+  for (let i = 0; i < cloud.count; i++) {
+    out.line(`v ${cloud.xyz[i * 3]} ${cloud.xyz[i * 3 + 1]} ${cloud.xyz[i * 3 + 2]} ${c3(colorOfSlot(cloud, i, palette))}`);
+  }
+  // OBJ indices are 1-based; long element lists are split so lines stay reasonable
+  const BATCH = 1000;
+  for (let i = 0; i < cloud.count; i += BATCH) {
+    const ids: number[] = [];
+    for (let k = i; k < Math.min(cloud.count, i + BATCH); k++) ids.push(k + 1);
+    out.line(`p ${ids.join(' ')}`);
+  }
+  if (path) {
+    const base = cloud.count;
+    const count = path.n.length;
+    out.line('o path');
+    for (let k = 0; k < count; k++) out.line(`v ${path.positions[k * 3]} ${path.positions[k * 3 + 1]} ${path.positions[k * 3 + 2]} ${c3(NEUTRAL)}`);
+    if (style === 'polyline') {
+      for (let i = 0; i < count - 1; i += BATCH) {
+        const ids: number[] = [];
+        for (let k = i; k <= Math.min(count - 1, i + BATCH); k++) ids.push(base + k + 1);
+        out.line(`l ${ids.join(' ')}`);
+      }
+    } else {
+      const t = path.triangles;
+      for (let f = 0; f < t.length; f += 3) out.line(`f ${base + t[f] + 1} ${base + t[f + 1] + 1} ${base + t[f + 2] + 1}`);
+    }
+  }
+  return out.blob('text/plain');
+}
+
+/* -------------------- glTF -------------------- */
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+// The spirals are z-up; glTF is y-up, so the root node turns the scene −90° about x.
+const Z_UP_TO_Y_UP = [-Math.SQRT1_2, 0, 0, Math.SQRT1_2];
+
+function bounds(xyz: Float32Array) {
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < xyz.length; i += 3) {
+    for (let a = 0; a < 3; a++) {
+      if (xyz[i + a] < min[a]) min[a] = xyz[i + a];
+      if (xyz[i + a] > max[a]) max[a] = xyz[i + a];
+    }
+  }
+  return { min, max };
+}
+
+/** The glTF JSON document and its single binary buffer. */
+function gltfParts({ cloud, meta }: DataScene, path: PathMesh | null, style: PathOptions['style'] | null) {
+  const palette = paletteOf(cloud);
+  const colors = new Float32Array(cloud.count * 3);
+  for (let i = 0; i < cloud.count; i++) {
+    const rgb = colorOfSlot(cloud, i, palette);
+    colors[i * 3] = ((rgb >> 16) & 255) / 255;
+    colors[i * 3 + 1] = ((rgb >> 8) & 255) / 255;
+    colors[i * 3 + 2] = (rgb & 255) / 255;
+  }
+  const chunks: ArrayBufferView[] = [];
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  let offset = 0;
+  const add = (data: Float32Array | Uint32Array, target: number, accessor: object) => {
+    chunks.push(data);
+    bufferViews.push({ buffer: 0, byteOffset: offset, byteLength: data.byteLength, target });
+    offset += data.byteLength; // every view holds 4-byte components, so offsets stay aligned
+    accessors.push({ bufferView: bufferViews.length - 1, ...accessor });
+    return accessors.length - 1;
+  };
+
+  const meshes: object[] = [];
+  if (cloud.count > 0) {
+    const position = add(cloud.xyz, ARRAY_BUFFER, { componentType: FLOAT, count: cloud.count, type: 'VEC3', ...bounds(cloud.xyz) });
+    const color = add(colors, ARRAY_BUFFER, { componentType: FLOAT, count: cloud.count, type: 'VEC3' });
+    meshes.push({ name: 'points', primitives: [{ attributes: { POSITION: position, COLOR_0: color }, mode: 0 }] });
+  }
+  if (path && path.n.length > 1) {
+    const count = path.n.length;
+    const position = add(path.positions, ARRAY_BUFFER, { componentType: FLOAT, count, type: 'VEC3', ...bounds(path.positions) });
+    const primitive = style === 'tube'
+      ? { attributes: { POSITION: position }, indices: add(path.triangles, ELEMENT_ARRAY_BUFFER, { componentType: UNSIGNED_INT, count: path.triangles.length, type: 'SCALAR' }), mode: 4 }
+      : { attributes: { POSITION: position }, mode: 3 };
+    meshes.push({ name: 'path', primitives: [primitive] });
+  }
+
+  const bin = new Uint8Array(offset);
+  let at = 0;
+  for (const c of chunks) { bin.set(new Uint8Array(c.buffer, c.byteOffset, c.byteLength), at); at += c.byteLength; }
+
+  const doc = {
+    asset: { version: '2.0', generator: 'prime-spirals' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [
+      { name: 'prime-spirals', rotation: Z_UP_TO_Y_UP, children: meshes.map((_, i) => i + 1), extras: metaHeader(meta) },
+      ...meshes.map((m, i) => ({ name: (m as { name: string }).name, mesh: i })),
+    ],
+    meshes,
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength: bin.byteLength }],
+  };
+  return { doc, bin };
+}
+
+function base64(bytes: Uint8Array): string {
+  let out = '';
+  const CHUNK = 0x3000 * 3; // a multiple of 3, so chunks encode independently
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    out += btoa(String.fromCharCode(...bytes.subarray(i, i + CHUNK)));
+  }
+  return out;
+}
+
+function gltf(scene: DataScene, path: PathMesh | null, style: PathOptions['style'] | null): Blob {
+  const { doc, bin } = gltfParts(scene, path, style);
+  const buffers = [{ byteLength: bin.byteLength, uri: `data:application/octet-stream;base64,${base64(bin)}` }];
+  return new Blob([JSON.stringify({ ...doc, buffers })], { type: 'model/gltf+json' });
+}
+
+function glb(scene: DataScene, path: PathMesh | null, style: PathOptions['style'] | null): Blob {
+  const { doc, bin } = gltfParts(scene, path, style);
+  const pad = (n: number) => (4 - (n % 4)) % 4;
+  const json = new TextEncoder().encode(JSON.stringify(doc));
+  const jsonLength = json.length + pad(json.length);
+  const binLength = bin.length + pad(bin.length);
+  const total = 12 + 8 + jsonLength + 8 + binLength;
+
+  const head = new DataView(new ArrayBuffer(12 + 8));
+  head.setUint32(0, 0x46546c67, true); // "glTF"
+  head.setUint32(4, 2, true);
+  head.setUint32(8, total, true);
+  head.setUint32(12, jsonLength, true);
+  head.setUint32(16, 0x4e4f534a, true); // "JSON"
+  const binHead = new DataView(new ArrayBuffer(8));
+  binHead.setUint32(0, binLength, true);
+  binHead.setUint32(4, 0x004e4942, true); // "BIN\0"
+  const spaces = new Uint8Array(pad(json.length)).fill(0x20);
+  const zeros = new Uint8Array(pad(bin.length));
+  return new Blob([head.buffer, json, spaces, binHead.buffer, bin, zeros], { type: 'model/gltf-binary' });
+}
+
+/* -------------------- Entry point -------------------- */
+/** Serializes the visible points (and optionally the spiral path) in the chosen format. */
+export function exportData(format: DataFormat, scene: DataScene): Blob {
+  const style = scene.path?.style ?? null;
+  const path = scene.path && DATA_FORMATS.find(f => f.id === format)!.path ? pathMesh(scene.points, scene.path) : null;
+  switch (format) {
+    case 'csv': return csv(scene);
+    case 'json': return json(scene);
+    case 'ply': return ply(scene, path, style, false);
+    case 'ply-binary': return ply(scene, path, style, true);
+    case 'obj': return obj(scene, path, style);
+    case 'gltf': return gltf(scene, path, style);
+    case 'glb': return glb(scene, path, style);
+  }
+}
@@ -0,0 +1,186 @@
+import { toCss, type Legend } from '../coloring/schemes';
+import type { Camera } from '../render/camera';
+import { projectCloud, type PointCloud } from '../render/pointCloud';
+import { makeProjector, type Projector } from '../render/projection';
+import { drawFrame, parseHexColor } from '../render/canvasRenderer';
+import { renderFrameSVG } from '../render/svgRenderer';
+import { projectCueLines, type DepthCues } from '../render/depthCues';
+import type { Point3D } from '../geometry/types';
+import { crc32 } from '../zip';
+
+/* -------------------- Snapshot scene -------------------- */
+/** The current view, independent of the size it is rendered at. */
+export interface SnapshotScene {
+  cloud: PointCloud;
+  camera: Camera;
+  perspective: boolean;
+  dotSize: number;
+  /** On-screen size the camera was framed in. */
+  viewport: { width: number; height: number };
+  /** Depth cues as on screen; the path and prime links run through all of `points`, not just the dots. */
+  cues?: { options: DepthCues; points: Point3D[]; primes: Set<number>; keep?: ((p: Point3D) => boolean) | null };
+}
+
+export interface Annotations {
+  title?: string;
+  /** One line each, under the title. */
+  caption?: string[];
+  legend?: { legend: Legend; layers: { label: string; color: string }[] };
+  /** X/Y/Z axes with their labels. */
+  axes?: boolean;
+}
+
+export interface SnapshotOptions {
+  /** Output size in pixels. */
+  width: number;
+  height: number;
+  /** Hex backdrop color, or null for transparent. */
+  background: string | null;
+  annotations: Annotations;
+}
+
+/** Largest side and area browsers reliably allocate a canvas for. */
+export const MAX_SNAPSHOT_SIDE = 16384;
+export const MAX_SNAPSHOT_PIXELS = 120_000_000;
+
+/**
+ * Re-projects the scene in "screen units": the shorter output side gets the viewport's shorter side,
+ * so the framing matches the screen and dots, labels and strokes grow with the resolution.
+ */
+function layout(scene: SnapshotScene, { width, height }: SnapshotOptions) {
+  const scale = Math.min(width, height) / Math.max(1, Math.min(scene.viewport.width, scene.viewport.height));
+  const w = width / scale, h = height / scale;
+  const projector = makeProjector({ width: w, height: h, camera: scene.camera, perspective: scene.perspective });
+  const frame = projectCloud(scene.cloud, projector, scene.dotSize, null);
+  const cues = scene.cues && {
+    cues: scene.cues.options,
+    ...projectCueLines(scene.cues.options, scene.cues.points, scene.cues.primes, projector, scene.cues.keep),
+  };
+  return { scale, w, h, projector, frame, cues };
+}
+
+/* -------------------- Annotations -------------------- */
+const escapeXml = (s: string) => s.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+const fmt = (v: number) => String(Math.round(v * 100) / 100);
+
+/** Dark text on light backdrops; white on dark or transparent ones. */
+function textColorFor(background: string | null): string {
+  if (!background) return '#ffffff';
+  const [r, g, b] = parseHexColor(background);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b > 140 ? '#111827' : '#ffffff';
+}
+
+function legendMarkup({ legend, layers }: NonNullable<Annotations['legend']>, w: number, h: number, ink: string): string {
+  const rows: string[] = [];
+  let y = 0;
+  const line = (label: string, color: string) => {
+    rows.push(`<circle cx="6" cy="${y + 5}" r="4.5" fill="${color}"/><text x="16" y="${y + 9}" font-size="11" fill="${ink}">${escapeXml(label)}</text>`);
+    y += 15;
+  };
+  for (const layer of layers) line(layer.label, layer.color);
+  if (layers.length) y += 4;
+  rows.push(`<text x="0" y="${y + 9}" font-size="11" fill="${ink}" fill-opacity="0.75">${escapeXml(legend.title)}</text>`);
+  y += 15;
+  if (legend.kind === 'categorical') {
+    for (const item of legend.items) line(item.label, toCss(item.color));
+  } else {
+    const stops = legend.stops.map((c, i) => `<stop offset="${fmt(i / Math.max(1, legend.stops.length - 1))}" stop-color="${toCss(c)}"/>`).join('');
+    rows.push(`<defs><linearGradient id="legend-ramp">${stops}</linearGradient></defs>`);
+    rows.push(`<rect x="0" y="${y}" width="150" height="8" rx="2" fill="url(#legend-ramp)"/>`);
+    rows.push(`<text x="0" y="${y + 21}" font-size="10" fill="${ink}" fill-opacity="0.75">${escapeXml(legend.min)}</text>`);
+    rows.push(`<text x="150" y="${y + 21}" font-size="10" fill="${ink}" fill-opacity="0.75" text-anchor="end">${escapeXml(legend.max)}</text>`);
+    y += 25;
+  }
+  const boxW = 170, boxH = y + 12;
+  const x0 = w - boxW - 12, y0 = h - boxH - 12;
+  return `<g transform="translate(${fmt(x0)} ${fmt(y0)})">`
+    + `<rect width="${boxW}" height="${fmt(boxH)}" rx="6" fill="${ink === '#ffffff' ? '#000000' : '#ffffff'}" fill-opacity="0.45"/>`
+    + `<g transform="translate(10 8)">${rows.join('')}</g></g>`;
+}
+
+/** Title, caption, legend and axes as SVG markup in screen units. */
+function annotationMarkup(a: Annotations, projector: Projector, w: number, h: number, background: string | null): string {
+  const ink = textColorFor(background);
+  const out: string[] = [];
+  if (a.axes) {
+    const L = 8; // same half-length as the live axes
+    const o = { x: 0, y: 0, z: 0 };
+    const axes: [string, [{ x: number; y: number; z: number }, { x: number; y: number; z: number }]][] = [
+      ['X', [{ ...o, x: -L }, { ...o, x: L }]],
+      ['Y', [{ ...o, y: -L }, { ...o, y: L }]],
+      ['Z', [{ ...o, z: -L }, { ...o, z: L }]],
+    ];
+    for (const [label, [from, to]] of axes) {
+      const seg = projector.projectSegment(from, to);
+      if (!seg) continue;
+      out.push(`<line x1="${fmt(seg[0].x)}" y1="${fmt(seg[0].y)}" x2="${fmt(seg[1].x)}" y2="${fmt(seg[1].y)}" stroke="${ink}" stroke-opacity="0.35" stroke-width="1"/>`);
+      out.push(`<text x="${fmt(seg[1].x + 6)}" y="${fmt(seg[1].y - 6)}" font-size="11" fill="${ink}" fill-opacity="0.7">${label}</text>`);
+    }
+  }
+  let y = 16;
+  if (a.title) {
+    y += 18;
+    out.push(`<text x="16" y="${y}" font-size="18" font-weight="600" fill="${ink}">${escapeXml(a.title)}</text>`);
+    y += 4;
+  }
+  for (const line of a.caption ?? []) {
+    y += 15;
+    out.push(`<text x="16" y="${y}" font-size="11.5" fill="${ink}" fill-opacity="0.8">${escapeXml(line)}</text>`);
+  }
+  if (a.legend) out.push(legendMarkup(a.legend, w, h, ink));
+  return out.join('\n');
+}
+
+/* -------------------- Output -------------------- */
+/** A standalone SVG: inline fills and fonts only, no stylesheet or page classes. */
+export function snapshotSVG(scene: SnapshotScene, options: SnapshotOptions): string {
+  const { scale, w, h, projector, frame, cues } = layout(scene, options);
+  return renderFrameSVG(frame, {
+    width: w, height: h, scale, background: options.background, ...cues,
+    overlay: annotationMarkup(options.annotations, projector, w, h, options.background),
+  });
+}
+
+/** Rasterizes the dots, then the annotations (as an SVG image) on top, and tags the PNG with `dpi`. */
+export async function snapshotPNG(scene: SnapshotScene, options: SnapshotOptions, dpi: number): Promise<Blob> {
+  const { scale, w, h, projector, frame, cues } = layout(scene, options);
+  const canvas = document.createElement('canvas');
+  canvas.width = options.width;
+  canvas.height = options.height;
+  const ctx = canvas.getContext('2d')!;
+  drawFrame(ctx, frame, { dpr: scale, background: options.background, ...cues });
+
+  const overlay = annotationMarkup(options.annotations, projector, w, h, options.background);
+  if (overlay) {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}" height="${options.height}" viewBox="0 0 ${fmt(w)} ${fmt(h)}" font-family="system-ui, -apple-system, 'Segoe UI', sans-serif">${overlay}</svg>`;
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    try {
+      const img = new Image();
+      img.src = url;
+      await img.decode();
+      ctx.drawImage(img, 0, 0, options.width, options.height);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('The browser could not encode the PNG');
+  return withPngDpi(blob, dpi);
+}
+
+/** Inserts a pHYs chunk right after IHDR so print software picks up the intended size. */
+async function withPngDpi(png: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const IHDR_END = 8 + 4 + 4 + 13 + 4; // signature, length, type, data, CRC
+  const chunk = new Uint8Array(4 + 4 + 9 + 4);
+  const view = new DataView(chunk.buffer);
+  const ppm = Math.round(dpi / 0.0254);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, ppm);
+  view.setUint32(12, ppm);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return new Blob([bytes.subarray(0, IHDR_END), chunk, bytes.subarray(IHDR_END)], { type: 'image/png' });
+}
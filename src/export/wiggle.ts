@@ -0,0 +1,61 @@
+import { projectCloud } from '../render/pointCloud';
+import { drawFrame } from '../render/canvasRenderer';
+import { makeEyeProjector, type StereoOptions } from '../render/stereo';
+import { encodeGif } from '../gif';
+import { createZip, type ZipEntry } from '../zip';
+import type { SnapshotScene } from './snapshot';
+
+/* -------------------- Wiggle stereograms -------------------- */
+// Alternating the two eye views fast enough lets one eye see depth through motion parallax.
+
+export interface WiggleOptions {
+  /** Output pixels per screen pixel. */
+  scale: number;
+  /** 2 swaps the eyes; more frames sweep smoothly between them and back. */
+  steps: number;
+  /** Milliseconds per frame. */
+  delay: number;
+}
+
+/** Eye positions of one loop: −1 … 1 and back, without repeating the ends. */
+export function wiggleEyes(steps: number): number[] {
+  if (steps <= 2) return [-1, 1];
+  const half = Math.ceil(steps / 2);
+  const forward = Array.from({ length: half + 1 }, (_, i) => -1 + (2 * i) / half);
+  return [...forward, ...forward.slice(1, -1).reverse()];
+}
+
+function renderEyes(scene: SnapshotScene, stereo: StereoOptions, { scale, steps }: WiggleOptions): { canvas: HTMLCanvasElement; frames: ImageData[] } {
+  const { width, height } = scene.viewport;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  const frames = wiggleEyes(steps).map(eye => {
+    const projector = makeEyeProjector({ width, height, camera: scene.camera, perspective: scene.perspective }, eye, stereo);
+    drawFrame(ctx, projectCloud(scene.cloud, projector, scene.dotSize, null), { dpr: scale });
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  });
+  return { canvas, frames };
+}
+
+/** The eye views as a looping GIF. */
+export function wiggleGIF(scene: SnapshotScene, stereo: StereoOptions, options: WiggleOptions): Blob {
+  const { canvas, frames } = renderEyes(scene, stereo, options);
+  return encodeGif(canvas.width, canvas.height, frames.map(f => ({ data: f.data, delay: options.delay })));
+}
+
+/** The eye views as `wiggle-0.png` … in a ZIP, for editors and video tools. */
+export async function wiggleFrames(scene: SnapshotScene, stereo: StereoOptions, options: WiggleOptions): Promise<Blob> {
+  const { canvas, frames } = renderEyes(scene, stereo, options);
+  const ctx = canvas.getContext('2d')!;
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    ctx.putImageData(frames[i], 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('The browser could not encode a PNG frame');
+    entries.push({ name: `wiggle-${i}.png`, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+  return createZip(entries);
+}
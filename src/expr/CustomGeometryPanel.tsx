@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { AXES, GEOMETRY_VARIABLES, validateParamName, type CompiledGeometry, type CustomGeometry, type CustomParam } from './customGeometry';
+import { CONSTANT_NAMES, FUNCTION_NAMES } from './compile';
+import type { ExpressionError } from './parser';
+
+interface CustomGeometryPanelProps {
+  geometry: CustomGeometry;
+  setGeometry: React.Dispatch<React.SetStateAction<CustomGeometry>>;
+  compiled: CompiledGeometry;
+  /** Points dropped because an expression evaluated to NaN or ±Infinity. */
+  skipped: number;
+}
+
+export function CustomGeometryPanel({ geometry, setGeometry, compiled, skipped }: CustomGeometryPanelProps) {
+  const [newName, setNewName] = useState('');
+  const nameError = newName ? validateParamName(newName, geometry.params) : null;
+
+  const updateParam = (name: string, patch: Partial<CustomParam>) =>
+    setGeometry(g => ({ ...g, params: g.params.map(p => (p.name === name ? { ...p, ...patch } : p)) }));
+
+  const addParam = () => {
+    if (!newName || nameError) return;
+    setGeometry(g => ({ ...g, params: [...g.params, { name: newName, value: 1, min: 0, max: 2, step: 0.01 }] }));
+    setNewName('');
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
+      <h3 className="text-white font-semibold mb-3">Custom Geometry</h3>
+      <div className="space-y-3 text-sm">
+        {AXES.map(axis => (
+          <div key={axis}>
+            <label className="text-gray-300 font-mono">{axis}(n, t) =</label>
+            <input
+              value={geometry[axis]}
+              onChange={(e) => setGeometry(g => ({ ...g, [axis]: e.target.value }))}
+              spellCheck={false}
+              className={`w-full mt-1 bg-white/10 text-white rounded px-2 py-1 font-mono border ${
+                !compiled.ok && compiled.errors[axis] ? 'border-red-400' : 'border-white/20'
+              }`}
+            />
+            {!compiled.ok && compiled.errors[axis] && <ErrorCaret source={geometry[axis]} error={compiled.errors[axis]!} />}
+          </div>
+        ))}
+        {compiled.ok && skipped > 0 && (
+          <div className="text-amber-300 text-xs">{skipped.toLocaleString()} points skipped (NaN or infinite coordinates)</div>
+        )}
+
+        <div className="border-t border-white/10 pt-3 space-y-2">
+          <div className="text-gray-300">Parameters</div>
+          {geometry.params.map(p => (
+            <div key={p.name}>
+              <div className="flex items-center gap-2">
+                <label className="text-gray-300 font-mono flex-1">{p.name} = {p.value}</label>
+                <button
+                  onClick={() => setGeometry(g => ({ ...g, params: g.params.filter(q => q.name !== p.name) }))}
+                  className="text-gray-400 hover:text-white" title={`Remove ${p.name}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <input
+                type="range" min={p.min} max={p.max} step={p.step} value={p.value}
+                onChange={(e) => updateParam(p.name, { value: Number(e.target.value) })}
+                className="w-full"
+              />
+              <div className="flex gap-1 text-xs text-gray-400">
+                {(['min', 'max', 'step'] as const).map(key => (
+                  <label key={key} className="flex-1 flex items-center gap-1">
+                    {key}
+                    <input
+                      type="number" value={p[key]}
+                      onChange={(e) => {
+                        const v = Number(e.target.value);
+                        if (Number.isFinite(v) && (key !== 'step' || v > 0)) updateParam(p.name, { [key]: v });
+                      }}
+                      className="w-full min-w-0 bg-white/10 text-white rounded px-1 border border-white/20"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value.trim())}
+              onKeyDown={(e) => { if (e.key === 'Enter') addParam(); }}
+              placeholder="New parameter name"
+              className="flex-1 min-w-0 bg-white/10 text-white rounded px-2 py-1 font-mono border border-white/20 placeholder:text-gray-400 placeholder:font-sans"
+            />
+            <button onClick={addParam} disabled={!newName || !!nameError} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded disabled:opacity-40">Add</button>
+          </div>
+          {nameError && <div className="text-red-300 text-xs">{nameError}</div>}
+        </div>
+
+        <p className="text-gray-400 text-xs">
+          Variables: {GEOMETRY_VARIABLES.join(', ')} (t = n·stepAngle, k = 1 … N within the window).
+          Functions: {FUNCTION_NAMES.join(', ')}. Constants: {CONSTANT_NAMES.join(', ')}. Operators: + − * / % ^.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/** The expression with a caret line under the offending token. */
+export function ErrorCaret({ source, error }: { source: string; error: ExpressionError }) {
+  return (
+    <div className="mt-1 text-xs">
+      <pre className="text-gray-300 font-mono whitespace-pre overflow-x-auto">
+        {source}{'\n'}
+        <span className="text-red-400">{' '.repeat(error.position)}{'^'.repeat(Math.max(1, error.length))}</span>
+      </pre>
+      <div className="text-red-300">{error.message}</div>
+    </div>
+  );
+}
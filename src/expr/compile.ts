@@ -0,0 +1,118 @@
+import { ExpressionError, parseExpression, type Node } from './parser';
+
+/* -------------------- Sandboxed evaluation -------------------- */
+// Expressions can only reach the names below and the variables passed to `compileExpression`;
+// there is no property access, assignment or `eval`, so user text cannot touch the page. The tables
+// have no prototype, so names like `constructor` or `toString` are as unknown as any other.
+
+type FunctionDef = { arity: number | [number, number]; fn: (...args: number[]) => number };
+
+const FUNCTIONS: Record<string, FunctionDef> = Object.assign(Object.create(null), {
+  sin: { arity: 1, fn: Math.sin },
+  cos: { arity: 1, fn: Math.cos },
+  tan: { arity: 1, fn: Math.tan },
+  asin: { arity: 1, fn: Math.asin },
+  acos: { arity: 1, fn: Math.acos },
+  atan: { arity: 1, fn: Math.atan },
+  atan2: { arity: 2, fn: Math.atan2 },
+  sinh: { arity: 1, fn: Math.sinh },
+  cosh: { arity: 1, fn: Math.cosh },
+  tanh: { arity: 1, fn: Math.tanh },
+  exp: { arity: 1, fn: Math.exp },
+  log: { arity: 1, fn: Math.log },
+  ln: { arity: 1, fn: Math.log },
+  log2: { arity: 1, fn: Math.log2 },
+  log10: { arity: 1, fn: Math.log10 },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  cbrt: { arity: 1, fn: Math.cbrt },
+  abs: { arity: 1, fn: Math.abs },
+  sign: { arity: 1, fn: Math.sign },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  round: { arity: 1, fn: Math.round },
+  frac: { arity: 1, fn: (x) => x - Math.floor(x) },
+  mod: { arity: 2, fn: (a, b) => a - b * Math.floor(a / b) },
+  pow: { arity: 2, fn: Math.pow },
+  hypot: { arity: [1, 8], fn: Math.hypot },
+  min: { arity: [1, 8], fn: Math.min },
+  max: { arity: [1, 8], fn: Math.max },
+} satisfies Record<string, FunctionDef>);
+
+const CONSTANTS: Record<string, number> = Object.assign(Object.create(null), {
+  pi: Math.PI,
+  tau: 2 * Math.PI,
+  e: Math.E,
+  phi: (1 + Math.sqrt(5)) / 2,
+});
+
+/** Names a user parameter may not take. */
+export function isReservedName(name: string): boolean {
+  return name in FUNCTIONS || name in CONSTANTS;
+}
+
+export const FUNCTION_NAMES = Object.keys(FUNCTIONS);
+export const CONSTANT_NAMES = Object.keys(CONSTANTS);
+
+/** Evaluates against a scope whose slots follow the `variables` order given at compile time. */
+export type CompiledExpression = (scope: Float64Array) => number;
+
+type Evaluator = (scope: Float64Array) => number;
+
+function build(node: Node, slots: Map<string, number>): Evaluator {
+  switch (node.type) {
+    case 'number': {
+      const v = node.value;
+      return () => v;
+    }
+    case 'name': {
+      const slot = slots.get(node.name);
+      if (slot !== undefined) return (s) => s[slot];
+      if (node.name in CONSTANTS) {
+        const v = CONSTANTS[node.name];
+        return () => v;
+      }
+      if (node.name in FUNCTIONS) throw new ExpressionError(`"${node.name}" is a function; call it like ${node.name}(…)`, node.pos, node.len);
+      throw new ExpressionError(`Unknown name "${node.name}"`, node.pos, node.len);
+    }
+    case 'unary': {
+      const arg = build(node.arg, slots);
+      return node.op === '-' ? (s) => -arg(s) : arg;
+    }
+    case 'binary': {
+      const l = build(node.left, slots), r = build(node.right, slots);
+      switch (node.op) {
+        case '+': return (s) => l(s) + r(s);
+        case '-': return (s) => l(s) - r(s);
+        case '*': return (s) => l(s) * r(s);
+        case '/': return (s) => l(s) / r(s);
+        case '%': return (s) => l(s) % r(s);
+        case '^': return (s) => Math.pow(l(s), r(s));
+      }
+      break;
+    }
+    case 'call': {
+      const def = FUNCTIONS[node.name];
+      if (!def) {
+        const hint = slots.has(node.name) || node.name in CONSTANTS ? ` ("${node.name}" is not a function)` : '';
+        throw new ExpressionError(`Unknown function "${node.name}"${hint}`, node.pos, node.len);
+      }
+      const [lo, hi] = typeof def.arity === 'number' ? [def.arity, def.arity] : def.arity;
+      if (node.args.length < lo || node.args.length > hi) {
+        const expected = lo === hi ? `${lo}` : `${lo} to ${hi}`;
+        throw new ExpressionError(`${node.name}() takes ${expected} argument${hi === 1 ? '' : 's'}, got ${node.args.length}`, node.pos, node.len);
+      }
+      const args = node.args.map(a => build(a, slots));
+      const fn = def.fn;
+      if (args.length === 1) { const [a] = args; return (s) => fn(a(s)); }
+      if (args.length === 2) { const [a, b] = args; return (s) => fn(a(s), b(s)); }
+      return (s) => fn(...args.map(a => a(s)));
+    }
+  }
+  throw new Error('unreachable');
+}
+
+/** Parses and compiles `src` into a closure tree; throws ExpressionError for bad syntax or unknown names. */
+export function compileExpression(src: string, variables: string[]): CompiledExpression {
+  const slots = new Map(variables.map((name, i) => [name, i]));
+  return build(parseExpression(src), slots);
+}
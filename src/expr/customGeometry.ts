@@ -0,0 +1,63 @@
+import { compileExpression, isReservedName, type CompiledExpression } from './compile';
+import { ExpressionError } from './parser';
+
+/* -------------------- Custom parametric geometry -------------------- */
+export interface CustomParam {
+  name: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface CustomGeometry {
+  x: string;
+  y: string;
+  z: string;
+  params: CustomParam[];
+}
+
+export const AXES = ['x', 'y', 'z'] as const;
+export type Axis = typeof AXES[number];
+
+/** Per-point variables, in scope-slot order: n, t = n·stepAngle, k = offset in the window (1 … N), N. */
+export const GEOMETRY_VARIABLES = ['n', 't', 'k', 'N'] as const;
+
+export const DEFAULT_CUSTOM_GEOMETRY: CustomGeometry = {
+  x: 's*sqrt(n)*cos(t)',
+  y: 's*sqrt(n)*sin(t)',
+  z: 'h*k/N',
+  params: [
+    { name: 's', value: 0.05, min: 0, max: 0.5, step: 0.005 },
+    { name: 'h', value: 4, min: -10, max: 10, step: 0.1 },
+  ],
+};
+
+export type CompiledGeometry =
+  | { ok: true; x: CompiledExpression; y: CompiledExpression; z: CompiledExpression }
+  | { ok: false; errors: Partial<Record<Axis, ExpressionError>> };
+
+export function compileCustomGeometry(geometry: CustomGeometry): CompiledGeometry {
+  const variables = [...GEOMETRY_VARIABLES, ...geometry.params.map(p => p.name)];
+  const compiled: Partial<Record<Axis, CompiledExpression>> = {};
+  const errors: Partial<Record<Axis, ExpressionError>> = {};
+  for (const axis of AXES) {
+    try {
+      compiled[axis] = compileExpression(geometry[axis], variables);
+    } catch (err) {
+      if (!(err instanceof ExpressionError)) throw err;
+      errors[axis] = err;
+    }
+  }
+  if (compiled.x && compiled.y && compiled.z) return { ok: true, x: compiled.x, y: compiled.y, z: compiled.z };
+  return { ok: false, errors };
+}
+
+/** Returns why `name` can't be used for a new parameter, or null if it can. */
+export function validateParamName(name: string, params: CustomParam[]): string | null {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) return 'Use letters, digits and _ (not starting with a digit)';
+  if ((GEOMETRY_VARIABLES as readonly string[]).includes(name)) return `"${name}" is a built-in variable`;
+  if (isReservedName(name)) return `"${name}" is a built-in function or constant`;
+  if (params.some(p => p.name === name)) return `"${name}" already exists`;
+  return null;
+}
@@ -0,0 +1,144 @@
+/* -------------------- Math expression language: tokens and AST -------------------- */
+// Grammar (lowest to highest precedence):
+//   expr    := term (('+' | '-') term)*
+//   term    := unary (('*' | '/' | '%') unary)*
+//   unary   := ('-' | '+') unary | power
+//   power   := primary (('^' | '**') unary)?        right-associative, so -2^2 = -4 and 2^3^2 = 512
+//   primary := number | name | name '(' expr (',' expr)* ')' | '(' expr ')'
+
+/** A parse or compile error, located at [position, position + length) in the source text. */
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position: number, public readonly length = 1) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type TokenType = 'number' | 'name' | 'op' | '(' | ')' | ',' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  pos: number;
+}
+
+export type Node =
+  | { type: 'number'; value: number; pos: number; len: number }
+  | { type: 'name'; name: string; pos: number; len: number }
+  | { type: 'unary'; op: '-' | '+'; arg: Node; pos: number }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '%' | '^'; left: Node; right: Node; pos: number }
+  | { type: 'call'; name: string; args: Node[]; pos: number; len: number };
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(src.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], pos: i });
+      i += number[0].length;
+      continue;
+    }
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i));
+    if (name) {
+      tokens.push({ type: 'name', text: name[0], pos: i });
+      i += name[0].length;
+      continue;
+    }
+    if (src.startsWith('**', i)) {
+      tokens.push({ type: 'op', text: '^', pos: i });
+      i += 2;
+      continue;
+    }
+    if ('+-*/%^'.includes(ch)) tokens.push({ type: 'op', text: ch, pos: i });
+    else if (ch === '(' || ch === ')' || ch === ',') tokens.push({ type: ch, text: ch, pos: i });
+    else throw new ExpressionError(`Unexpected character "${ch}"`, i);
+    i++;
+  }
+  tokens.push({ type: 'end', text: '', pos: src.length });
+  return tokens;
+}
+
+function describe(tok: Token): string {
+  return tok.type === 'end' ? 'end of expression' : `"${tok.text}"`;
+}
+
+/** Parses `src` into an AST, throwing an ExpressionError that points at the first bad token. */
+export function parseExpression(src: string): Node {
+  const tokens = tokenize(src);
+  let k = 0;
+  const peek = () => tokens[k];
+  const next = () => tokens[k++];
+  const fail = (tok: Token, expected: string): never => {
+    throw new ExpressionError(`Unexpected ${describe(tok)}, expected ${expected}`, tok.pos, Math.max(1, tok.text.length));
+  };
+
+  const expr = (): Node => {
+    let left = term();
+    while (peek().type === 'op' && (peek().text === '+' || peek().text === '-')) {
+      const op = next();
+      left = { type: 'binary', op: op.text as '+' | '-', left, right: term(), pos: op.pos };
+    }
+    return left;
+  };
+
+  const term = (): Node => {
+    let left = unary();
+    while (peek().type === 'op' && '*/%'.includes(peek().text)) {
+      const op = next();
+      left = { type: 'binary', op: op.text as '*' | '/' | '%', left, right: unary(), pos: op.pos };
+    }
+    return left;
+  };
+
+  const unary = (): Node => {
+    const tok = peek();
+    if (tok.type === 'op' && (tok.text === '-' || tok.text === '+')) {
+      next();
+      return { type: 'unary', op: tok.text, arg: unary(), pos: tok.pos };
+    }
+    return power();
+  };
+
+  const power = (): Node => {
+    const base = primary();
+    if (peek().type === 'op' && peek().text === '^') {
+      const op = next();
+      return { type: 'binary', op: '^', left: base, right: unary(), pos: op.pos };
+    }
+    return base;
+  };
+
+  const primary = (): Node => {
+    const tok = next();
+    if (tok.type === 'number') {
+      return { type: 'number', value: Number(tok.text), pos: tok.pos, len: tok.text.length };
+    }
+    if (tok.type === 'name') {
+      if (peek().type !== '(') return { type: 'name', name: tok.text, pos: tok.pos, len: tok.text.length };
+      next();
+      const args: Node[] = [];
+      if (peek().type !== ')') {
+        args.push(expr());
+        while (peek().type === ',') { next(); args.push(expr()); }
+      }
+      if (peek().type !== ')') fail(peek(), '"," or ")"');
+      next();
+      return { type: 'call', name: tok.text, args, pos: tok.pos, len: tok.text.length };
+    }
+    if (tok.type === '(') {
+      const inner = expr();
+      if (peek().type !== ')') fail(peek(), '")"');
+      next();
+      return inner;
+    }
+    return fail(tok, 'a number, name or "("');
+  };
+
+  if (peek().type === 'end') throw new ExpressionError('Expression is empty', 0, 0);
+  const ast = expr();
+  if (peek().type !== 'end') fail(peek(), 'an operator');
+  return ast;
+}
@@ -0,0 +1,29 @@
+import type { GeometryParam, GeometryParams } from './types';
+
+/** Decimal places implied by a slider step, so 0.001 shows as 0.080 and 10 as 200. */
+function digitsOf(step: number): number {
+  const s = String(step);
+  return s.includes('e-') ? Number(s.split('e-')[1]) : (s.split('.')[1] ?? '').length;
+}
+
+/** The auto-generated parameters panel body for a geometry's schema. */
+export function ParamSliders({ schema, values, onChange }: {
+  schema: GeometryParam[];
+  values: GeometryParams;
+  onChange: (name: string, value: number) => void;
+}) {
+  return (
+    <>
+      {schema.map(p => (
+        <div key={p.name}>
+          <label className="text-gray-300">{p.label}: {values[p.name].toFixed(digitsOf(p.step))}</label>
+          <input
+            type="range" min={p.min} max={p.max} step={p.step} value={values[p.name]}
+            onChange={(e) => onChange(p.name, Number(e.target.value))}
+            className="w-full mt-1"
+          />
+        </div>
+      ))}
+    </>
+  );
+}
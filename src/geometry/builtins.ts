@@ -0,0 +1,13 @@
+import { registerGeometry } from './registry';
+import { helix } from './helix';
+import { spherical } from './spherical';
+import { conical } from './conical';
+import { layered } from './layered';
+import { sacks } from './sacks';
+import { ulam } from './ulam';
+import { toroidal } from './toroidal';
+import { fibonacciSphere } from './fibonacciSphere';
+import { logarithmic } from './logarithmic';
+
+/* -------------------- Built-in geometries (mode picker order) -------------------- */
+[helix, spherical, conical, layered, sacks, ulam, toroidal, fibonacciSphere, logarithmic].forEach(registerGeometry);
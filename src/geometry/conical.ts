@@ -0,0 +1,31 @@
+import { STEP_ANGLE } from './params';
+import type { Point3D, SpiralGeometry } from './types';
+
+export function coordsConicalArchimedean(start: number, N: number, stepAngle: number, a: number, b: number, c: number): Point3D[] {
+  const points: Point3D[] = [];
+  for (let k = 1; k <= N; k++) {
+    const n = start + k - 1;
+    const t = n * stepAngle;
+    const r = a + b * k * stepAngle;
+    points.push({ n, x: r * Math.cos(t), y: r * Math.sin(t), z: c * k * stepAngle });
+  }
+  return points;
+}
+
+export const conical: SpiralGeometry = {
+  id: 'conical',
+  label: 'Conical',
+  description: '3D Archimedean spiral - radius grows with height',
+  explanation: `
+**Conical Archimedean Spiral**
+- **Position:** r = a + b·t and z = c·t with t = n·stepAngle; x = r·cos(t), y = r·sin(t).
+- **Idea:** A 2D Archimedean spiral lifted in z; radius and height grow linearly.
+- **Look for:** Radial bands of primes; tweak b or c to stretch & reveal modular structures.`,
+  params: [
+    STEP_ANGLE,
+    { name: 'a', label: 'Base radius (a)', min: 0, max: 2, step: 0.1, default: 0.8 },
+    { name: 'b', label: 'Radius growth (b)', min: 0.005, max: 0.1, step: 0.001, default: 0.04 },
+    { name: 'c', label: 'Height growth (c)', min: 0.01, max: 0.2, step: 0.001, default: 0.03 },
+  ],
+  generate: (N, p, { start }) => coordsConicalArchimedean(start, N, p.stepAngle, p.a, p.b, p.c),
+};
@@ -0,0 +1,41 @@
+import { compileCustomGeometry, type CompiledGeometry, type CustomGeometry } from '../expr/customGeometry';
+import { STEP_ANGLE } from './params';
+import type { Point3D, SpiralGeometry } from './types';
+
+export function coordsCustom(start: number, N: number, stepAngle: number, compiled: CompiledGeometry & { ok: true }, paramValues: number[]): Point3D[] {
+  // Scope slots follow GEOMETRY_VARIABLES (n, t, k, N), then the user parameters in declaration order.
+  const points: Point3D[] = [];
+  const scope = new Float64Array(4 + paramValues.length);
+  scope.set(paramValues, 4);
+  scope[3] = N;
+  for (let k = 1; k <= N; k++) {
+    const n = start + k - 1;
+    scope[0] = n;
+    scope[1] = n * stepAngle;
+    scope[2] = k;
+    const x = compiled.x(scope), y = compiled.y(scope), z = compiled.z(scope);
+    if (Number.isFinite(x) && Number.isFinite(y) && Number.isFinite(z)) points.push({ n, x, y, z });
+  }
+  return points;
+}
+
+export const CUSTOM_GEOMETRY_ID = 'custom';
+
+/**
+ * The Custom mode is rebuilt whenever its expressions change. Its schema only has stepAngle; the
+ * user-declared parameters live in the CustomGeometry definition and its own panel.
+ */
+export function createCustomGeometry(def: CustomGeometry, compiled: CompiledGeometry = compileCustomGeometry(def)): SpiralGeometry {
+  return {
+    id: CUSTOM_GEOMETRY_ID,
+    label: 'Custom',
+    description: 'Custom - your own x(n,t), y(n,t), z(n,t) expressions',
+    explanation: `
+**Custom Parametric Geometry**
+- **Position:** x(n, t), y(n, t), z(n, t) as typed in the Custom Geometry panel, with t = n·stepAngle, k = 1 … N within the window and your own slider parameters.
+- **Idea:** Try any embedding without touching code; expressions run in a small sandboxed evaluator, not JavaScript.
+- **Look for:** Whatever you are testing — e.g. replace cos(t) with cos(t·phi) to compare a golden-ratio winding with the helix.`,
+    params: [STEP_ANGLE],
+    generate: (N, p, { start }) => (compiled.ok ? coordsCustom(start, N, p.stepAngle, compiled, def.params.map(q => q.value)) : []),
+  };
+}
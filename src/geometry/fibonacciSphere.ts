@@ -0,0 +1,32 @@
+import type { Point3D, SpiralGeometry } from './types';
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+export function coordsFibonacciSphere(start: number, N: number, sphereRadius: number, deviation: number): Point3D[] {
+  const points: Point3D[] = [];
+  const angle = GOLDEN_ANGLE + deviation;
+  for (let k = 1; k <= N; k++) {
+    const n = start + k - 1;
+    const z = 1 - (2 * (k - 0.5)) / N;
+    const r = Math.sqrt(Math.max(0, 1 - z * z));
+    const theta = n * angle;
+    points.push({ n, x: sphereRadius * r * Math.cos(theta), y: sphereRadius * r * Math.sin(theta), z: sphereRadius * z });
+  }
+  return points;
+}
+
+export const fibonacciSphere: SpiralGeometry = {
+  id: 'fibonacci',
+  label: 'Fibonacci',
+  description: 'Fibonacci sphere - golden-angle points on a sphere',
+  explanation: `
+**Fibonacci Sphere (golden angle)**
+- **Position:** z spaced uniformly from 1 to −1; r = √(1 − z²); θ = n·(golden angle + ε) with golden angle = π(3 − √5) ≈ 137.5°.
+- **Idea:** The golden angle is the "most irrational" rotation, so consecutive numbers spread evenly with no spokes — a neutral background against which prime structure stands out.
+- **Look for:** With ε = 0 primes look evenly spread; small ε makes rational approximations of the angle show up as spiral arms (parastichies).`,
+  params: [
+    { name: 'radius', label: 'Sphere radius', min: 0.5, max: 8, step: 0.1, default: 3 },
+    { name: 'deviation', label: 'Angle deviation (ε)', min: -0.02, max: 0.02, step: 0.0001, default: 0 },
+  ],
+  generate: (N, p, { start }) => coordsFibonacciSphere(start, N, p.radius, p.deviation),
+};
@@ -0,0 +1,29 @@
+import { STEP_ANGLE } from './params';
+import type { Point3D, SpiralGeometry } from './types';
+
+export function coordsHelix(start: number, N: number, stepAngle: number, radius: number, pitch: number): Point3D[] {
+  const points: Point3D[] = [];
+  for (let k = 1; k <= N; k++) {
+    const n = start + k - 1;
+    const t = n * stepAngle;
+    points.push({ n, x: radius * Math.cos(t), y: radius * Math.sin(t), z: pitch * k * stepAngle });
+  }
+  return points;
+}
+
+export const helix: SpiralGeometry = {
+  id: 'helix',
+  label: 'Helix',
+  description: 'Cylindrical helix - numbers wrap around a cylinder',
+  explanation: `
+**Helix (Cylindrical Spiral)**
+- **Position:** x = R·cos(t), y = R·sin(t), z = p·t where t = n·stepAngle.
+- **Idea:** Wrap the number line around a cylinder; as n grows, angle increases uniformly and height rises linearly.
+- **Look for:** Slanted bands or pseudo-diagonals of primes when stepAngle resonates with modular patterns.`,
+  params: [
+    STEP_ANGLE,
+    { name: 'radius', label: 'Radius', min: 0.5, max: 3, step: 0.1, default: 1.0 },
+    { name: 'pitch', label: 'Pitch', min: 0.01, max: 0.2, step: 0.001, default: 0.08 },
+  ],
+  generate: (N, p, { start }) => coordsHelix(start, N, p.stepAngle, p.radius, p.pitch),
+};
@@ -0,0 +1,33 @@
+import { STEP_ANGLE } from './params';
+import type { Point3D, SpiralGeometry } from './types';
+
+export function coordsLayeredTime(start: number, N: number, blockSize: number, layerRadius: number, stepAngle: number): Point3D[] {
+  const points: Point3D[] = [];
+  const safe = Math.max(blockSize, 1);
+  const firstLayer = Math.floor((start - 1) / safe);
+  for (let n = start; n < start + N; n++) {
+    // Blocks stay aligned to multiples of blockSize; layers are counted from the window's first block.
+    const layer = Math.floor((n - 1) / safe) - firstLayer;
+    const idxInLayer = (n - 1) % safe;
+    const theta = idxInLayer * stepAngle;
+    points.push({ n, x: layerRadius * Math.cos(theta), y: layerRadius * Math.sin(theta), z: layer });
+  }
+  return points;
+}
+
+export const layered: SpiralGeometry = {
+  id: 'layered',
+  label: 'Layered',
+  description: 'Layered spiral - numbers in block-based levels',
+  explanation: `
+**Layered-Time Spiral**
+- **Position:** Integers chunked into blocks; each block forms a ring at fixed z. x = R·cos(k·stepAngle), y = R·sin(k·stepAngle).
+- **Idea:** Treat consecutive integers as time batches. Each layer is a batch; primes are highlighted timestamps.
+- **Look for:** Prime density differences between layers (local fluctuations).`,
+  params: [
+    STEP_ANGLE,
+    { name: 'blockSize', label: 'Block size', min: 50, max: 500, step: 10, default: 200 },
+    { name: 'layerRadius', label: 'Layer radius', min: 2, max: 15, step: 0.5, default: 6.0 },
+  ],
+  generate: (N, p, { start }) => coordsLayeredTime(start, N, p.blockSize, p.layerRadius, p.stepAngle),
+};
@@ -0,0 +1,32 @@
+import { STEP_ANGLE } from './params';
+import type { Point3D, SpiralGeometry } from './types';
+
+export function coordsLogConical(start: number, N: number, stepAngle: number, base: number, growth: number, slope: number): Point3D[] {
+  // r = base·e^(growth·s) with s running 0 → 1 across the window, so any N stays finite; z = slope·r puts it on a cone.
+  const points: Point3D[] = [];
+  for (let k = 1; k <= N; k++) {
+    const n = start + k - 1;
+    const t = n * stepAngle;
+    const r = base * Math.exp((growth * (k - 1)) / Math.max(N - 1, 1));
+    points.push({ n, x: r * Math.cos(t), y: r * Math.sin(t), z: slope * r });
+  }
+  return points;
+}
+
+export const logarithmic: SpiralGeometry = {
+  id: 'logarithmic',
+  label: 'Logarithmic',
+  description: 'Logarithmic spiral - equiangular spiral on a cone',
+  explanation: `
+**Logarithmic Spiral on a Cone**
+- **Position:** t = n·stepAngle; r = a·e^(g·s) with s going from 0 to 1 across the window; x = r·cos(t), y = r·sin(t), z = slope·r.
+- **Idea:** Radius grows exponentially, so the spiral keeps its shape at every scale (equiangular), lifted onto a cone. The growth g counts e-folds over the whole window.
+- **Look for:** How angular bands of primes from stepAngle resonances widen smoothly with r, unlike on the Archimedean cone.`,
+  params: [
+    STEP_ANGLE,
+    { name: 'base', label: 'Base radius (a)', min: 0.05, max: 2, step: 0.05, default: 0.3 },
+    { name: 'growth', label: 'Growth (g, e-folds)', min: 0.1, max: 6, step: 0.1, default: 3 },
+    { name: 'slope', label: 'Cone slope (z / r)', min: 0, max: 3, step: 0.05, default: 0.8 },
+  ],
+  generate: (N, p, { start }) => coordsLogConical(start, N, p.stepAngle, p.base, p.growth, p.slope),
+};
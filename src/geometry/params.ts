@@ -0,0 +1,4 @@
+import type { GeometryParam } from './types';
+
+/* -------------------- Shared parameter schemas -------------------- */
+export const STEP_ANGLE: GeometryParam = { name: 'stepAngle', label: 'Angle step', min: 0.1, max: 1, step: 0.01, default: 0.35 };
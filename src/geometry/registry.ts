@@ -0,0 +1,38 @@
+import type { GeometryParams, SpiralGeometry } from './types';
+
+/* -------------------- Geometry registry -------------------- */
+const registry = new Map<string, SpiralGeometry>();
+
+/** Adds a geometry to the mode picker; ids must be unique and URL-safe ([A-Za-z0-9_-]). */
+export function registerGeometry(geometry: SpiralGeometry): void {
+  if (!/^[\w-]+$/.test(geometry.id)) throw new Error(`Geometry id "${geometry.id}" must match [A-Za-z0-9_-]+`);
+  if (registry.has(geometry.id)) throw new Error(`Geometry "${geometry.id}" is already registered`);
+  registry.set(geometry.id, geometry);
+}
+
+export function getGeometry(id: string): SpiralGeometry | undefined {
+  return registry.get(id);
+}
+
+export function listGeometries(): SpiralGeometry[] {
+  return [...registry.values()];
+}
+
+export function defaultGeometryParams(geometry: SpiralGeometry): GeometryParams {
+  return Object.fromEntries(geometry.params.map(p => [p.name, p.default]));
+}
+
+/**
+ * Schema defaults overlaid with stored values; values for unknown names are dropped. Values may lie
+ * outside the slider range (shared links can ask for them), but integer-step parameters stay integers
+ * no smaller than their minimum.
+ */
+export function resolveGeometryParams(geometry: SpiralGeometry, stored: GeometryParams | undefined): GeometryParams {
+  const params = defaultGeometryParams(geometry);
+  for (const p of geometry.params) {
+    const v = stored?.[p.name];
+    if (typeof v !== 'number' || !Number.isFinite(v)) continue;
+    params[p.name] = Number.isInteger(p.step) ? Math.max(p.min, Math.round(v)) : v;
+  }
+  return params;
+}
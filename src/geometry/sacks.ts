@@ -0,0 +1,30 @@
+import type { Point3D, SpiralGeometry } from './types';
+
+export function coordsSacks(start: number, N: number, scale: number, lift: number): Point3D[] {
+  // Sacks: θ = 2π√n puts perfect squares on one ray; radius and lift grow with √n above the window start.
+  const points: Point3D[] = [];
+  const base = Math.sqrt(start - 1);
+  for (let n = start; n < start + N; n++) {
+    const s = Math.sqrt(n);
+    const theta = 2 * Math.PI * s;
+    const r = scale * (s - base);
+    points.push({ n, x: r * Math.cos(theta), y: r * Math.sin(theta), z: lift * (s - base) });
+  }
+  return points;
+}
+
+export const sacks: SpiralGeometry = {
+  id: 'sacks',
+  label: 'Sacks',
+  description: 'Sacks spiral - one turn per perfect square, lifted into a cone',
+  explanation: `
+**Sacks Spiral (3D)**
+- **Position:** θ = 2π·√n, r = s·√n, z = h·√n (measured from the window start).
+- **Idea:** Robert Sacks' variant of the Ulam spiral: one full turn per perfect square, so squares line up on a single ray. The lift h turns the plane into a cone (h = 0 gives the classic flat spiral).
+- **Look for:** Curves of primes along quadratic polynomials such as n² + n + 41, which appear as arcs leaving the centre.`,
+  params: [
+    { name: 'scale', label: 'Radius scale (s)', min: 0.01, max: 0.5, step: 0.005, default: 0.1 },
+    { name: 'lift', label: 'Lift per √n (h)', min: 0, max: 0.5, step: 0.005, default: 0.05 },
+  ],
+  generate: (N, p, { start }) => coordsSacks(start, N, p.scale, p.lift),
+};
@@ -0,0 +1,27 @@
+import { STEP_ANGLE } from './params';
+import type { Point3D, SpiralGeometry } from './types';
+
+export function coordsSphericalSpiral(start: number, N: number, stepAngle: number): Point3D[] {
+  const points: Point3D[] = [];
+  for (let k = 1; k <= N; k++) {
+    const n = start + k - 1;
+    const z = (2.0 * (k - 1)) / Math.max(N - 1, 1) - 1.0;
+    const r = Math.sqrt(Math.max(0, 1 - z * z));
+    const theta = n * stepAngle;
+    points.push({ n, x: r * Math.cos(theta), y: r * Math.sin(theta), z });
+  }
+  return points;
+}
+
+export const spherical: SpiralGeometry = {
+  id: 'spherical',
+  label: 'Spherical',
+  description: 'Spiral on a sphere - approximately uniform coverage',
+  explanation: `
+**Spherical Spiral**
+- **Position:** z spaced uniformly from −1 to 1; r = sqrt(1 − z²); θ = n·stepAngle; x = r·cos(θ), y = r·sin(θ).
+- **Idea:** Traverse the sphere with near-uniform surface coverage while numbers increment.
+- **Look for:** Whether prime density appears uniform across latitudes/longitudes.`,
+  params: [STEP_ANGLE],
+  generate: (N, p, { start }) => coordsSphericalSpiral(start, N, p.stepAngle),
+};
@@ -0,0 +1,32 @@
+import { STEP_ANGLE } from './params';
+import type { Point3D, SpiralGeometry } from './types';
+
+export function coordsToroidal(start: number, N: number, stepAngle: number, R: number, r: number, p: number, q: number): Point3D[] {
+  // (p, q) torus knot sampled at φ = n·stepAngle: p turns around the axis for every q turns through the hole.
+  const points: Point3D[] = [];
+  for (let n = start; n < start + N; n++) {
+    const phi = n * stepAngle;
+    const w = R + r * Math.cos(q * phi);
+    points.push({ n, x: w * Math.cos(p * phi), y: w * Math.sin(p * phi), z: r * Math.sin(q * phi) });
+  }
+  return points;
+}
+
+export const toroidal: SpiralGeometry = {
+  id: 'toroidal',
+  label: 'Toroidal',
+  description: 'Toroidal spiral - (p, q) torus knot',
+  explanation: `
+**Toroidal Spiral / Torus Knot**
+- **Position:** φ = n·stepAngle; x = (R + r·cos(qφ))·cos(pφ), y = (R + r·cos(qφ))·sin(pφ), z = r·sin(qφ).
+- **Idea:** Wind the number line onto a torus: p turns around the central axis for every q turns through the hole. Coprime p, q trace a (p, q) torus knot.
+- **Look for:** Primes collecting on a few strands when stepAngle·q or stepAngle·p is close to a rational multiple of 2π.`,
+  params: [
+    STEP_ANGLE,
+    { name: 'major', label: 'Major radius (R)', min: 1, max: 8, step: 0.1, default: 3 },
+    { name: 'minor', label: 'Minor radius (r)', min: 0.1, max: 4, step: 0.1, default: 1 },
+    { name: 'p', label: 'Turns around axis (p)', min: 1, max: 12, step: 1, default: 2 },
+    { name: 'q', label: 'Turns through hole (q)', min: 1, max: 12, step: 1, default: 3 },
+  ],
+  generate: (N, p, { start }) => coordsToroidal(start, N, p.stepAngle, p.major, p.minor, p.p, p.q),
+};
@@ -0,0 +1,36 @@
+/* -------------------- Spiral geometry plugin interface -------------------- */
+export interface Point3D { n: number; x: number; y: number; z: number; }
+
+/** One slider in the auto-generated parameters panel. */
+export interface GeometryParam {
+  name: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export type GeometryParams = Record<string, number>;
+
+/** The slice of the number line being drawn: N integers start … start + N − 1. */
+export interface GeometryWindow {
+  start: number;
+}
+
+/**
+ * A self-describing spiral mode. By convention angles use the absolute n, so modular structure is
+ * the same anywhere on the number line, while heights and radial growth use the offset
+ * k = n − start + 1 so a window high up stays in view. With start = 1 both coincide.
+ */
+export interface SpiralGeometry {
+  id: string;
+  /** Short name, shown as "<label> Spiral". */
+  label: string;
+  /** One line for the mode picker. */
+  description: string;
+  /** Markdown-ish notes shown under the canvas: position formula, idea, what to look for. */
+  explanation: string;
+  params: GeometryParam[];
+  generate: (N: number, params: GeometryParams, window: GeometryWindow) => Point3D[];
+}
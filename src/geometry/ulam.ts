@@ -0,0 +1,44 @@
+import type { Point3D, SpiralGeometry } from './types';
+
+/** Lattice position of n on the Ulam square spiral (1 at the origin, 2 to its right, turning counter-clockwise). */
+export function ulamXY(n: number): [number, number] {
+  let k = Math.ceil((Math.sqrt(n) - 1) / 2);
+  // Guard √ rounding at large perfect squares: ring k holds (2k − 1)² < n ≤ (2k + 1)².
+  while ((2 * k + 1) * (2 * k + 1) < n) k++;
+  while (k > 0 && (2 * k - 1) * (2 * k - 1) >= n) k--;
+  const t = 2 * k;
+  let m = (t + 1) * (t + 1);
+  if (n >= m - t) return [k - (m - n), -k];
+  m -= t;
+  if (n >= m - t) return [-k, -k + (m - n)];
+  m -= t;
+  if (n >= m - t) return [-k + (m - n), k];
+  return [k, k - (m - n - t)];
+}
+
+export function coordsUlamLifted(start: number, N: number, spacing: number, lift: number): Point3D[] {
+  const points: Point3D[] = [];
+  const [x0, y0] = ulamXY(start); // keep the window's first number on the axis
+  for (let k = 1; k <= N; k++) {
+    const n = start + k - 1;
+    const [ux, uy] = ulamXY(n);
+    points.push({ n, x: spacing * (ux - x0), y: spacing * (uy - y0), z: lift * (k - 1) });
+  }
+  return points;
+}
+
+export const ulam: SpiralGeometry = {
+  id: 'ulam',
+  label: 'Ulam',
+  description: 'Ulam square spiral - lattice rings lifted in z',
+  explanation: `
+**Ulam Spiral (lifted)**
+- **Position:** (x, y) = the square-spiral lattice cell of n, scaled by the spacing; z = lift × (offset from the window start).
+- **Idea:** Ulam's 1963 doodle: writing integers in a square spiral makes primes cluster on diagonals. Lifting into z separates successive rings so they can be seen from the side.
+- **Look for:** Diagonal and straight lines of primes (values of quadratics 4n² + bn + c); tilt the view to see which rings they come from.`,
+  params: [
+    { name: 'spacing', label: 'Cell spacing', min: 0.01, max: 0.5, step: 0.005, default: 0.1 },
+    { name: 'lift', label: 'Lift per number', min: 0, max: 0.01, step: 0.0001, default: 0.002 },
+  ],
+  generate: (N, p, { start }) => coordsUlamLifted(start, N, p.spacing, p.lift),
+};
@@ -0,0 +1,127 @@
+/* -------------------- Minimal animated GIF writer -------------------- */
+// Wiggle stereograms are a handful of frames that have to loop everywhere, including chat apps and
+// slides that will not play video. One palette is shared by all frames, so the eyes match exactly.
+
+export interface GifFrame {
+  /** RGBA pixels, as from `getImageData`; alpha is ignored. */
+  data: Uint8ClampedArray;
+  /** Display time in milliseconds (rounded to GIF's centiseconds). */
+  delay: number;
+}
+
+/**
+ * Popularity palette: the 256 most common colors at 5 bits per channel. Returns the palette and a
+ * lookup from 15-bit color to palette index (nearest entry, computed lazily).
+ */
+function buildPalette(frames: GifFrame[]): { palette: Uint8Array<ArrayBuffer>; indexOf: (key: number) => number } {
+  const counts = new Uint32Array(1 << 15);
+  for (const { data } of frames) {
+    for (let i = 0; i < data.length; i += 4) counts[key15(data[i], data[i + 1], data[i + 2])]++;
+  }
+  const used: number[] = [];
+  for (let k = 0; k < counts.length; k++) if (counts[k]) used.push(k);
+  used.sort((a, b) => counts[b] - counts[a]);
+  const chosen = used.slice(0, 256);
+  const palette = new Uint8Array(256 * 3);
+  chosen.forEach((k, i) => {
+    palette[i * 3] = ((k >> 10) & 31) * 255 / 31;
+    palette[i * 3 + 1] = ((k >> 5) & 31) * 255 / 31;
+    palette[i * 3 + 2] = (k & 31) * 255 / 31;
+  });
+
+  const lookup = new Int16Array(1 << 15).fill(-1);
+  chosen.forEach((k, i) => { lookup[k] = i; });
+  const indexOf = (key: number) => {
+    if (lookup[key] < 0) {
+      const r = (key >> 10) & 31, g = (key >> 5) & 31, b = key & 31;
+      let best = 0, bestDist = Infinity;
+      chosen.forEach((k, i) => {
+        const dr = ((k >> 10) & 31) - r, dg = ((k >> 5) & 31) - g, db = (k & 31) - b;
+        const d = 2 * dr * dr + 4 * dg * dg + db * db;
+        if (d < bestDist) { bestDist = d; best = i; }
+      });
+      lookup[key] = best;
+    }
+    return lookup[key];
+  };
+  return { palette, indexOf };
+}
+
+const key15 = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+/** Variable-length-code LZW as GIF uses it, packed LSB first into 255-byte sub-blocks. */
+function lzw(indices: Uint8Array, out: number[]) {
+  const MIN_CODE_SIZE = 8;
+  const CLEAR = 1 << MIN_CODE_SIZE, END = CLEAR + 1;
+  out.push(MIN_CODE_SIZE);
+
+  const block: number[] = [];
+  let bits = 0, bitCount = 0;
+  const emit = (code: number, size: number) => {
+    bits |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block.push(bits & 255);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) { out.push(255, ...block); block.length = 0; }
+    }
+  };
+
+  let dict = new Map<number, number>();
+  let next = END + 1, size = MIN_CODE_SIZE + 1;
+  emit(CLEAR, size);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = prefix * 256 + k;
+    const code = dict.get(key);
+    if (code !== undefined) { prefix = code; continue; }
+    emit(prefix, size);
+    if (next < 4096) {
+      dict.set(key, next++);
+      if (next > (1 << size) && size < 12) size++;
+    } else {
+      // Table full: start over
+      emit(CLEAR, size);
+      dict = new Map();
+      next = END + 1;
+      size = MIN_CODE_SIZE + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix, size);
+  emit(END, size);
+  if (bitCount > 0) block.push(bits & 255);
+  if (block.length) out.push(block.length, ...block);
+  out.push(0);
+}
+
+/** Encodes equally sized frames as a looping GIF89a. */
+export function encodeGif(width: number, height: number, frames: GifFrame[]): Blob {
+  const { palette, indexOf } = buildPalette(frames);
+  const parts: BlobPart[] = [];
+  const u16 = (v: number) => [v & 255, (v >> 8) & 255];
+
+  parts.push(new Uint8Array([
+    ...'GIF89a'.split('').map(c => c.charCodeAt(0)),
+    ...u16(width), ...u16(height),
+    0xf7, 0, 0, // global color table of 256 entries, 8 bits per primary
+  ]));
+  parts.push(palette);
+  // NETSCAPE2.0 extension: loop forever
+  parts.push(new Uint8Array([0x21, 0xff, 11, ...'NETSCAPE2.0'.split('').map(c => c.charCodeAt(0)), 3, 1, 0, 0, 0]));
+
+  for (const { data, delay } of frames) {
+    const indices = new Uint8Array(width * height);
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) indices[p] = indexOf(key15(data[i], data[i + 1], data[i + 2]));
+    const out: number[] = [
+      0x21, 0xf9, 4, 0x04, ...u16(Math.round(delay / 10)), 0, 0, // graphic control: keep the frame, no transparency
+      0x2c, 0, 0, 0, 0, ...u16(width), ...u16(height), 0, // image descriptor, no local palette
+    ];
+    lzw(indices, out);
+    parts.push(new Uint8Array(out));
+  }
+  parts.push(new Uint8Array([0x3b]));
+  return new Blob(parts, { type: 'image/gif' });
+}
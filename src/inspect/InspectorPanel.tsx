@@ -0,0 +1,250 @@
+import { useMemo, useState } from 'react';
+import { Crosshair, Search, X } from 'lucide-react';
+import type { Point3D } from '../geometry/types';
+import type { HighlightLayer } from '../render/pointCloud';
+import { exactN, formatN, parseExact } from '../state/viewState';
+import { findPointIndex, type Neighbor } from './neighbors';
+import { EXACT_PI_LIMIT, RESIDUE_MODULI, factorize, logIntegral, nextPrime, prevPrime, primePi } from './numberTheory';
+import { elementAt, indexOf, type LatticeWindow } from '../domains/lattice';
+import { associates, factorElement, formatElement, formatFactorization, parseElement, primesAbove } from '../domains/rings';
+
+interface InspectorPanelProps {
+  selected: number[];
+  setSelected: React.Dispatch<React.SetStateAction<number[]>>;
+  points: Point3D[];
+  isPrime: (n: number) => boolean;
+  layers: HighlightLayer[];
+  neighbors: Map<number, Neighbor[]>;
+  /** Far windows: what n counts from; selected numbers are window-relative then. */
+  origin: bigint;
+  /** Aim the camera at the exact number n, moving the window first when n lies outside it. */
+  jumpTo: (n: bigint) => void;
+  /** The last number `jumpTo` can bring into the window. */
+  maxTarget: bigint;
+  /** Gaussian or Eisenstein domains: n indexes these elements, and the search box takes a + bi. */
+  lattice: LatticeWindow | null;
+}
+
+/** Search box plus one card per selected number, most recent first. */
+export function InspectorPanel({ selected, setSelected, points, isPrime, layers, neighbors, origin, jumpTo, maxTarget, lattice }: InspectorPanelProps) {
+  const [query, setQuery] = useState('');
+  const element = lattice && parseElement(lattice.ring, query);
+  // Elements can only be reached inside the norm bound; integers up to the window's own ceiling
+  const found = lattice ? (element ? indexOf(lattice, element) : null) : null;
+  const target = lattice ? (found === null ? null : BigInt(found)) : parseExact(query);
+  const valid = target !== null && target <= maxTarget;
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20 mt-4">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h3 className="text-white font-semibold">Inspector</h3>
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => { e.preventDefault(); if (valid) jumpTo(target!); }}
+        >
+          <input
+            type="text" inputMode={lattice ? 'text' : 'numeric'} placeholder={lattice ? `Go to a+b${lattice.ring.symbol}…` : 'Go to n…'} value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-36 bg-white/10 text-white rounded px-2 py-1 text-sm border border-white/20"
+            aria-label="Jump to number"
+          />
+          <button type="submit" disabled={!valid} className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded disabled:opacity-40" title={lattice ? `Select the element and center the camera on it (norm ≤ ${lattice.normBound.toLocaleString()})` : 'Select n and center the camera on it'}>
+            <Search size={16} />
+          </button>
+          {selected.length > 0 && (
+            <button type="button" onClick={() => setSelected([])} className="text-gray-300 hover:text-white text-sm px-2">Clear</button>
+          )}
+        </form>
+      </div>
+
+      {selected.length === 0 ? (
+        <p className="text-gray-400 text-sm">Click a dot to inspect it; shift-click to add more.</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-3">
+          {[...selected].reverse().map(n => lattice ? (
+            <LatticeCard
+              key={n}
+              n={n}
+              lattice={lattice}
+              point={points[findPointIndex(points, n)]}
+              neighbors={neighbors.get(n) ?? []}
+              onRemove={() => setSelected(s => s.filter(m => m !== n))}
+              onSelect={(m) => setSelected(s => (s.includes(m) ? s : [...s, m]))}
+              onCenter={() => jumpTo(BigInt(n))}
+            />
+          ) : (
+            <InspectorCard
+              key={n}
+              n={n}
+              origin={origin}
+              point={points[findPointIndex(points, n)]}
+              isPrime={isPrime}
+              layers={layers}
+              neighbors={neighbors.get(n) ?? []}
+              onRemove={() => setSelected(s => s.filter(m => m !== n))}
+              onSelect={(m) => setSelected(s => (s.includes(m) ? s : [...s, m]))}
+              onCenter={() => jumpTo(exactN(n, origin))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InspectorCard({ n, origin, point, isPrime, layers, neighbors, onRemove, onSelect, onCenter }: {
+  n: number;
+  origin: bigint;
+  point: Point3D | undefined;
+  isPrime: (n: number) => boolean;
+  layers: HighlightLayer[];
+  neighbors: Neighbor[];
+  onRemove: () => void;
+  onSelect: (n: number) => void;
+  onCenter: () => void;
+}) {
+  const info = useMemo(() => {
+    const value = exactN(n, origin);
+    const prime = isPrime(n);
+    // Window-relative n may go below 2 while the exact values stay far above it
+    const prev = prevPrime(n, isPrime, origin ? -Infinity : 2);
+    const next = nextPrime(n, isPrime);
+    const exact = value <= EXACT_PI_LIMIT;
+    // Trial division reaches the sieve's ceiling; far windows are beyond it
+    const factors = origin ? null : n > 1 ? factorize(n) : [];
+    const residues = RESIDUE_MODULI.map(m => Number(value % BigInt(m)));
+    return { value, prime, prev, next, exact, pi: exact ? primePi(n) : logIntegral(Number(value)), factors, residues };
+  }, [n, origin, isPrime]);
+  const tags = layers.filter(l => l.has(n));
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-lg p-3 text-sm text-gray-200 space-y-1">
+      <div className="flex items-center justify-between">
+        <div className="text-white font-semibold text-base break-all">{formatN(n, origin)}</div>
+        <div className="flex items-center gap-1">
+          <button onClick={onCenter} className="text-gray-300 hover:text-white p-1" title="Center the camera on this number"><Crosshair size={14} /></button>
+          <button onClick={onRemove} className="text-gray-300 hover:text-white p-1" title="Deselect"><X size={14} /></button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        <span className={`px-1.5 rounded text-xs ${info.prime ? 'bg-emerald-500/40' : 'bg-white/10'}`}>
+          {info.value === 1n ? 'Unit' : info.prime ? 'Prime' : 'Composite'}
+        </span>
+        {tags.map(l => (
+          <span key={l.id} className="px-1.5 rounded text-xs text-gray-900" style={{ background: l.color }}>{l.label}</span>
+        ))}
+      </div>
+      <div>
+        Factorization:{' '}
+        {info.factors === null ? <span className="text-gray-400">not attempted above 10¹⁴</span> : info.factors.length === 0 ? '1' : info.factors.map(([p, e], i) => (
+          <span key={p}>{i > 0 && ' · '}{p.toLocaleString()}{e > 1 && <sup>{e}</sup>}</span>
+        ))}
+      </div>
+      <div>
+        π(n) {info.exact ? '=' : '≈'} {Math.round(info.pi).toLocaleString()}
+        {!info.exact && <span className="text-gray-400"> (li(n); exact up to 10¹⁰)</span>}
+        {info.prime && info.exact && <span className="text-gray-400"> — the {ordinal(info.pi)} prime</span>}
+      </div>
+      <div>
+        Previous prime: {info.prev === null ? '—' : <>{formatN(info.prev, origin)} <span className="text-gray-400">(gap {n - info.prev})</span></>}
+      </div>
+      <div>
+        Next prime: {formatN(info.next, origin)} <span className="text-gray-400">(gap {info.next - n})</span>
+      </div>
+      <div className="text-xs text-gray-300">
+        {RESIDUE_MODULI.map((m, i) => (
+          <span key={m} className="inline-block mr-2">{info.residues[i]}<sub>mod {m}</sub></span>
+        ))}
+      </div>
+      <div className="text-xs">
+        {point
+          ? <>x {point.x.toFixed(3)}, y {point.y.toFixed(3)}, z {point.z.toFixed(3)}</>
+          : <span className="text-gray-400">Not in the current window</span>}
+      </div>
+      {neighbors.length > 0 && (
+        <div className="text-xs">
+          <span className="text-gray-400">Nearest dots:</span>{' '}
+          {neighbors.map(nb => (
+            <button key={nb.n} onClick={() => onSelect(nb.n)} className="mr-2 underline decoration-dotted hover:text-white" title={`distance ${nb.distance.toFixed(3)}`}>
+              {formatN(nb.n, origin)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Card for a Gaussian or Eisenstein integer: norm, factorization over the ring and how its rational prime splits. */
+function LatticeCard({ n, lattice, point, neighbors, onRemove, onSelect, onCenter }: {
+  n: number;
+  lattice: LatticeWindow;
+  point: Point3D | undefined;
+  neighbors: Neighbor[];
+  onRemove: () => void;
+  onSelect: (n: number) => void;
+  onCenter: () => void;
+}) {
+  const { ring } = lattice;
+  const info = useMemo(() => {
+    // Selections are trimmed when the norm bound shrinks, but this render may still carry the old n
+    if (n < 1 || n > lattice.size) return null;
+    const z = elementAt(lattice, n);
+    const norm = lattice.norms[n - 1];
+    const prime = lattice.primes.has(n);
+    // A prime lies over p = N(π), or over p = √N(π) when it is p itself up to a unit
+    const p = prime ? (Number.isInteger(Math.sqrt(norm)) ? Math.sqrt(norm) : norm) : null;
+    const splitting = p === null ? null : ring.inert(p) ? `stays prime (${ring.inertRule})` : primesAbove(ring, p).length === 1 ? 'ramifies' : 'splits into two conjugate primes';
+    return {
+      z, norm, prime, p, splitting,
+      factors: norm === 1 ? null : formatFactorization(ring, factorElement(ring, z)),
+      associates: associates(ring, z).slice(1).map(w => formatElement(ring, w)),
+      conjugate: formatElement(ring, ring.conj(z)),
+    };
+  }, [n, lattice]);
+  const name = (m: number) => formatElement(ring, elementAt(lattice, m));
+  if (!info) return null;
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-lg p-3 text-sm text-gray-200 space-y-1">
+      <div className="flex items-center justify-between">
+        <div className="text-white font-semibold text-base break-all">{formatElement(ring, info.z)}</div>
+        <div className="flex items-center gap-1">
+          <button onClick={onCenter} className="text-gray-300 hover:text-white p-1" title="Center the camera on this element"><Crosshair size={14} /></button>
+          <button onClick={onRemove} className="text-gray-300 hover:text-white p-1" title="Deselect"><X size={14} /></button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        <span className={`px-1.5 rounded text-xs ${info.prime ? 'bg-emerald-500/40' : 'bg-white/10'}`}>
+          {info.norm === 1 ? 'Unit' : info.prime ? `${ring.label} prime` : 'Composite'}
+        </span>
+      </div>
+      <div>Norm: {info.norm.toLocaleString()}</div>
+      {info.factors && <div>Factorization: {info.factors}</div>}
+      {info.p !== null && <div>Lies over {info.p.toLocaleString()}, which {info.splitting}</div>}
+      <div className="text-xs text-gray-300">
+        Associates: {info.associates.join(', ')} <span className="text-gray-400">· conjugate {info.conjugate}</span>
+      </div>
+      <div className="text-xs">
+        {point
+          ? <>x {point.x.toFixed(3)}, y {point.y.toFixed(3)}, z {point.z.toFixed(3)}</>
+          : <span className="text-gray-400">Not drawn</span>}
+      </div>
+      {neighbors.length > 0 && (
+        <div className="text-xs">
+          <span className="text-gray-400">Nearest dots:</span>{' '}
+          {neighbors.map(nb => (
+            <button key={nb.n} onClick={() => onSelect(nb.n)} className="mr-2 underline decoration-dotted hover:text-white" title={`distance ${nb.distance.toFixed(3)}`}>
+              {name(nb.n)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ordinal(k: number): string {
+  const s = ['th', 'st', 'nd', 'rd'], v = k % 100;
+  return k.toLocaleString() + (s[(v - 20) % 10] || s[v] || s[0]);
+}
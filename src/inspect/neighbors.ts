@@ -0,0 +1,44 @@
+import type { Point3D } from '../geometry/types';
+
+/* -------------------- Point lookup -------------------- */
+/** Index of n in `points` (generators emit ascending n, possibly with gaps), or −1. */
+export function findPointIndex(points: ArrayLike<Point3D>, n: number): number {
+  let lo = 0, hi = points.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const m = points[mid].n;
+    if (m === n) return mid;
+    if (m < n) lo = mid + 1; else hi = mid - 1;
+  }
+  return -1;
+}
+
+/* -------------------- Spatial neighbours -------------------- */
+export interface Neighbor {
+  n: number;
+  distance: number;
+}
+
+/**
+ * The k points closest to `points[index]` in world space that pass `accept`, nearest first. A
+ * brute-force scan with a sorted top-k buffer; `accept` only runs for candidates that would enter it.
+ */
+export function nearestNeighbors(points: ArrayLike<Point3D>, index: number, k: number, accept: (p: Point3D) => boolean): Neighbor[] {
+  const { x, y, z } = points[index];
+  const best: Neighbor[] = [];
+  let worst = Infinity;
+  for (let i = 0; i < points.length; i++) {
+    if (i === index) continue;
+    const p = points[i];
+    const dx = p.x - x, dy = p.y - y, dz = p.z - z;
+    const d2 = dx * dx + dy * dy + dz * dz;
+    if (best.length === k && d2 >= worst) continue;
+    if (!accept(p)) continue;
+    let j = best.length;
+    if (j === k) j--;
+    while (j > 0 && best[j - 1].distance > d2) { best[j] = best[j - 1]; j--; }
+    best[j] = { n: p.n, distance: d2 };
+    if (best.length === k) worst = best[k - 1].distance;
+  }
+  return best.map(b => ({ n: b.n, distance: Math.sqrt(b.distance) }));
+}
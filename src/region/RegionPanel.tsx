@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Copy, Download, Scissors, X } from 'lucide-react';
+import { downloadBlob } from '../download';
+import { CLIP_AXES, DEFAULT_CLIP, clipActive, describeClip, regionStats, type ClipAxis, type ClipState } from './region';
+
+interface RegionPanelProps {
+  clip: ClipState;
+  setClip: React.Dispatch<React.SetStateAction<ClipState>>;
+  /** What the range filter bounds: "n", or "Norm" in lattice domains. */
+  rangeLabel: string;
+  formatValue: (v: bigint) => string;
+  parseValue: (text: string) => bigint | null;
+  /** Numbers marked with the box or lasso tool. */
+  region: Set<number>;
+  clearRegion: () => void;
+  isPrime: (n: number) => boolean;
+  /** Residue class of n mod m: of n itself, or of its norm in lattice domains. */
+  residue: (n: number, m: number) => number;
+  /** n as written in the export ("1000003", "3+2i"). */
+  name: (n: number) => string;
+}
+
+const MAX_MODULUS = 30;
+
+/** Clipping planes, the n-range and the box/lasso region with its statistics and export. */
+export function RegionPanel({ clip, setClip, rangeLabel, formatValue, parseValue, region, clearRegion, isPrime, residue, name }: RegionPanelProps) {
+  const [modulus, setModulus] = useState(6);
+  const [copied, setCopied] = useState(false);
+  const stats = useMemo(
+    () => (region.size ? regionStats(region, isPrime, n => residue(n, modulus), modulus) : null),
+    [region, isPrime, residue, modulus],
+  );
+  const summary = describeClip(clip, rangeLabel, formatValue);
+  useEffect(() => setCopied(false), [region]);
+
+  const setAxis = (axis: ClipAxis, update: Partial<ClipState['axes'][ClipAxis]>) =>
+    setClip(c => ({ ...c, axes: { ...c.axes, [axis]: { ...c.axes[axis], ...update } } }));
+
+  // Exact values in window order, one per line
+  const listing = () => [...region].sort((a, b) => a - b).map(name).join('\n') + '\n';
+  const copy = () => {
+    navigator.clipboard?.writeText(listing()).then(() => setCopied(true), () => setCopied(false));
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
+      <h3 className="text-white font-semibold mb-3 flex items-center gap-2"><Scissors size={16} />Clip & Select</h3>
+      <div className="space-y-3 text-sm">
+        {CLIP_AXES.map(axis => {
+          const a = clip.axes[axis];
+          return (
+            <div key={axis}>
+              <label className="flex items-center gap-2 text-gray-300">
+                <input type="checkbox" checked={a.enabled} onChange={(e) => setAxis(axis, { enabled: e.target.checked })} />
+                Clip {axis}
+                {a.enabled && <span className="text-gray-400 text-xs">{Math.round(Math.min(a.from, a.to) * 100)}%–{Math.round(Math.max(a.from, a.to) * 100)}%</span>}
+              </label>
+              {a.enabled && (
+                <div className="grid grid-cols-2 gap-2 pl-6">
+                  <input
+                    type="range" min="0" max="1" step="0.01" value={a.from} aria-label={`Clip ${axis} from`}
+                    onChange={(e) => setAxis(axis, { from: Number(e.target.value) })}
+                  />
+                  <input
+                    type="range" min="0" max="1" step="0.01" value={a.to} aria-label={`Clip ${axis} to`}
+                    onChange={(e) => setAxis(axis, { to: Number(e.target.value) })}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="flex items-center gap-2 text-gray-300">
+          <span className="shrink-0">{rangeLabel}</span>
+          <RangeInput value={clip.min} placeholder="from" format={formatValue} parse={parseValue} onChange={min => setClip(c => ({ ...c, min }))} />
+          <span>…</span>
+          <RangeInput value={clip.max} placeholder="to" format={formatValue} parse={parseValue} onChange={max => setClip(c => ({ ...c, max }))} />
+        </div>
+
+        {clipActive(clip) && (
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>Showing {summary}</span>
+            <button onClick={() => setClip(DEFAULT_CLIP)} className="text-gray-300 hover:text-white">Reset</button>
+          </div>
+        )}
+
+        <div className="border-t border-white/10 pt-3">
+          {stats ? (
+            <>
+              <div className="flex items-center justify-between text-gray-300">
+                <span>Region: {stats.count.toLocaleString()} dots, {stats.primes.toLocaleString()} prime ({((stats.primes / stats.count) * 100).toFixed(1)}%)</span>
+                <button onClick={clearRegion} className="text-gray-400 hover:text-white" title="Clear the region" aria-label="Clear the region"><X size={14} /></button>
+              </div>
+              <label className="block text-gray-300 mt-2">
+                {rangeLabel} mod {modulus}
+                <input type="range" min="2" max={MAX_MODULUS} value={modulus} onChange={(e) => setModulus(Number(e.target.value))} className="w-full mt-1" />
+              </label>
+              <ResidueChart counts={stats.residues} primes={stats.primeResidues} />
+              <p className="text-gray-400 text-xs mt-1">Pale bars: dots of the region in each class; orange: the primes among them.</p>
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={() => downloadBlob(listing(), 'prime-spirals-region.txt', 'text/plain')}
+                  className="flex-1 flex items-center justify-center gap-1 bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded"
+                >
+                  <Download size={14} />List .txt
+                </button>
+                <button onClick={copy} className="flex-1 flex items-center justify-center gap-1 bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded">
+                  <Copy size={14} />{copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-gray-400 text-xs">
+              Pick the box or lasso tool above the view and drag around dots to mark a region (shift adds to it). Hidden dots behind the
+              outline are included, so clip first to reach inside.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Text field for one end of the range; keeps what is typed until it parses. */
+function RangeInput({ value, placeholder, format, parse, onChange }: {
+  value: bigint | null;
+  placeholder: string;
+  format: (v: bigint) => string;
+  parse: (text: string) => bigint | null;
+  onChange: (v: bigint | null) => void;
+}) {
+  const [text, setText] = useState(value === null ? '' : format(value));
+  useEffect(() => {
+    if (value === null ? text.trim() !== '' : parse(text) !== value) setText(value === null ? '' : format(value));
+  }, [value]);
+  const valid = text.trim() === '' || parse(text) !== null;
+  return (
+    <input
+      type="text" inputMode="numeric" value={text} placeholder={placeholder}
+      onChange={(e) => {
+        setText(e.target.value);
+        if (e.target.value.trim() === '') onChange(null);
+        else {
+          const v = parse(e.target.value);
+          if (v !== null) onChange(v);
+        }
+      }}
+      className={`w-full min-w-0 bg-white/10 text-white rounded px-2 py-1 border ${valid ? 'border-white/20' : 'border-red-400'}`}
+    />
+  );
+}
+
+/** Members per residue class, with the primes among them in front. */
+function ResidueChart({ counts, primes }: { counts: number[]; primes: number[] }) {
+  const W = 300, H = 80, max = Math.max(1, ...counts);
+  const bw = W / counts.length;
+  const y = (v: number) => H - (v / max) * (H - 12);
+  return (
+    <svg viewBox={`0 0 ${W} ${H + 12}`} className="w-full mt-1 bg-black/20 rounded">
+      {counts.map((c, r) => (
+        <g key={r}>
+          <title>{`≡ ${r}: ${c} dots, ${primes[r]} prime`}</title>
+          <rect x={r * bw + 1} y={y(c)} width={Math.max(1, bw - 2)} height={H - y(c)} fill="#60a5fa" fillOpacity={0.35} />
+          <rect x={r * bw + 1} y={y(primes[r])} width={Math.max(1, bw - 2)} height={H - y(primes[r])} fill="#f97316" />
+          {counts.length <= 16 && <text x={(r + 0.5) * bw} y={H + 10} fontSize="9" fill="#d1d5db" textAnchor="middle">{r}</text>}
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,145 @@
+import type { ProjectedFrame } from '../render/pointCloud';
+
+type XYZ = { n: number; x: number; y: number; z: number };
+
+/* -------------------- Clipping planes and the n-range -------------------- */
+export type ClipAxis = 'x' | 'y' | 'z';
+export const CLIP_AXES: ClipAxis[] = ['x', 'y', 'z'];
+
+/** The kept part of one axis, as fractions of the points' extent along it: [0, 1] keeps everything. */
+export interface AxisClip {
+  enabled: boolean;
+  from: number;
+  to: number;
+}
+
+export interface ClipState {
+  /** One plane per axis when only `from` or `to` moves, a slab when both do. */
+  axes: Record<ClipAxis, AxisClip>;
+  /** Inclusive bounds on the exact n (on the norm in lattice domains); null leaves that side open. */
+  min: bigint | null;
+  max: bigint | null;
+}
+
+export const DEFAULT_CLIP: ClipState = {
+  axes: {
+    x: { enabled: false, from: 0, to: 1 },
+    y: { enabled: false, from: 0, to: 1 },
+    z: { enabled: false, from: 0, to: 1 },
+  },
+  min: null,
+  max: null,
+};
+
+/** The n-range in the window's own terms: `valueOf(n)` is compared with lo … hi. */
+export interface RangeTest {
+  lo: number;
+  hi: number;
+  valueOf: (n: number) => number;
+}
+
+const activeAxes = (clip: ClipState) => CLIP_AXES.filter(a => clip.axes[a].enabled && (clip.axes[a].from > 0 || clip.axes[a].to < 1));
+
+export function clipActive(clip: ClipState): boolean {
+  return activeAxes(clip).length > 0 || clip.min !== null || clip.max !== null;
+}
+
+/**
+ * Which points survive the clipping planes and the n-range, or null when nothing is clipped. The planes
+ * sit at fractions of `points`' own bounds, so each geometry (and each comparison viewport) is cut alike.
+ */
+export function clipTest(points: ArrayLike<XYZ>, clip: ClipState, range: RangeTest | null): ((p: XYZ) => boolean) | null {
+  const axes = activeAxes(clip);
+  if (!axes.length && !range) return null;
+  const limits = axes.map((axis) => {
+    let lo = Infinity, hi = -Infinity;
+    for (let i = 0; i < points.length; i++) {
+      const v = points[i][axis];
+      if (v < lo) lo = v;
+      if (v > hi) hi = v;
+    }
+    const { from, to } = clip.axes[axis], span = hi - lo;
+    return { axis, lo: lo + Math.min(from, to) * span, hi: lo + Math.max(from, to) * span };
+  });
+  return (p) => {
+    for (const { axis, lo, hi } of limits) if (p[axis] < lo || p[axis] > hi) return false;
+    if (range) {
+      const v = range.valueOf(p.n);
+      if (v < range.lo || v > range.hi) return false;
+    }
+    return true;
+  };
+}
+
+const percent = (f: number) => `${Math.round(f * 100)}%`;
+
+/** "z 40%–60%, n 100 … 500": the active clips in words, for the panel and the view description. */
+export function describeClip(clip: ClipState, rangeLabel: string, format: (v: bigint) => string): string | null {
+  const parts = activeAxes(clip).map((axis) => {
+    const { from, to } = clip.axes[axis];
+    return `${axis} ${percent(Math.min(from, to))}–${percent(Math.max(from, to))}`;
+  });
+  if (clip.min !== null || clip.max !== null) {
+    parts.push(clip.max === null ? `${rangeLabel} ≥ ${format(clip.min!)}`
+      : clip.min === null ? `${rangeLabel} ≤ ${format(clip.max)}`
+        : `${rangeLabel} ${format(clip.min)} … ${format(clip.max)}`);
+  }
+  return parts.length ? parts.join(', ') : null;
+}
+
+/* -------------------- Box and lasso selection -------------------- */
+export type SelectTool = 'orbit' | 'box' | 'lasso';
+
+/** Even–odd test against a closed polygon given as [x0, y0, x1, y1, …]. */
+export function insidePolygon(x: number, y: number, polygon: ArrayLike<number>): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 2; i < polygon.length; j = i, i += 2) {
+    const xi = polygon[i], yi = polygon[i + 1], xj = polygon[j], yj = polygon[j + 1];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/** The rectangle spanned by two corners, as a polygon. */
+export function boxPolygon(x0: number, y0: number, x1: number, y1: number): number[] {
+  return [x0, y0, x1, y0, x1, y1, x0, y1];
+}
+
+/** n of every drawn dot whose centre falls inside the polygon, including dots hidden behind others. */
+export function selectInPolygon(frame: ProjectedFrame, polygon: ArrayLike<number>): number[] {
+  if (polygon.length < 6) return [];
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  for (let i = 0; i < polygon.length; i += 2) {
+    x0 = Math.min(x0, polygon[i]); x1 = Math.max(x1, polygon[i]);
+    y0 = Math.min(y0, polygon[i + 1]); y1 = Math.max(y1, polygon[i + 1]);
+  }
+  const { screen, radius, cloud } = frame;
+  const out: number[] = [];
+  for (let i = 0; i < cloud.count; i++) {
+    if (radius[i] === 0) continue;
+    const x = screen[i * 4], y = screen[i * 4 + 1];
+    if (x < x0 || x > x1 || y < y0 || y > y1) continue;
+    if (insidePolygon(x, y, polygon)) out.push(cloud.n[i]);
+  }
+  return out;
+}
+
+/* -------------------- Selection statistics -------------------- */
+export interface RegionStats {
+  count: number;
+  primes: number;
+  /** Members per residue class mod m, and the primes among them. */
+  residues: number[];
+  primeResidues: number[];
+}
+
+export function regionStats(members: Iterable<number>, isPrime: (n: number) => boolean, residue: (n: number) => number, modulus: number): RegionStats {
+  const stats: RegionStats = { count: 0, primes: 0, residues: new Array(modulus).fill(0), primeResidues: new Array(modulus).fill(0) };
+  for (const n of members) {
+    const r = residue(n), prime = isPrime(n);
+    stats.count++;
+    stats.residues[r]++;
+    if (prime) { stats.primes++; stats.primeResidues[r]++; }
+  }
+  return stats;
+}
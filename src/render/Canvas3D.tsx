@@ -0,0 +1,461 @@
+import React, { useState, useMemo, useRef, useEffect, useId } from 'react';
+import { makeEyeProjector, anaglyphChannels, stereoEyes, type StereoOptions } from './stereo';
+import { projectCueLines, type DepthCues } from './depthCues';
+import { SPHERE_STOPS, dotStyle, glowBlur, lineColor, segmentPaths } from './svgRenderer';
+import {
+  IDENTITY, arcballRotate, arcballVector, boundsOf, dolly, fitToBounds, orbit, pan, type Camera, type Quat, type Vec3,
+} from './camera';
+import { packPointCloud, projectCloud, type HighlightLayer, type ProjectedFrame } from './pointCloud';
+import { buildScreenIndex, pickAt, type ScreenIndex } from './spatialIndex';
+import { drawFrame } from './canvasRenderer';
+import type { Coloring } from '../coloring/schemes';
+import { formatN, type Renderer } from '../state/viewState';
+import { findPointIndex } from '../inspect/neighbors';
+import { describeElement, type LatticeWindow } from '../domains/lattice';
+import { boxPolygon, selectInPolygon, type SelectTool } from '../region/region';
+import type { Point3D } from '../geometry/types';
+
+/* -------------------- 3D Canvas (SVG or batched 2D canvas) -------------------- */
+export interface Canvas3DProps {
+  points: Point3D[];
+  primes: Set<number>;
+  /** Far windows: what n counts from, for the exact values in tooltips. */
+  origin: bigint;
+  /** Gaussian or Eisenstein domains: tooltips name the element and its factorization instead of n. */
+  lattice: LatticeWindow | null;
+  showPrimes: boolean;
+  /** Visible sequence overlays, bottom to top. */
+  layers: HighlightLayer[];
+  colorOf: Coloring['colorOf'];
+  dotSize: number;
+  isAnimating: boolean;
+  animationSpeed: number;
+  resetSignal: number;
+  width: number;
+  height: number;
+  camera: Camera;
+  setCamera: React.Dispatch<React.SetStateAction<Camera>>;
+  showAllNumbers: boolean;
+  /** Clipping planes and the n-range: points failing it are neither drawn nor picked. */
+  keep: ((p: Point3D) => boolean) | null;
+  showAxes: boolean;
+  perspective: boolean;
+  /** Anaglyph or side-by-side pairs; each eye is drawn by the same renderer. */
+  stereo: StereoOptions;
+  cues: DepthCues;
+  renderer: Renderer;
+  /** Selected numbers, ringed in white; their spatial neighbours get a dashed ring. */
+  selected: number[];
+  neighbors: number[];
+  /** A click on a dot (or on empty space, n = null); `additive` when shift is held. */
+  onPick: (n: number | null, additive: boolean) => void;
+  /** The dot under the mouse as it moves, null when it leaves the dots. */
+  onHover?: (n: number | null) => void;
+  /** Box and lasso tools: a left drag outlines a region instead of rotating. */
+  tool: SelectTool;
+  /** The drawn dots inside an outlined region; `additive` when shift is held. */
+  onRegion: (ns: number[], additive: boolean) => void;
+  /** Accessible name of the focusable surface, and the id of the element describing it. */
+  label: string;
+  descriptionId?: string;
+}
+
+export function Canvas3D({
+  points, primes, origin, lattice, showPrimes, layers, colorOf, dotSize, isAnimating, animationSpeed, resetSignal,
+  width, height, camera, setCamera, showAllNumbers, keep, showAxes, perspective, stereo, cues, renderer, selected, neighbors, onPick, onHover, tool, onRegion,
+  label, descriptionId
+}: Canvas3DProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const lastPos = useRef({ x: 0, y: 0 });
+  const downPos = useRef({ x: 0, y: 0 });
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  // One-finger/left drag turns the arcball from where it was grabbed; shift, right or middle drag pans.
+  const drag = useRef<{ mode: 'rotate' | 'pan'; start: Quat; from: Vec3 } | null>(null);
+  // Box and lasso tools: the outline being drawn, in local pixels [x0, y0, x1, y1, …]
+  const [outline, setOutline] = useState<number[] | null>(null);
+
+  const [tooltip, setTooltip] = useState<null | { x: number; y: number; label: string }>(null);
+  const pinch = useRef<{ startDist: number; startDistance: number; mid: { x: number; y: number } } | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const frameRefs = useRef<(ProjectedFrame | null)[]>([]);
+  const hitIndex = useRef<ScreenIndex | null>(null);
+  const clipId = useId().replace(/:/g, '');
+  const dpr = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+
+  // Reset to the front view framing all points (not on mount, so a camera restored from the URL survives)
+  const mounted = useRef(false);
+  useEffect(() => {
+    if (!mounted.current) { mounted.current = true; return; }
+    setCamera(c => fitToBounds({ ...c, orientation: IDENTITY }, boundsOf(points)));
+  }, [resetSignal]);
+
+  // rAF animation
+  useEffect(() => {
+    let raf = 0;
+    let last = performance.now();
+    const tick = (t: number) => {
+      const dt = Math.min(32, t - last);
+      last = t;
+      if (isAnimating) setCamera(c => orbit(c, 0.001 * animationSpeed * dt, 0.0005 * animationSpeed * dt));
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [isAnimating, animationSpeed, setCamera]);
+
+  // Projection: one projector per eye image (just the mono view when stereo is off)
+  const eyes = useMemo(() => stereoEyes(stereo.mode, width), [stereo.mode, width]);
+  const projectors = useMemo(
+    () => eyes.map(e => makeEyeProjector({ width: e.width, height, camera, perspective }, e.eye, stereo, e.x)),
+    [eyes, height, camera, perspective, stereo]
+  );
+  const anaglyph = stereo.mode === 'anaglyph';
+  const splitView = eyes.length > 1 && !anaglyph;
+  const shading = cues.shading.enabled ? cues.shading.intensity : 0;
+  const glow = cues.glow.enabled ? cues.glow.intensity : 0;
+
+  // Points: packed once per geometry/filter change, projected into typed arrays per frame
+  const cloud = useMemo(
+    () => packPointCloud(points, { primes, showPrimes, layers, showAllNumbers, keep, colorOf }),
+    [points, primes, showPrimes, layers, showAllNumbers, keep, colorOf]
+  );
+  const frames = useMemo(() => projectors.map((projector, k) => {
+    const next = projectCloud(cloud, projector, dotSize, frameRefs.current[k]);
+    frameRefs.current[k] = next;
+    return next;
+  }), [cloud, projectors, dotSize]);
+  const frame = frames[0];
+  // The path runs through every number, so it is projected from `points` rather than the packed dots
+  const lines = useMemo(
+    () => projectors.map(projector => projectCueLines(cues, points, primes, projector, keep)),
+    [cues, points, primes, projectors, keep]
+  );
+
+  useEffect(() => {
+    if (renderer !== 'canvas') return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    frames.forEach((f, k) => drawFrame(ctx, f, {
+      dpr,
+      clear: k === 0,
+      columns: splitView ? [eyes[k].x, eyes[k].x + eyes[k].width] : undefined,
+      channels: anaglyph ? anaglyphChannels(k) : undefined,
+      cues,
+      ...lines[k],
+    }));
+  }, [renderer, frames, lines, cues, dpr, width, height]);
+
+  // Hit-testing through a screen-space grid, rebuilt lazily for the frame under the pointer. In a
+  // stereo pair that is the half under it; anaglyphs pick in the left eye's image.
+  const frameAt = (x: number) => frames[Math.max(0, eyes.findIndex(e => x >= e.x && x < e.x + e.width))];
+  const slotAt = (e: React.MouseEvent<Element>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left, target = frameAt(x);
+    if (!hitIndex.current || hitIndex.current.frame !== target) {
+      hitIndex.current = buildScreenIndex(target, width, height);
+    }
+    return pickAt(hitIndex.current, x, e.clientY - rect.top);
+  };
+
+  const hoverAt = (e: React.PointerEvent<Element>) => {
+    const slot = slotAt(e);
+    onHover?.(slot < 0 ? null : frame.cloud.n[slot]);
+    if (slot < 0) { setTooltip(null); return; }
+    const { screen } = frameAt(local(e).x);
+    setTooltip({ x: screen[slot * 4], y: screen[slot * 4 + 1], label: describe(frame.cloud.n[slot]) });
+  };
+
+  // "n · Prime · Twin primes": every visible layer the number belongs to
+  const describe = (n: number) => {
+    const tags = layers.filter(l => l.has(n)).map(l => l.label);
+    if (primes.has(n)) tags.unshift('Prime');
+    return [lattice ? describeElement(lattice, n) : formatN(n, origin), ...tags].join(' · ');
+  };
+
+  const local = (e: React.PointerEvent<Element>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const midpoint = () => {
+    const [a, b] = [...pointers.current.values()];
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<Element>) => {
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 1) {
+      setIsDragging(true);
+      setTooltip(null);
+      lastPos.current = downPos.current = { x: e.clientX, y: e.clientY };
+      const { x, y } = local(e);
+      if (tool !== 'orbit' && e.button === 0) {
+        drag.current = null;
+        setOutline([x, y]);
+        return;
+      }
+      const panning = e.shiftKey || e.button === 1 || e.button === 2;
+      drag.current = { mode: panning ? 'pan' : 'rotate', start: camera.orientation, from: arcballVector(x, y, width, height) };
+    } else if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      const dx = a.x - b.x, dy = a.y - b.y;
+      pinch.current = { startDist: Math.hypot(dx, dy), startDistance: camera.distance, mid: midpoint() };
+      drag.current = null;
+      setOutline(null);
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent<Element>) => {
+    if (!pointers.current.has(e.pointerId)) {
+      if (e.pointerType === 'mouse') hoverAt(e);
+      return;
+    }
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (outline) {
+      const { x, y } = local(e);
+      setOutline(o => o && (tool === 'box' ? [o[0], o[1], x, y] : [...o, x, y]));
+      return;
+    }
+    if (pointers.current.size === 1 && isDragging && drag.current) {
+      const dx = e.clientX - lastPos.current.x;
+      const dy = e.clientY - lastPos.current.y;
+      lastPos.current = { x: e.clientX, y: e.clientY };
+      const { mode, start, from } = drag.current;
+      if (mode === 'pan') {
+        setCamera(c => pan(c, dx, dy, width, height));
+      } else {
+        const { x, y } = local(e);
+        const to = arcballVector(x, y, width, height);
+        setCamera(c => arcballRotate(c, start, from, to));
+      }
+    } else if (pointers.current.size === 2 && pinch.current) {
+      // Two fingers: spread to dolly, move together to pan
+      const [a, b] = [...pointers.current.values()];
+      const dx = a.x - b.x, dy = a.y - b.y;
+      const dist = Math.hypot(dx, dy);
+      const factor = Math.max(1, pinch.current.startDist) / Math.max(1, dist);
+      const mid = midpoint();
+      const moved = { x: mid.x - pinch.current.mid.x, y: mid.y - pinch.current.mid.y };
+      pinch.current.mid = mid;
+      const startDistance = pinch.current.startDistance;
+      setCamera(c => pan(dolly({ ...c, distance: startDistance }, factor), moved.x, moved.y, width, height));
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<Element>) => {
+    // A press that barely moved is a click: select the dot under it
+    const wasClick = e.type === 'pointerup' && e.button === 0 && pointers.current.size === 1 && (drag.current !== null || outline !== null)
+      && Math.hypot(e.clientX - downPos.current.x, e.clientY - downPos.current.y) < 4;
+    if (outline && !wasClick && e.type === 'pointerup') {
+      const polygon = tool === 'box' ? boxPolygon(outline[0], outline[1], outline[2] ?? outline[0], outline[3] ?? outline[1]) : outline;
+      // Stereo pairs select in the half the outline started in
+      onRegion(selectInPolygon(frameAt(outline[0]), polygon), e.shiftKey);
+    }
+    setOutline(null);
+    if (wasClick) {
+      const slot = slotAt(e);
+      onPick(slot < 0 ? null : frame.cloud.n[slot], e.shiftKey);
+    }
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinch.current = null;
+    if (pointers.current.size === 0) { setIsDragging(false); drag.current = null; }
+  };
+
+  const onWheel = (e: React.WheelEvent<Element>) => {
+    e.preventDefault();
+    const k = e.ctrlKey ? 0.0025 : 0.001;
+    setCamera(c => dolly(c, Math.exp(e.deltaY * k)));
+  };
+
+  // Double-click a dot to orbit around it from then on
+  const onDoubleClick = (e: React.MouseEvent<Element>) => {
+    const slot = slotAt(e);
+    if (slot < 0) return;
+    const { xyz } = frame.cloud;
+    setCamera(c => ({ ...c, target: [xyz[slot * 3], xyz[slot * 3 + 1], xyz[slot * 3 + 2]] }));
+  };
+
+  const surfaceHandlers = {
+    tabIndex: 0,
+    role: 'img',
+    'aria-label': label,
+    'aria-describedby': descriptionId,
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel: onPointerUp,
+    onPointerLeave: () => { setTooltip(null); onHover?.(null); },
+    onWheel,
+    onDoubleClick,
+    onContextMenu: (e: React.MouseEvent) => e.preventDefault(),
+  };
+
+  // Axes, clipped to the near plane like the points
+  const axes = useMemo(() => {
+    if (!showAxes) return null;
+    const L = 8; // axis half-length in world units
+    const o = { x: 0, y: 0, z: 0 };
+    return projectors.flatMap((projector, k) => [
+      { label: 'X', key: `X${k}`, seg: projector.projectSegment({ ...o, x: -L }, { ...o, x: L }) },
+      { label: 'Y', key: `Y${k}`, seg: projector.projectSegment({ ...o, y: -L }, { ...o, y: L }) },
+      { label: 'Z', key: `Z${k}`, seg: projector.projectSegment({ ...o, z: -L }, { ...o, z: L }) },
+    ]);
+  }, [projectors, showAxes]);
+
+  // Selection rings, drawn over either renderer
+  const rings = useMemo(() => {
+    const chosen = new Set(selected);
+    return projectors.flatMap((projector, eye) => {
+      const ring = (n: number, kind: 'selected' | 'neighbor') => {
+        const i = findPointIndex(points, n);
+        if (i < 0 || (keep && !keep(points[i]))) return null;
+        const s = projector.project(points[i]);
+        return s.p > 0 ? { n, kind, eye, x: s.x, y: s.y, r: Math.max(1, dotSize * s.p) + 4 } : null;
+      };
+      return [
+        ...neighbors.filter(n => !chosen.has(n)).map(n => ring(n, 'neighbor')),
+        ...selected.map(n => ring(n, 'selected')),
+      ];
+    }).filter(r => r !== null);
+  }, [points, projectors, selected, neighbors, dotSize, keep]);
+
+  const ringLayer = rings.map(r => (
+    <circle
+      key={`${r.kind}-${r.n}-${r.eye}`} cx={r.x} cy={r.y} r={r.r} fill="none"
+      stroke={r.kind === 'selected' ? 'white' : '#fde047'}
+      strokeWidth={r.kind === 'selected' ? 2 : 1.5}
+      strokeDasharray={r.kind === 'neighbor' ? '3 2' : undefined}
+    />
+  ));
+
+  const outlineLayer = outline && outline.length >= 4 && (
+    <polygon
+      points={(tool === 'box' ? boxPolygon(outline[0], outline[1], outline[2], outline[3]) : outline).join(' ')}
+      fill="#f97316" fillOpacity={0.12} stroke="#f97316" strokeWidth={1.5} strokeDasharray="4 3" pointerEvents="none"
+    />
+  );
+
+  const axesLayer = axes && axes.map(({ label, key, seg }) => seg && (
+    <g key={key}>
+      <line x1={seg[0].x} y1={seg[0].y} x2={seg[1].x} y2={seg[1].y} stroke="white" strokeOpacity="0.35" strokeWidth="1"/>
+      <text x={seg[1].x + 6} y={seg[1].y - 6} fontSize="10" fill="white" fillOpacity="0.6">{label}</text>
+    </g>
+  ));
+
+  return (
+    <div className="relative">
+      {renderer === 'svg' ? (
+        <svg
+          width={width}
+          height={height}
+          className="border border-gray-300 bg-gray-900 touch-pan-y focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+          style={{ display: 'block', width: '100%', height: '100%', cursor: tool === 'orbit' ? undefined : 'crosshair' }}
+          {...surfaceHandlers}
+        >
+          {/* Axes */}
+          {axesLayer}
+
+          {/* Points, one group per eye: stereo pairs clip to their half, anaglyphs screen the cyan eye over the red one */}
+          <defs>
+            {splitView && eyes.map((e, k) => (
+              <clipPath key={k} id={`${clipId}-${k}`}><rect x={e.x} y={0} width={e.width} height={height} /></clipPath>
+            ))}
+            {shading > 0 && (
+              <radialGradient id={`${clipId}-sphere`} fx="0.3" fy="0.3">
+                {SPHERE_STOPS.map(([offset, color, opacity]) => <stop key={offset} offset={offset} stopColor={color} stopOpacity={opacity} />)}
+              </radialGradient>
+            )}
+            {glow > 0 && (
+              <filter id={`${clipId}-glow`} x="-100%" y="-100%" width="300%" height="300%"><feGaussianBlur stdDeviation={glowBlur(glow)} /></filter>
+            )}
+          </defs>
+          {frames.map((f, k) => {
+            const channels = anaglyph ? anaglyphChannels(k) : undefined;
+            return (
+              <g
+                key={k}
+                clipPath={splitView ? `url(#${clipId}-${k})` : undefined}
+                style={anaglyph && k > 0 ? { mixBlendMode: 'screen' } : undefined}
+              >
+                {/* Path and prime links under the dots, one <path> per fog band */}
+                {(['path', 'links'] as const).map(kind => {
+                  const segments = lines[k][kind];
+                  return segments && segmentPaths(segments, f, cues.fog).map(({ d, fade }, band) => (
+                    <path key={`${kind}-${band}`} d={d} fill="none" stroke={lineColor(kind, channels)} strokeWidth={1} strokeOpacity={cues[kind].intensity * fade} />
+                  ));
+                })}
+
+                {glow > 0 && (
+                  <g filter={`url(#${clipId}-glow)`} opacity={glow} pointerEvents="none">
+                    {Array.from(f.order, (i) => {
+                      if (f.radius[i] === 0 || !(f.cloud.prime[i] || f.cloud.layer[i])) return null;
+                      return <circle key={f.cloud.n[i]} cx={f.screen[i * 4]} cy={f.screen[i * 4 + 1]} r={f.radius[i] * 2} fill={dotStyle(f, i, cues.fog, channels).fill} />;
+                    })}
+                  </g>
+                )}
+
+                {Array.from(f.order, (i) => {
+                  if (f.radius[i] === 0) return null;
+                  const n = f.cloud.n[i];
+                  const { fill, opacity } = dotStyle(f, i, cues.fog, channels);
+                  const cx = f.screen[i * 4], cy = f.screen[i * 4 + 1], r = f.radius[i];
+                  return (
+                    <g key={n}>
+                      <circle cx={cx} cy={cy} r={r} fill={fill} opacity={opacity}>
+                        <title>{describe(n)}</title>
+                      </circle>
+                      {shading > 0 && <circle cx={cx} cy={cy} r={r} fill={`url(#${clipId}-sphere)`} opacity={shading} pointerEvents="none" />}
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+
+          {ringLayer}
+          {outlineLayer}
+        </svg>
+      ) : (
+        <>
+          <canvas
+            ref={canvasRef}
+            width={Math.round(width * dpr)}
+            height={Math.round(height * dpr)}
+            className="border border-gray-300 bg-gray-900 touch-pan-y focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+            style={{ display: 'block', width: '100%', height: '100%', cursor: tool === 'orbit' ? undefined : 'crosshair' }}
+            {...surfaceHandlers}
+          />
+          {(axesLayer || rings.length > 0 || outlineLayer) && (
+            <svg width={width} height={height} className="pointer-events-none absolute inset-0">
+              {axesLayer}
+              {ringLayer}
+              {outlineLayer}
+            </svg>
+          )}
+        </>
+      )}
+
+      <div className="absolute top-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-sm">
+        Highlighted: {frame.highlightCount.toLocaleString()} / {points.length.toLocaleString()}
+      </div>
+      <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs">
+        {tool === 'orbit'
+          ? 'Click to inspect (shift adds) • Drag to rotate • Shift/right-drag to pan • Scroll/Pinch to zoom • Double-click to orbit a dot'
+          : `Drag to draw a ${tool} around dots (shift adds) • Right-drag to pan • Scroll/Pinch to zoom • Click to inspect`}
+      </div>
+
+      {/* Floating tooltip */}
+      {tooltip && (
+        <div
+          className="pointer-events-none absolute bg-white text-gray-900 text-xs px-2 py-1 rounded shadow"
+          style={{ left: tooltip.x + 10, top: tooltip.y + 10 }}
+        >
+          {tooltip.label}
+        </div>
+      )}
+    </div>
+  );
+}
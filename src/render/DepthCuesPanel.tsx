@@ -0,0 +1,56 @@
+import type { DepthCue, DepthCues, LinkKind } from './depthCues';
+
+interface DepthCuesPanelProps {
+  cues: DepthCues;
+  setCues: React.Dispatch<React.SetStateAction<DepthCues>>;
+}
+
+const CUES: { key: keyof DepthCues; label: string; hint: string }[] = [
+  { key: 'fog', label: 'Depth fog', hint: 'Far dots fade and darken' },
+  { key: 'shading', label: 'Sphere shading', hint: 'Dots lit like small balls' },
+  { key: 'path', label: 'Spiral path', hint: 'A line through every number in order' },
+  { key: 'links', label: 'Prime links', hint: 'Segments between primes along the curve' },
+  { key: 'glow', label: 'Glow', hint: 'A soft halo around highlighted numbers' },
+];
+
+/** One toggle and intensity slider per depth cue. */
+export function DepthCuesPanel({ cues, setCues }: DepthCuesPanelProps) {
+  const update = (key: keyof DepthCues, change: Partial<DepthCue> & { kind?: LinkKind }) =>
+    setCues(c => ({ ...c, [key]: { ...c[key], ...change } }));
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
+      <h3 className="text-white font-semibold mb-3">Depth cues</h3>
+      <div className="space-y-3 text-sm">
+        {CUES.map(({ key, label, hint }) => (
+          <div key={key}>
+            <label className="flex items-center gap-2 text-gray-300" title={hint}>
+              <input type="checkbox" checked={cues[key].enabled} onChange={(e) => update(key, { enabled: e.target.checked })} />
+              {label}
+            </label>
+            {cues[key].enabled && (
+              <div className="pl-6 space-y-1">
+                <input
+                  type="range" min="0.05" max="1" step="0.05" value={cues[key].intensity}
+                  onChange={(e) => update(key, { intensity: Number(e.target.value) })}
+                  className="w-full"
+                  aria-label={`${label} intensity`}
+                />
+                {key === 'links' && (
+                  <select
+                    value={cues.links.kind}
+                    onChange={(e) => update('links', { kind: e.target.value as LinkKind })}
+                    className="w-full bg-white/10 text-white rounded px-2 py-1 border border-white/20"
+                  >
+                    <option value="consecutive" className="text-gray-900">Consecutive primes</option>
+                    <option value="twin" className="text-gray-900">Twin-prime pairs</option>
+                  </select>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
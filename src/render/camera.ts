@@ -0,0 +1,163 @@
+/* -------------------- Quaternion helpers -------------------- */
+export type Vec3 = [number, number, number];
+/** Unit quaternion [x, y, z, w]. */
+export type Quat = [number, number, number, number];
+
+export const IDENTITY: Quat = [0, 0, 0, 1];
+
+export function quatMultiply(a: Quat, b: Quat): Quat {
+  const [ax, ay, az, aw] = a, [bx, by, bz, bw] = b;
+  return [
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw,
+    aw * bw - ax * bx - ay * by - az * bz,
+  ];
+}
+
+export function quatNormalize(q: Quat): Quat {
+  const len = Math.hypot(q[0], q[1], q[2], q[3]);
+  return len > 0 ? [q[0] / len, q[1] / len, q[2] / len, q[3] / len] : IDENTITY;
+}
+
+export function quatFromAxisAngle(axis: Vec3, angle: number): Quat {
+  const len = Math.hypot(axis[0], axis[1], axis[2]) || 1;
+  const s = Math.sin(angle / 2) / len;
+  return [axis[0] * s, axis[1] * s, axis[2] * s, Math.cos(angle / 2)];
+}
+
+/** The shortest rotation taking unit vector `a` onto unit vector `b`. */
+export function quatFromVectors(a: Vec3, b: Vec3): Quat {
+  const d = a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  if (d < -0.999999) {
+    // Opposite vectors: any perpendicular axis works
+    const axis: Vec3 = Math.abs(a[0]) < 0.9 ? [0, -a[2], a[1]] : [-a[2], 0, a[0]];
+    return quatFromAxisAngle(axis, Math.PI);
+  }
+  return quatNormalize([a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0], 1 + d]);
+}
+
+/** Rotation matrix (row-major 3×3) of a unit quaternion. */
+export function quatToMatrix([x, y, z, w]: Quat): number[] {
+  return [
+    1 - 2 * (y * y + z * z), 2 * (x * y - z * w), 2 * (x * z + y * w),
+    2 * (x * y + z * w), 1 - 2 * (x * x + z * z), 2 * (y * z - x * w),
+    2 * (x * z - y * w), 2 * (y * z + x * w), 1 - 2 * (x * x + y * y),
+  ];
+}
+
+/* -------------------- Camera -------------------- */
+/**
+ * An orbit camera. `orientation` rotates world offsets from `target` into view space, where x points
+ * right, y points down the screen and z points away from the eye; the eye sits at view z = −distance.
+ */
+export interface Camera {
+  orientation: Quat;
+  target: Vec3;
+  distance: number;
+  /** 35 mm-equivalent focal length, measured across the shorter side of the viewport. */
+  focalLength: number;
+}
+
+export const MIN_FOCAL_LENGTH = 15;
+export const MAX_FOCAL_LENGTH = 200;
+const FILM_HALF_HEIGHT = 12; // mm, half of 24 mm film
+const MIN_DISTANCE = 1e-4, MAX_DISTANCE = 1e9;
+
+/** Distance at which a 50 mm camera shows the old fixed `min(w, h) · 0.12` pixels per world unit. */
+const LEGACY_DISTANCE = 50 / FILM_HALF_HEIGHT / 0.24;
+
+export const DEFAULT_CAMERA: Camera = {
+  orientation: IDENTITY,
+  target: [0, 0, 0],
+  distance: LEGACY_DISTANCE,
+  focalLength: 50,
+};
+
+/** Focal length in pixels for a viewport: half the shorter side over tan(half field of view). */
+export function focalPixels(camera: Camera, width: number, height: number): number {
+  return (Math.min(width, height) / 2) * (camera.focalLength / FILM_HALF_HEIGHT);
+}
+
+/** The camera of the old "rotate about X, then about Y, then scale by zoom" projection. */
+export function cameraFromEuler(rx: number, ry: number, zoom: number): Camera {
+  const orientation = quatMultiply(quatFromAxisAngle([0, 1, 0], ry), quatFromAxisAngle([1, 0, 0], rx));
+  return { ...DEFAULT_CAMERA, orientation, distance: LEGACY_DISTANCE / Math.max(zoom, 1e-3) };
+}
+
+/** Rotates the camera about its own view axes (x: tilt, y: turn, z: roll) by the given angles. */
+export function orbit(camera: Camera, ax: number, ay: number, az = 0): Camera {
+  let q = camera.orientation;
+  if (ax) q = quatMultiply(quatFromAxisAngle([1, 0, 0], ax), q);
+  if (ay) q = quatMultiply(quatFromAxisAngle([0, 1, 0], ay), q);
+  if (az) q = quatMultiply(quatFromAxisAngle([0, 0, 1], az), q);
+  return { ...camera, orientation: quatNormalize(q) };
+}
+
+/** Moves the eye towards (factor < 1) or away from (factor > 1) the target. */
+export function dolly(camera: Camera, factor: number): Camera {
+  return { ...camera, distance: Math.max(MIN_DISTANCE, Math.min(MAX_DISTANCE, camera.distance * factor)) };
+}
+
+/** Slides the target so the scene follows a pointer moved by (dx, dy) pixels. */
+export function pan(camera: Camera, dx: number, dy: number, width: number, height: number): Camera {
+  const k = camera.distance / focalPixels(camera, width, height);
+  const m = quatToMatrix(camera.orientation);
+  // View-space offset (−dx, −dy, 0)·k back into world space with the transpose
+  const vx = -dx * k, vy = -dy * k;
+  const [tx, ty, tz] = camera.target;
+  return { ...camera, target: [tx + m[0] * vx + m[3] * vy, ty + m[1] * vx + m[4] * vy, tz + m[2] * vx + m[5] * vy] };
+}
+
+/* -------------------- Arcball -------------------- */
+/**
+ * Maps a pointer position onto the arcball (Shoemake's sphere glued to Holroyd's hyperbola), as a
+ * view-space unit vector facing the eye.
+ */
+export function arcballVector(x: number, y: number, width: number, height: number): Vec3 {
+  const r = Math.min(width, height) / 2;
+  const px = (x - width / 2) / r, py = (y - height / 2) / r;
+  const d2 = px * px + py * py;
+  const pz = d2 <= 0.5 ? Math.sqrt(1 - d2) : 0.5 / Math.sqrt(d2);
+  const len = Math.hypot(px, py, pz);
+  return [px / len, py / len, -pz / len];
+}
+
+/** The camera after dragging the arcball from `from` to `to`, starting at orientation `start`. */
+export function arcballRotate(camera: Camera, start: Quat, from: Vec3, to: Vec3): Camera {
+  return { ...camera, orientation: quatNormalize(quatMultiply(quatFromVectors(from, to), start)) };
+}
+
+/* -------------------- Fit to bounds -------------------- */
+export interface Bounds {
+  center: Vec3;
+  radius: number;
+}
+
+/** Bounding sphere around the axis-aligned box of the points (not minimal, but O(n) and stable). */
+export function boundsOf(points: ArrayLike<{ x: number; y: number; z: number }>): Bounds | null {
+  let x0 = Infinity, y0 = Infinity, z0 = Infinity, x1 = -Infinity, y1 = -Infinity, z1 = -Infinity;
+  for (let i = 0; i < points.length; i++) {
+    const { x, y, z } = points[i];
+    if (x < x0) x0 = x; if (x > x1) x1 = x;
+    if (y < y0) y0 = y; if (y > y1) y1 = y;
+    if (z < z0) z0 = z; if (z > z1) z1 = z;
+  }
+  if (!(x1 >= x0)) return null;
+  const center: Vec3 = [(x0 + x1) / 2, (y0 + y1) / 2, (z0 + z1) / 2];
+  let r2 = 0;
+  for (let i = 0; i < points.length; i++) {
+    const dx = points[i].x - center[0], dy = points[i].y - center[1], dz = points[i].z - center[2];
+    const d2 = dx * dx + dy * dy + dz * dz;
+    if (d2 > r2) r2 = d2;
+  }
+  return { center, radius: Math.sqrt(r2) };
+}
+
+/** Aims at the centre of `bounds` from just far enough away for the whole sphere to fit the shorter side. */
+export function fitToBounds(camera: Camera, bounds: Bounds | null, margin = 1.08): Camera {
+  if (!bounds) return camera;
+  const halfFov = Math.atan(FILM_HALF_HEIGHT / camera.focalLength);
+  const radius = Math.max(bounds.radius, 1e-3);
+  return { ...camera, target: bounds.center, distance: Math.min(MAX_DISTANCE, (radius * margin) / Math.sin(halfFov)) };
+}
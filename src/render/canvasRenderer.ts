@@ -0,0 +1,189 @@
+import type { ProjectedFrame } from './pointCloud';
+import { anaglyphColor, type AnaglyphChannels } from './stereo';
+import { LINK_COLOR, PATH_COLOR, fogAmount, sphereShades, type DepthCues, type Segments } from './depthCues';
+
+/* -------------------- Batched 2D-canvas rasterizer -------------------- */
+// Pixels are written straight into an ImageData buffer as little-endian RGBA words (0xAABBGGRR).
+const BACKGROUND = '#111827'; // Tailwind gray-900, matching the SVG backdrop
+
+/** Parses #rgb / #rrggbb; anything else falls back to white. */
+export function parseHexColor(color: string): [number, number, number] {
+  const m = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!m) return [255, 255, 255];
+  const hex = m[1].length === 3 ? m[1].replace(/./g, c => c + c) : m[1];
+  const v = parseInt(hex, 16);
+  return [(v >> 16) & 255, (v >> 8) & 255, v & 255];
+}
+
+const spanCache = new Map<number, Int16Array>();
+/** Half-widths of each row of a filled disk with integer radius `r`. */
+function diskSpans(r: number): Int16Array {
+  let spans = spanCache.get(r);
+  if (!spans) {
+    spans = new Int16Array(2 * r + 1);
+    for (let dy = -r; dy <= r; dy++) spans[dy + r] = Math.floor(Math.sqrt(r * r - dy * dy));
+    spanCache.set(r, spans);
+  }
+  return spans;
+}
+
+const imageCache = new WeakMap<CanvasRenderingContext2D, ImageData>();
+function backingImage(ctx: CanvasRenderingContext2D, W: number, H: number): ImageData {
+  let image = imageCache.get(ctx);
+  if (!image || image.width !== W || image.height !== H) {
+    image = ctx.createImageData(W, H);
+    imageCache.set(ctx, image);
+  }
+  return image;
+}
+
+export interface CanvasDrawOptions {
+  /** Device pixel ratio of the backing store. */
+  dpr: number;
+  /** Hex backdrop color, or null to leave the canvas transparent. */
+  background?: string | null;
+  /** False paints over the current contents (the second eye of a stereo view). Defaults to true. */
+  clear?: boolean;
+  /** Horizontal span [from, to) in CSS pixels the dots are clipped to; the whole canvas by default. */
+  columns?: [number, number];
+  /** Anaglyph pass: paint each dot's luminance into these channels only and leave the others alone. */
+  channels?: AnaglyphChannels;
+  /** Fog, sphere shading and glow; lines are drawn when their segments are passed too. */
+  cues?: DepthCues;
+  path?: Segments | null;
+  links?: Segments | null;
+}
+
+/**
+ * Paints a projected frame in one pass: clears to the backdrop, then stamps every dot in draw order
+ * with alpha blending, and uploads the buffer with a single `putImageData`. Path and link lines and
+ * glow halos go underneath all dots.
+ */
+export function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  frame: ProjectedFrame,
+  { dpr, background = BACKGROUND, clear = true, columns, channels, cues, path, links }: CanvasDrawOptions,
+) {
+  const W = ctx.canvas.width, H = ctx.canvas.height;
+  const image = backingImage(ctx, W, H);
+  const buf = new Uint32Array(image.data.buffer);
+  // Without clearing, the cached buffer still holds the previous pass
+  if (clear) {
+    const [br, bg, bb] = background ? parseHexColor(background) : [0, 0, 0];
+    buf.fill(background ? (0xff000000 | (bb << 16) | (bg << 8) | br) >>> 0 : 0);
+  }
+  const left = columns ? Math.max(0, Math.round(columns[0] * dpr)) : 0;
+  const right = columns ? Math.min(W, Math.round(columns[1] * dpr)) : W;
+  // Channels the pass leaves untouched, as a mask over the RGB bytes
+  const keep = channels === 'red' ? 0xffff00 : channels === 'cyan' ? 0x0000ff : 0;
+
+  /** Blends one color into pixel `idx` with `alpha` out of 256. */
+  const blend = (idx: number, cr: number, cg: number, cb: number, alpha: number) => {
+    const p = buf[idx];
+    const r0 = p & 255, g0 = (p >> 8) & 255, b0 = (p >> 16) & 255, a0 = p >>> 24;
+    if (keep) {
+      // Blend the pass's channels only; black in the others would darken the other eye's image.
+      // Anaglyphs are always opaque: a transparent pixel counts as black.
+      const blended = ((b0 + (((cb - b0) * alpha) >> 8)) << 16)
+        | ((g0 + (((cg - g0) * alpha) >> 8)) << 8)
+        | (r0 + (((cr - r0) * alpha) >> 8));
+      buf[idx] = (0xff000000 | (p & keep) | (blended & ~keep & 0xffffff)) >>> 0;
+    } else if (a0 === 255) {
+      buf[idx] = 0xff000000
+        | ((b0 + (((cb - b0) * alpha) >> 8)) << 16)
+        | ((g0 + (((cg - g0) * alpha) >> 8)) << 8)
+        | (r0 + (((cr - r0) * alpha) >> 8));
+    } else {
+      // Transparent backdrop: full "source over" with straight (unpremultiplied) alpha
+      const sa = alpha / 256, da = (a0 / 255) * (1 - sa), oa = sa + da;
+      buf[idx] = (Math.round(oa * 255) << 24)
+        | (Math.round((cb * sa + b0 * da) / oa) << 16)
+        | (Math.round((cg * sa + g0 * da) / oa) << 8)
+        | Math.round((cr * sa + r0 * da) / oa);
+    }
+  };
+
+  if (cues?.path.enabled && path) drawSegments(path, PATH_COLOR, cues.path.intensity);
+  if (cues?.links.enabled && links) drawSegments(links, LINK_COLOR, cues.links.intensity);
+
+  const { screen, radius, order, cloud } = frame;
+  const palette = cloud.layers.map(l => parseHexColor(l.color));
+  const glow = cues?.glow.enabled ? cues.glow.intensity : 0;
+  const shading = cues?.shading.enabled ? cues.shading.intensity : 0;
+  for (let pass = glow > 0 ? 0 : 1; pass < 2; pass++) {
+    for (let k = 0; k < order.length; k++) {
+      const i = order[k];
+      if (radius[i] === 0) continue;
+      const highlighted = cloud.prime[i] === 1 || cloud.layer[i] > 0;
+      if (pass === 0 && !highlighted) continue;
+      const px = Math.round(screen[i * 4] * dpr);
+      const py = Math.round(screen[i * 4 + 1] * dpr);
+      const dot = Math.max(1, Math.round(radius[i] * dpr));
+      // The glow pass stamps a wider, fading halo under the dots
+      const r = pass === 0 ? Math.round(dot * (2 + 3 * glow)) : dot;
+      if (px + r < left || py + r < 0 || px - r >= right || py - r >= H) continue;
+
+      // Same fills as the SVG circles: overlay color, else the scheme color (0.9 opacity for primes,
+      // 0.5 for other integers), else faint white.
+      let cr: number, cg: number, cb: number, alpha: number;
+      const rgb = cloud.color[i];
+      if (cloud.layer[i]) {
+        [cr, cg, cb] = palette[cloud.layer[i] - 1];
+        alpha = 230; // 0.9 × 256
+      } else if (rgb >= 0) {
+        cr = (rgb >> 16) & 255; cg = (rgb >> 8) & 255; cb = rgb & 255;
+        alpha = cloud.prime[i] ? 230 : 128;
+      } else {
+        cr = cg = cb = 255;
+        alpha = 26; // 0.2 fill × 0.5 opacity
+      }
+      if (channels) [cr, cg, cb] = anaglyphColor(cr, cg, cb, channels);
+      const fade = 1 - fogAmount(frame, screen[i * 4 + 2], cues?.fog);
+      if (fade < 1) {
+        cr *= fade; cg *= fade; cb *= fade;
+        alpha = Math.round(alpha * fade);
+      }
+
+      const spans = diskSpans(r);
+      const shades = shading > 0 && pass === 1 ? sphereShades(r) : null;
+      const size = 2 * r + 1;
+      for (let dy = -r; dy <= r; dy++) {
+        const y = py + dy;
+        if (y < 0 || y >= H) continue;
+        const half = spans[dy + r];
+        const x0 = Math.max(left, px - half), x1 = Math.min(right - 1, px + half);
+        let idx = y * W + x0;
+        for (let x = x0; x <= x1; x++, idx++) {
+          if (pass === 0) {
+            const d = Math.hypot(x - px, dy) / (r + 1);
+            blend(idx, cr, cg, cb, Math.round(alpha * glow * 0.5 * (1 - d) * (1 - d)));
+          } else if (shades) {
+            const s = 1 + (shades[(dy + r) * size + x - px + r] - 1) * shading;
+            blend(idx, Math.min(255, cr * s) | 0, Math.min(255, cg * s) | 0, Math.min(255, cb * s) | 0, alpha);
+          } else {
+            blend(idx, cr, cg, cb, alpha);
+          }
+        }
+      }
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+
+  /** One-pixel lines, stepped along the longer axis and faded with depth like the dots. */
+  function drawSegments({ data, count }: Segments, [lr, lg, lb]: [number, number, number], intensity: number) {
+    if (channels) [lr, lg, lb] = anaglyphColor(lr, lg, lb, channels);
+    for (let s = 0; s < count; s++) {
+      const o = s * 5;
+      const x0 = data[o] * dpr, y0 = data[o + 1] * dpr, x1 = data[o + 2] * dpr, y1 = data[o + 3] * dpr;
+      if ((x0 < left && x1 < left) || (x0 >= right && x1 >= right) || (y0 < 0 && y1 < 0) || (y0 >= H && y1 >= H)) continue;
+      const fade = 1 - fogAmount(frame, data[o + 4], cues?.fog);
+      const alpha = Math.round(256 * intensity * fade);
+      const steps = Math.min(4 * (W + H), Math.ceil(Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0))));
+      for (let t = 0; t <= steps; t++) {
+        const x = Math.round(x0 + ((x1 - x0) * t) / Math.max(1, steps));
+        const y = Math.round(y0 + ((y1 - y0) * t) / Math.max(1, steps));
+        if (x >= left && x < right && y >= 0 && y < H) blend(y * W + x, lr * fade, lg * fade, lb * fade, alpha);
+      }
+    }
+  }
+}
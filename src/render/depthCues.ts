@@ -0,0 +1,146 @@
+import type { Projector } from './projection';
+import type { ProjectedFrame } from './pointCloud';
+
+/* -------------------- Depth cues -------------------- */
+export interface DepthCue {
+  enabled: boolean;
+  /** 0 … 1 */
+  intensity: number;
+}
+
+export type LinkKind = 'consecutive' | 'twin';
+
+export interface DepthCues {
+  /** Far dots and lines fade and darken. */
+  fog: DepthCue;
+  /** Dots are drawn as lit spheres instead of flat disks. */
+  shading: DepthCue;
+  /** A polyline through every number in order, i.e. along the spiral. */
+  path: DepthCue;
+  /** Segments joining consecutive primes or the two members of each twin-prime pair. */
+  links: DepthCue & { kind: LinkKind };
+  /** A soft halo around primes and overlay members. */
+  glow: DepthCue;
+}
+
+export const DEFAULT_DEPTH_CUES: DepthCues = {
+  fog: { enabled: false, intensity: 0.6 },
+  shading: { enabled: false, intensity: 0.7 },
+  path: { enabled: false, intensity: 0.3 },
+  links: { enabled: false, intensity: 0.5, kind: 'consecutive' },
+  glow: { enabled: false, intensity: 0.5 },
+};
+
+export const PATH_COLOR: [number, number, number] = [148, 163, 184]; // Tailwind slate-400
+export const LINK_COLOR: [number, number, number] = [250, 204, 21]; // Tailwind yellow-400
+
+// Fog never hides the farthest dots completely
+const MAX_FOG = 0.8;
+
+/** How much a point at screen depth z fades, 0 (nearest) … MAX_FOG · intensity (farthest). */
+export function fogAmount(frame: Pick<ProjectedFrame, 'zMin' | 'zMax'>, z: number, fog: DepthCue | undefined): number {
+  if (!fog?.enabled) return 0;
+  const span = frame.zMax - frame.zMin;
+  if (!(span > 0)) return 0;
+  return MAX_FOG * fog.intensity * Math.min(1, Math.max(0, (frame.zMax - z) / span));
+}
+
+/* -------------------- Sphere sprites -------------------- */
+// Lit from the upper left, slightly towards the viewer.
+const LIGHT = (() => {
+  const l = [-0.45, -0.55, 0.7];
+  const len = Math.hypot(l[0], l[1], l[2]);
+  return l.map(v => v / len);
+})();
+
+const shadeCache = new Map<number, Float32Array>();
+/**
+ * Brightness factors over the (2r + 1)² square of a disk with integer radius `r`: diffuse plus a
+ * small specular highlight of a unit sphere, ≈ 0.25 at the rim and up to 1.3 at the highlight.
+ */
+export function sphereShades(r: number): Float32Array {
+  let shades = shadeCache.get(r);
+  if (!shades) {
+    const size = 2 * r + 1;
+    shades = new Float32Array(size * size);
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        const nx = dx / (r + 0.5), ny = dy / (r + 0.5);
+        const nz = Math.sqrt(Math.max(0, 1 - nx * nx - ny * ny));
+        const diffuse = Math.max(0, nx * LIGHT[0] + ny * LIGHT[1] + nz * LIGHT[2]);
+        // Blinn–Phong with the eye on the view axis
+        const hx = LIGHT[0], hy = LIGHT[1], hz = LIGHT[2] + 1, hl = Math.hypot(hx, hy, hz);
+        const specular = Math.pow(Math.max(0, (nx * hx + ny * hy + nz * hz) / hl), 24);
+        shades[(dy + r) * size + dx + r] = 0.25 + 0.75 * diffuse + 0.3 * specular;
+      }
+    }
+    shadeCache.set(r, shades);
+  }
+  return shades;
+}
+
+/* -------------------- Path and prime links -------------------- */
+/** Screen segments, [x0, y0, x1, y1, depth] each. */
+export interface Segments {
+  data: Float32Array;
+  count: number;
+}
+
+// The path through ten million numbers would be a solid smear; longer windows are sampled.
+export const MAX_PATH_SEGMENTS = 200_000;
+
+type XYZ = { x: number; y: number; z: number };
+
+function collect(pairs: (emit: (a: XYZ, b: XYZ) => void) => void, projector: Projector, capacity: number): Segments {
+  const data = new Float32Array(capacity * 5);
+  let count = 0;
+  pairs((a, b) => {
+    if (count >= capacity) return;
+    const seg = projector.projectSegment(a, b);
+    if (!seg) return;
+    const o = count++ * 5;
+    data[o] = seg[0].x; data[o + 1] = seg[0].y;
+    data[o + 2] = seg[1].x; data[o + 3] = seg[1].y;
+    data[o + 4] = (seg[0].z + seg[1].z) / 2;
+  });
+  return { data, count };
+}
+
+/** The spiral path: every number joined to the next, sampled evenly past MAX_PATH_SEGMENTS; clipped ends drop the segment. */
+export function projectPath<P extends XYZ>(points: ArrayLike<P>, projector: Projector, keep?: ((p: P) => boolean) | null): Segments {
+  const stride = Math.max(1, Math.ceil((points.length - 1) / MAX_PATH_SEGMENTS));
+  return collect(emit => {
+    for (let i = stride; i < points.length; i += stride) {
+      if (!keep || (keep(points[i - stride]) && keep(points[i]))) emit(points[i - stride], points[i]);
+    }
+  }, projector, Math.ceil(points.length / stride));
+}
+
+/** Consecutive primes of the window joined in order, or each twin pair (p, p + 2) joined; clipped primes are skipped. */
+export function projectPrimeLinks(
+  points: ArrayLike<{ n: number; x: number; y: number; z: number }>, primes: Set<number>, kind: LinkKind, projector: Projector,
+  keep?: ((p: { n: number; x: number; y: number; z: number }) => boolean) | null,
+): Segments {
+  return collect(emit => {
+    let previous: XYZ | null = null;
+    let previousN = -Infinity;
+    for (let i = 0; i < points.length; i++) {
+      const p = points[i];
+      if (!primes.has(p.n) || (keep && !keep(p))) continue;
+      if (previous && (kind === 'consecutive' || p.n - previousN === 2)) emit(previous, p);
+      previous = p;
+      previousN = p.n;
+    }
+  }, projector, Math.min(points.length, primes.size));
+}
+
+/** The enabled line sets of `cues` for one projection. */
+export function projectCueLines(
+  cues: DepthCues, points: ArrayLike<{ n: number; x: number; y: number; z: number }>, primes: Set<number>, projector: Projector,
+  keep?: ((p: { n: number; x: number; y: number; z: number }) => boolean) | null,
+): { path: Segments | null; links: Segments | null } {
+  return {
+    path: cues.path.enabled ? projectPath(points, projector, keep) : null,
+    links: cues.links.enabled ? projectPrimeLinks(points, primes, cues.links.kind, projector, keep) : null,
+  };
+}
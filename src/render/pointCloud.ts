@@ -0,0 +1,139 @@
+import type { Projector } from './projection';
+
+/* -------------------- Highlight layers -------------------- */
+/** An overlay sequence as the renderers see it: a label, a color and a membership test. */
+export interface HighlightLayer {
+  id: string;
+  label: string;
+  /** CSS hex color (#rgb or #rrggbb). */
+  color: string;
+  has: (n: number) => boolean;
+}
+
+/* -------------------- Packed point cloud (typed arrays) -------------------- */
+export interface PointCloud {
+  count: number;
+  /** Index of each packed slot in the source `points` array. */
+  source: Uint32Array;
+  n: Float64Array;
+  /** World coordinates, interleaved [x, y, z]. */
+  xyz: Float32Array;
+  /** 1 when the slot is drawn as a prime (prime and the primes layer is shown). */
+  prime: Uint8Array;
+  /** 1 + index into `layers` of the topmost overlay containing the slot, 0 for none. */
+  layer: Uint8Array;
+  layers: HighlightLayer[];
+  /** Packed 0xRRGGBB from the active color scheme, −1 for the neutral fill. */
+  color: Int32Array;
+}
+
+export interface PackOptions {
+  primes: Set<number>;
+  showPrimes: boolean;
+  /** Visible overlays; later layers paint over earlier ones. */
+  layers: HighlightLayer[];
+  showAllNumbers: boolean;
+  /** Clipping planes and range filters: points failing it are left out whatever they belong to. */
+  keep?: ((p: { n: number; x: number; y: number; z: number }) => boolean) | null;
+  /** Color scheme for non-overlay dots: packed RGB or −1. */
+  colorOf: (p: { n: number; x: number; y: number; z: number }, prime: boolean) => number;
+}
+
+/** Packs the visible points once per geometry/filter change so per-frame work never touches objects. */
+export function packPointCloud(
+  points: ArrayLike<{ n: number; x: number; y: number; z: number }>,
+  { primes, showPrimes, layers, showAllNumbers, keep, colorOf }: PackOptions,
+): PointCloud {
+  const total = points.length;
+  const source = new Uint32Array(total);
+  const n = new Float64Array(total);
+  const xyz = new Float32Array(total * 3);
+  const prime = new Uint8Array(total);
+  const layer = new Uint8Array(total);
+  const color = new Int32Array(total);
+  let count = 0;
+  for (let i = 0; i < total; i++) {
+    const p = points[i];
+    if (keep && !keep(p)) continue;
+    const isPrime = showPrimes && primes.has(p.n);
+    let top = 0;
+    for (let l = layers.length - 1; l >= 0; l--) {
+      if (layers[l].has(p.n)) { top = l + 1; break; }
+    }
+    if (!isPrime && !top && !showAllNumbers) continue;
+    source[count] = i;
+    n[count] = p.n;
+    xyz[count * 3] = p.x;
+    xyz[count * 3 + 1] = p.y;
+    xyz[count * 3 + 2] = p.z;
+    prime[count] = isPrime ? 1 : 0;
+    layer[count] = top;
+    color[count] = top ? -1 : colorOf(p, isPrime);
+    count++;
+  }
+  return {
+    count,
+    source: source.subarray(0, count),
+    n: n.subarray(0, count),
+    xyz: xyz.subarray(0, count * 3),
+    prime: prime.subarray(0, count),
+    layer: layer.subarray(0, count),
+    layers,
+    color: color.subarray(0, count),
+  };
+}
+
+/* -------------------- Projected frame -------------------- */
+export interface ProjectedFrame {
+  cloud: PointCloud;
+  /** Screen data per slot, interleaved [x, y, depth, perspective]. */
+  screen: Float32Array;
+  /** Dot radius in CSS pixels; 0 for slots clipped by the near plane, which are not drawn. */
+  radius: Float32Array;
+  /** Slots in draw order (ascending depth, last one is on top). */
+  order: Uint32Array;
+  /** Slots drawn as a prime or as a member of an overlay layer. */
+  highlightCount: number;
+  /** Depth range of the projected slots (nearest is zMax), for depth fog. */
+  zMin: number;
+  zMax: number;
+}
+
+const DEPTH_BUCKETS = 1024;
+
+/**
+ * Projects every slot of `cloud` and orders them back-to-front with a bucketed counting sort
+ * (O(n), stable within a bucket). Pass the previous frame as `reuse` to recycle its buffers.
+ */
+export function projectCloud(cloud: PointCloud, projector: Projector, dotSize: number, reuse?: ProjectedFrame | null): ProjectedFrame {
+  const { count, xyz, prime, layer } = cloud;
+  const recycle = reuse && reuse.cloud === cloud;
+  const screen = recycle ? reuse.screen : new Float32Array(count * 4);
+  const radius = recycle ? reuse.radius : new Float32Array(count);
+  const order = recycle ? reuse.order : new Uint32Array(count);
+
+  let zMin = Infinity, zMax = -Infinity, highlightCount = 0;
+  for (let i = 0; i < count; i++) {
+    projector.projectTo(xyz[i * 3], xyz[i * 3 + 1], xyz[i * 3 + 2], screen, i * 4);
+    const z = screen[i * 4 + 2];
+    if (z < zMin) zMin = z;
+    if (z > zMax) zMax = z;
+    const persp = screen[i * 4 + 3];
+    radius[i] = persp > 0 ? Math.max(1, dotSize * persp) : 0; // 0: clipped by the near plane
+    if (prime[i] || layer[i]) highlightCount++;
+  }
+
+  const bucketOf = new Uint32Array(count);
+  const starts = new Uint32Array(DEPTH_BUCKETS + 1);
+  const span = zMax - zMin;
+  const k = span > 0 ? (DEPTH_BUCKETS - 1) / span : 0;
+  for (let i = 0; i < count; i++) {
+    const b = ((screen[i * 4 + 2] - zMin) * k) | 0;
+    bucketOf[i] = b;
+    starts[b + 1]++;
+  }
+  for (let b = 0; b < DEPTH_BUCKETS; b++) starts[b + 1] += starts[b];
+  for (let i = 0; i < count; i++) order[starts[bucketOf[i]]++] = i;
+
+  return { cloud, screen, radius, order, highlightCount, zMin, zMax };
+}
@@ -0,0 +1,99 @@
+import { focalPixels, quatToMatrix, type Camera } from './camera';
+
+/* -------------------- Camera projection -------------------- */
+export interface ViewParams {
+  width: number;
+  height: number;
+  camera: Camera;
+  perspective: boolean;
+}
+
+export interface ProjectedPoint { x: number; y: number; z: number; p: number; }
+
+export interface Projector {
+  /**
+   * Project a single world point to screen space (x, y), depth key z (larger is nearer the eye, so
+   * ascending z is back to front) and perspective factor p (1 on the target plane). Points in front
+   * of the near plane come back with p = 0 and NaN screen coordinates.
+   */
+  project: (pt: { x: number; y: number; z: number }) => ProjectedPoint;
+  /** Same math as `project`, writing [x, y, z, p] into `out` at `offset` without allocating. */
+  projectTo: (x: number, y: number, z: number, out: Float32Array | Float64Array, offset: number) => void;
+  /** Projects a world-space segment clipped to the near plane, or null when it lies entirely behind it. */
+  projectSegment: (a: { x: number; y: number; z: number }, b: { x: number; y: number; z: number }) => [ProjectedPoint, ProjectedPoint] | null;
+  /** Screen pixels per world unit on the target plane. */
+  scale: number;
+}
+
+// Anything closer to the eye than this fraction of the orbit distance is clipped, which also caps
+// perspective dot growth at 1 / NEAR_FRACTION.
+const NEAR_FRACTION = 0.05;
+
+/** Orbit camera: rotate about the target, then a pinhole divide (or a flat scale when orthographic). */
+export function makeProjector({ width, height, camera, perspective }: ViewParams): Projector {
+  const cx = width / 2, cy = height / 2;
+  const f = focalPixels(camera, width, height);
+  const { distance } = camera;
+  const [tx, ty, tz] = camera.target;
+  const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = quatToMatrix(camera.orientation);
+  const near = distance * NEAR_FRACTION;
+
+  // View-space coordinates; depth is measured from the eye along the view axis.
+  const toView = (x: number, y: number, z: number, out: Float64Array) => {
+    const dx = x - tx, dy = y - ty, dz = z - tz;
+    out[0] = m0 * dx + m1 * dy + m2 * dz;
+    out[1] = m3 * dx + m4 * dy + m5 * dz;
+    out[2] = m6 * dx + m7 * dy + m8 * dz + distance;
+  };
+
+  const fromView = (vx: number, vy: number, depth: number, out: Float32Array | Float64Array, offset: number) => {
+    if (perspective && depth < near) {
+      out[offset] = NaN;
+      out[offset + 1] = NaN;
+      out[offset + 2] = -depth;
+      out[offset + 3] = 0;
+      return;
+    }
+    const persp = perspective ? distance / depth : 1;
+    const k = (f / distance) * persp;
+    out[offset] = cx + vx * k;
+    out[offset + 1] = cy + vy * k;
+    out[offset + 2] = -depth;
+    out[offset + 3] = persp;
+  };
+
+  const view = new Float64Array(3);
+  const projectTo = (x: number, y: number, z: number, out: Float32Array | Float64Array, offset: number) => {
+    toView(x, y, z, view);
+    fromView(view[0], view[1], view[2], out, offset);
+  };
+
+  const tmp = new Float64Array(4);
+  const toPoint = (): ProjectedPoint => ({ x: tmp[0], y: tmp[1], z: tmp[2], p: tmp[3] });
+  const project = (pt: { x: number; y: number; z: number }): ProjectedPoint => {
+    projectTo(pt.x, pt.y, pt.z, tmp, 0);
+    return toPoint();
+  };
+
+  const va = new Float64Array(3), vb = new Float64Array(3);
+  const projectSegment = (a: { x: number; y: number; z: number }, b: { x: number; y: number; z: number }): [ProjectedPoint, ProjectedPoint] | null => {
+    toView(a.x, a.y, a.z, va);
+    toView(b.x, b.y, b.z, vb);
+    if (perspective) {
+      const inA = va[2] >= near, inB = vb[2] >= near;
+      if (!inA && !inB) return null;
+      if (!inA || !inB) {
+        const [from, to] = inA ? [vb, va] : [va, vb];
+        const t = (near - from[2]) / (to[2] - from[2]);
+        for (let i = 0; i < 3; i++) from[i] += (to[i] - from[i]) * t;
+        from[2] = near;
+      }
+    }
+    fromView(va[0], va[1], va[2], tmp, 0);
+    const pa = toPoint();
+    fromView(vb[0], vb[1], vb[2], tmp, 0);
+    return [pa, toPoint()];
+  };
+
+  return { project, projectTo, projectSegment, scale: f / distance };
+}
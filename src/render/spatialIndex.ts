@@ -0,0 +1,79 @@
+import type { ProjectedFrame } from './pointCloud';
+
+/* -------------------- Screen-space grid index for hit-testing -------------------- */
+export interface ScreenIndex {
+  frame: ProjectedFrame;
+  cellSize: number;
+  cols: number;
+  rows: number;
+  /** Prefix offsets into `items` per cell (length cols * rows + 1). */
+  cellStart: Uint32Array;
+  /** Slots grouped by cell. */
+  items: Uint32Array;
+  /** Draw rank per slot, so picking prefers the dot painted on top. */
+  rank: Uint32Array;
+  /** Largest on-screen dot radius, which bounds how many neighbouring cells a pick must scan. */
+  maxRadius: number;
+}
+
+// Perspective can blow single dots up near the eye; cap the scan so a pick stays local.
+const MAX_PICK_RADIUS = 48;
+
+/** Buckets on-screen slots into a uniform grid; off-screen slots are left out. */
+export function buildScreenIndex(frame: ProjectedFrame, width: number, height: number, cellSize = 16): ScreenIndex {
+  const { screen, order } = frame;
+  const count = frame.cloud.count;
+  const cols = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(height / cellSize));
+  const cellOf = new Int32Array(count);
+  const cellStart = new Uint32Array(cols * rows + 1);
+  const rank = new Uint32Array(count);
+
+  for (let r = 0; r < count; r++) rank[order[r]] = r;
+
+  let placed = 0, maxRadius = 0;
+  for (let i = 0; i < count; i++) {
+    const cx = Math.floor(screen[i * 4] / cellSize);
+    const cy = Math.floor(screen[i * 4 + 1] / cellSize);
+    if (!(cx >= 0 && cy >= 0 && cx < cols && cy < rows)) { cellOf[i] = -1; continue; }
+    const c = cy * cols + cx;
+    cellOf[i] = c;
+    cellStart[c + 1]++;
+    placed++;
+    if (frame.radius[i] > maxRadius) maxRadius = frame.radius[i];
+  }
+  for (let c = 0; c < cols * rows; c++) cellStart[c + 1] += cellStart[c];
+
+  const items = new Uint32Array(placed);
+  const fill = cellStart.slice(0, cols * rows);
+  for (let i = 0; i < count; i++) {
+    const c = cellOf[i];
+    if (c >= 0) items[fill[c]++] = i;
+  }
+
+  return { frame, cellSize, cols, rows, cellStart, items, rank, maxRadius: Math.min(maxRadius, MAX_PICK_RADIUS) };
+}
+
+/** Returns the topmost slot whose dot contains (x, y), with `slack` pixels of tolerance, or -1. */
+export function pickAt(index: ScreenIndex, x: number, y: number, slack = 2): number {
+  const { frame, cellSize, cols, rows, cellStart, items, rank, maxRadius } = index;
+  const { screen, radius } = frame;
+  const reach = Math.ceil((maxRadius + slack) / cellSize);
+  const cx = Math.floor(x / cellSize), cy = Math.floor(y / cellSize);
+  let best = -1, bestRank = -1;
+  for (let gy = Math.max(0, cy - reach); gy <= Math.min(rows - 1, cy + reach); gy++) {
+    for (let gx = Math.max(0, cx - reach); gx <= Math.min(cols - 1, cx + reach); gx++) {
+      const c = gy * cols + gx;
+      for (let k = cellStart[c]; k < cellStart[c + 1]; k++) {
+        const i = items[k];
+        const dx = screen[i * 4] - x, dy = screen[i * 4 + 1] - y;
+        const r = radius[i] + slack;
+        if (dx * dx + dy * dy <= r * r && rank[i] > bestRank) {
+          best = i;
+          bestRank = rank[i];
+        }
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,105 @@
+import { orbit, quatToMatrix, type Camera } from './camera';
+import { makeProjector, type ProjectedPoint, type Projector, type ViewParams } from './projection';
+
+/* -------------------- Stereo modes -------------------- */
+export type StereoMode = 'off' | 'anaglyph' | 'cross-eyed' | 'parallel';
+
+export const STEREO_MODES: { id: StereoMode; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'anaglyph', label: 'Red/cyan anaglyph' },
+  { id: 'cross-eyed', label: 'Side by side, cross-eyed' },
+  { id: 'parallel', label: 'Side by side, parallel' },
+];
+
+export interface StereoOptions {
+  mode: StereoMode;
+  /** Distance between the eyes as a fraction of the orbit distance. */
+  separation: number;
+  /** Distance of the zero-parallax plane as a multiple of the orbit distance (1: the target plane). */
+  convergence: number;
+}
+
+export const DEFAULT_STEREO: StereoOptions = { mode: 'off', separation: 0.06, convergence: 1 };
+
+/* -------------------- Eye projection -------------------- */
+/**
+ * Projector for one eye, built on the mono camera's `project`. `eye` runs from −1 (left) to 1
+ * (right); 0 is the mono view. Perspective views shift the eye sideways (parallel axes, asymmetric
+ * frustum); orthographic ones, which have no parallax, turn the view about the target instead. Either
+ * way the image is then slid so points on the convergence plane keep their mono screen position.
+ * `offsetX` moves the whole eye image, for side-by-side layouts.
+ */
+export function makeEyeProjector(view: ViewParams, eye: number, stereo: StereoOptions, offsetX = 0): Projector {
+  if (eye === 0 && offsetX === 0) return makeProjector(view);
+  const { camera } = view;
+  const half = (eye * stereo.separation * camera.distance) / 2;
+  const converge = Math.max(0.1, stereo.convergence) * camera.distance;
+  const m = quatToMatrix(camera.orientation);
+  // World position of the mono view's centre on the convergence plane
+  const [tx, ty, tz] = camera.target;
+  const toward = converge - camera.distance;
+  const pivot = { x: tx + m[6] * toward, y: ty + m[7] * toward, z: tz + m[8] * toward };
+
+  let eyeCamera: Camera;
+  if (view.perspective) {
+    // Both eye and target move along the view's x axis, so the eyes look parallel
+    eyeCamera = { ...camera, target: [tx + m[0] * half, ty + m[1] * half, tz + m[2] * half] };
+  } else {
+    const angle = Math.atan2(half, converge);
+    eyeCamera = orbit(camera, 0, angle);
+  }
+  const base = makeProjector({ ...view, camera: eyeCamera });
+  const shift = offsetX + view.width / 2 - base.project(pivot).x;
+
+  const move = (p: ProjectedPoint): ProjectedPoint => ({ ...p, x: p.x + shift });
+  return {
+    project: (pt) => move(base.project(pt)),
+    projectTo: (x, y, z, out, offset) => {
+      base.projectTo(x, y, z, out, offset);
+      out[offset] += shift;
+    },
+    projectSegment: (a, b) => {
+      const seg = base.projectSegment(a, b);
+      return seg && [move(seg[0]), move(seg[1])];
+    },
+    scale: base.scale,
+  };
+}
+
+/* -------------------- Layout -------------------- */
+export interface EyeView {
+  /** −1 left, 1 right, 0 mono. */
+  eye: number;
+  /** Horizontal span of the eye's image in CSS pixels. */
+  x: number;
+  width: number;
+}
+
+/**
+ * The images a mode draws, in paint order. Anaglyphs overlay both eyes on the full view; stereo pairs
+ * split it in halves, with the right eye's image on the left for cross-eyed viewing.
+ */
+export function stereoEyes(mode: StereoMode, width: number): EyeView[] {
+  const half = width / 2;
+  switch (mode) {
+    case 'anaglyph': return [{ eye: -1, x: 0, width }, { eye: 1, x: 0, width }];
+    case 'parallel': return [{ eye: -1, x: 0, width: half }, { eye: 1, x: half, width: half }];
+    case 'cross-eyed': return [{ eye: 1, x: 0, width: half }, { eye: -1, x: half, width: half }];
+    default: return [{ eye: 0, x: 0, width }];
+  }
+}
+
+/* -------------------- Anaglyph colors -------------------- */
+export type AnaglyphChannels = 'red' | 'cyan';
+
+/**
+ * Grey anaglyph: the color's luminance in the red channel (left eye) or in green and blue (right
+ * eye), so every dot is seen by both eyes whatever its hue.
+ */
+export function anaglyphColor(r: number, g: number, b: number, channels: AnaglyphChannels): [number, number, number] {
+  const lum = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+  return channels === 'red' ? [lum, 0, 0] : [0, lum, lum];
+}
+
+/** The channel each eye paints in anaglyph mode, by paint order. */
+export const anaglyphChannels = (index: number): AnaglyphChannels => (index === 0 ? 'red' : 'cyan');
@@ -0,0 +1,137 @@
+import { toCss } from '../coloring/schemes';
+import type { ProjectedFrame } from './pointCloud';
+import { parseHexColor } from './canvasRenderer';
+import { anaglyphColor, type AnaglyphChannels } from './stereo';
+import { LINK_COLOR, PATH_COLOR, fogAmount, type DepthCue, type DepthCues, type Segments } from './depthCues';
+
+const fmt = (v: number) => String(Math.round(v * 100) / 100);
+
+/* -------------------- Shared SVG styling -------------------- */
+/**
+ * Fill and opacity of a slot as both SVG renderers draw it: overlay color, else the scheme color,
+ * else faint white; darkened and thinned by fog, and reduced to one eye's channels for anaglyphs.
+ */
+export function dotStyle(frame: ProjectedFrame, i: number, fog?: DepthCue, channels?: AnaglyphChannels): { fill: string; opacity: number } {
+  const { cloud } = frame;
+  const layer = cloud.layer[i], rgb = cloud.color[i];
+  const opacity = layer > 0 || cloud.prime[i] === 1 ? 0.9 : 0.5;
+  const fade = 1 - fogAmount(frame, frame.screen[i * 4 + 2], fog);
+  if (!channels && fade === 1) {
+    return { fill: layer > 0 ? cloud.layers[layer - 1].color : rgb >= 0 ? toCss(rgb) : 'rgba(255,255,255,0.2)', opacity };
+  }
+  let [r, g, b] = layer > 0 ? parseHexColor(cloud.layers[layer - 1].color) : rgb >= 0 ? [(rgb >> 16) & 255, (rgb >> 8) & 255, rgb & 255] : [255, 255, 255];
+  if (channels) [r, g, b] = anaglyphColor(r, g, b, channels);
+  const rgbCss = `${Math.round(r * fade)},${Math.round(g * fade)},${Math.round(b * fade)}`;
+  return { fill: layer === 0 && rgb < 0 ? `rgba(${rgbCss},0.2)` : `rgb(${rgbCss})`, opacity: opacity * fade };
+}
+
+// Segments are grouped into this many depth bands, so fogged lines stay a handful of <path>s.
+const LINE_BANDS = 6;
+
+/** Path data and stroke of line segments, one entry per fog band. */
+export function segmentPaths(segments: Segments, frame: Pick<ProjectedFrame, 'zMin' | 'zMax'>, fog?: DepthCue): { d: string; fade: number }[] {
+  const span = frame.zMax - frame.zMin;
+  const bands = fog?.enabled && span > 0 ? LINE_BANDS : 1;
+  const parts: string[][] = Array.from({ length: bands }, () => []);
+  const { data, count } = segments;
+  for (let s = 0; s < count; s++) {
+    const o = s * 5;
+    const band = bands > 1 ? Math.min(bands - 1, Math.max(0, Math.floor(((frame.zMax - data[o + 4]) / span) * bands))) : 0;
+    parts[band].push(`M${fmt(data[o])} ${fmt(data[o + 1])}L${fmt(data[o + 2])} ${fmt(data[o + 3])}`);
+  }
+  // Each band fades like a point at its middle depth
+  return parts
+    .map((p, band) => ({ d: p.join(''), fade: 1 - fogAmount(frame, frame.zMax - ((band + 0.5) / bands) * span, fog) }))
+    .filter(p => p.d);
+}
+
+/** CSS color of the path or link lines. */
+export const lineColor = (kind: 'path' | 'links', channels?: AnaglyphChannels) => {
+  const [r, g, b] = kind === 'path' ? PATH_COLOR : LINK_COLOR;
+  const [cr, cg, cb] = channels ? anaglyphColor(r, g, b, channels) : [r, g, b];
+  return `rgb(${cr},${cg},${cb})`;
+};
+
+/** Stop list of the sphere-shading overlay: a highlight up-left, darkening towards the rim. */
+export const SPHERE_STOPS: [number, string, number][] = [
+  [0, '#ffffff', 0.55], [0.35, '#ffffff', 0], [0.7, '#000000', 0.15], [1, '#000000', 0.6],
+];
+
+/* -------------------- Standalone SVG serializer -------------------- */
+export interface SvgRenderOptions {
+  /** Size of the frame's screen space; it becomes the viewBox. */
+  width: number;
+  height: number;
+  /** CSS color of the backdrop rectangle, or null for a transparent file. */
+  background?: string | null;
+  /** Output pixels per screen unit. */
+  scale?: number;
+  /** Extra markup in the same coordinates, drawn over the dots. */
+  overlay?: string;
+  /** Fog, shading and glow as on screen; lines are drawn when their segments are passed too. */
+  cues?: DepthCues;
+  path?: Segments | null;
+  links?: Segments | null;
+}
+
+/** Blur radius of the glow halo in screen units. */
+export const glowBlur = (intensity: number) => 2 + 4 * intensity;
+
+/**
+ * Serializes a projected frame as a self-contained SVG document, with the same fills and opacities
+ * as the live SVG renderer. Used for offline frames, where there is no DOM tree to clone.
+ */
+export function renderFrameSVG(
+  frame: ProjectedFrame,
+  { width, height, background = '#111827', scale = 1, overlay, cues, path, links }: SvgRenderOptions,
+): string {
+  const { screen, radius, order, cloud } = frame;
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width * scale)}" height="${fmt(height * scale)}" viewBox="0 0 ${fmt(width)} ${fmt(height)}" font-family="system-ui, -apple-system, 'Segoe UI', sans-serif">`,
+  ];
+  const shading = cues?.shading.enabled ? cues.shading.intensity : 0;
+  const glow = cues?.glow.enabled ? cues.glow.intensity : 0;
+  if (shading || glow) {
+    out.push('<defs>');
+    if (shading) {
+      out.push('<radialGradient id="sphere" fx="0.3" fy="0.3">');
+      for (const [offset, color, opacity] of SPHERE_STOPS) out.push(`<stop offset="${offset}" stop-color="${color}" stop-opacity="${opacity}"/>`);
+      out.push('</radialGradient>');
+    }
+    if (glow) out.push(`<filter id="glow" x="-100%" y="-100%" width="300%" height="300%"><feGaussianBlur stdDeviation="${fmt(glowBlur(glow))}"/></filter>`);
+    out.push('</defs>');
+  }
+  if (background) out.push(`<rect width="100%" height="100%" fill="${background}"/>`);
+  for (const [kind, segments] of [['path', path], ['links', links]] as const) {
+    if (!segments || !cues?.[kind].enabled) continue;
+    for (const { d, fade } of segmentPaths(segments, frame, cues.fog)) {
+      out.push(`<path d="${d}" fill="none" stroke="${lineColor(kind)}" stroke-width="1" stroke-opacity="${fmt(cues[kind].intensity * fade)}"/>`);
+    }
+  }
+
+  const visible = (i: number) => {
+    const x = screen[i * 4], y = screen[i * 4 + 1], r = radius[i];
+    return r > 0 && !(x + r < 0 || y + r < 0 || x - r > width || y - r > height);
+  };
+  if (glow) {
+    out.push(`<g filter="url(#glow)" opacity="${fmt(glow)}">`);
+    for (let k = 0; k < order.length; k++) {
+      const i = order[k];
+      if (!visible(i) || !(cloud.prime[i] || cloud.layer[i])) continue;
+      const { fill } = dotStyle(frame, i, cues?.fog);
+      out.push(`<circle cx="${fmt(screen[i * 4])}" cy="${fmt(screen[i * 4 + 1])}" r="${fmt(radius[i] * 2)}" fill="${fill}"/>`);
+    }
+    out.push('</g>');
+  }
+  for (let k = 0; k < order.length; k++) {
+    const i = order[k];
+    if (!visible(i)) continue;
+    const x = fmt(screen[i * 4]), y = fmt(screen[i * 4 + 1]), r = fmt(radius[i]);
+    const { fill, opacity } = dotStyle(frame, i, cues?.fog);
+    out.push(`<circle cx="${x}" cy="${y}" r="${r}" fill="${fill}" opacity="${fmt(opacity)}"/>`);
+    if (shading) out.push(`<circle cx="${x}" cy="${y}" r="${r}" fill="url(#sphere)" opacity="${fmt(shading)}"/>`);
+  }
+  if (overlay) out.push(overlay);
+  out.push('</svg>');
+  return out.join('\n');
+}
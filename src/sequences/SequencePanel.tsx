@@ -0,0 +1,118 @@
+import { Eye, EyeOff, X } from 'lucide-react';
+import { defaultParams, listSequences, type SequenceDefinition } from './registry';
+import type { ResolvedLayer, SequenceLayerState } from './useSequenceLayers';
+
+interface SequencePanelProps {
+  layers: ResolvedLayer[];
+  setLayers: React.Dispatch<React.SetStateAction<SequenceLayerState[]>>;
+  primeCount: number;
+  /** CSS background for the primes swatch, from the active color scheme. */
+  primeSwatch: string;
+  showPrimes: boolean;
+  setShowPrimes: React.Dispatch<React.SetStateAction<boolean>>;
+  showAllNumbers: boolean;
+  /** The window is past the sieve; only sequences marked `farWindows` can be evaluated there. */
+  far: boolean;
+  /** Gaussian or Eisenstein integers are shown; sequences of rational integers do not apply. */
+  lattice: boolean;
+}
+
+const FAR_NOTE = 'Needs n itself, which far windows only know relative to their start';
+const LATTICE_NOTE = 'A sequence of rational integers, with no meaning on Gaussian or Eisenstein integers';
+
+/** Legend and layer stack: primes at the bottom, overlays painted in list order on top. */
+export function SequencePanel({ layers, setLayers, primeCount, primeSwatch, showPrimes, setShowPrimes, showAllNumbers, far, lattice }: SequencePanelProps) {
+  const unavailable = (def: SequenceDefinition) => lattice || (far && !def.farWindows);
+  const note = lattice ? LATTICE_NOTE : FAR_NOTE;
+  const active = new Set(layers.map(l => l.state.id));
+  const available = listSequences().filter(def => !active.has(def.id));
+
+  const update = (id: string, patch: Partial<SequenceLayerState>) =>
+    setLayers(ls => ls.map(l => (l.id === id ? { ...l, ...patch } : l)));
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
+      <h3 className="text-white font-semibold mb-3">Sequences</h3>
+      <div className="space-y-2 text-sm">
+        <LegendRow swatch={primeSwatch} name="Primes" count={primeCount} visible={showPrimes} onToggle={() => setShowPrimes(v => !v)} />
+
+        {layers.map(({ state, def, count, available }) => (
+          <div key={def.id}>
+            <LegendRow
+              swatch={def.color}
+              name={def.name}
+              title={available ? def.description : note}
+              count={available ? count : null}
+              visible={state.visible}
+              onToggle={() => update(def.id, { visible: !state.visible })}
+              onRemove={() => setLayers(ls => ls.filter(l => l.id !== def.id))}
+            />
+            {def.params?.map(p => (
+              <div key={p.key} className="ml-6 mt-1">
+                <label className="text-gray-300 text-xs">{p.label}: {state.params[p.key]}</label>
+                <input
+                  type="range" min={p.min} max={p.max} step={p.step} value={state.params[p.key]}
+                  onChange={(e) => update(def.id, { params: { ...state.params, [p.key]: Number(e.target.value) } })}
+                  className="w-full"
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+
+        {showAllNumbers && (
+          <div className="flex items-center gap-2 text-gray-400">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ background: 'rgba(255,255,255,0.2)' }} />
+            <span>{lattice ? 'Other elements' : 'Other integers'}</span>
+          </div>
+        )}
+
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const def = available.find(d => d.id === e.target.value);
+              if (def) setLayers(ls => [...ls, { id: def.id, visible: true, params: defaultParams(def) }]);
+            }}
+            className="w-full mt-1 bg-white/10 text-white rounded px-2 py-1 border border-white/20"
+          >
+            <option value="" className="text-gray-900">Add sequence…</option>
+            {available.map(def => (
+              <option
+                key={def.id} value={def.id} disabled={unavailable(def)}
+                title={unavailable(def) ? note : def.description} className="text-gray-900"
+              >
+                {def.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function LegendRow({ swatch, name, title, count, visible, onToggle, onRemove }: {
+  swatch: string;
+  name: string;
+  title?: string;
+  /** null when the layer cannot be evaluated in this window. */
+  count: number | null;
+  visible: boolean;
+  onToggle: () => void;
+  onRemove?: () => void;
+}) {
+  return (
+    <div className={`flex items-center gap-2 ${visible ? 'text-gray-200' : 'text-gray-500'}`} title={title}>
+      <span className="inline-block w-3 h-3 rounded-full shrink-0" style={{ background: swatch }} />
+      <span className="flex-1 truncate">{name}</span>
+      <span className="text-xs tabular-nums opacity-75">{count === null ? '—' : count.toLocaleString()}</span>
+      <button onClick={onToggle} className="hover:text-white" title={visible ? 'Hide layer' : 'Show layer'}>
+        {visible ? <Eye size={14} /> : <EyeOff size={14} />}
+      </button>
+      {onRemove && (
+        <button onClick={onRemove} className="hover:text-white" title="Remove layer"><X size={14} /></button>
+      )}
+    </div>
+  );
+}
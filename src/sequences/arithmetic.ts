@@ -0,0 +1,96 @@
+import { basePrimes } from '../sieve/segmentedSieve';
+import { isPrimeBig } from '../sieve/millerRabin';
+
+/* -------------------- Window factor sieve -------------------- */
+export interface WindowFactors {
+  /** ω(n): number of distinct prime factors, indexed by n − start. */
+  omega: Uint8Array;
+  /** Ω(n): number of prime factors with multiplicity. */
+  bigOmega: Uint8Array;
+  /** 1 when no square > 1 divides n. */
+  squareFree: Uint8Array;
+  /** d(n): number of divisors (≤ 17280 below 10^15, so 16 bits suffice). */
+  divisors: Uint16Array;
+}
+
+/** Factor statistics for every n in [start, end], sieving out each base prime p ≤ √end once. */
+export function factorWindow(start: number, end: number): WindowFactors {
+  const len = Math.max(0, end - start + 1);
+  const rest = new Float64Array(len);
+  const omega = new Uint8Array(len);
+  const bigOmega = new Uint8Array(len);
+  const squareFree = new Uint8Array(len).fill(1);
+  const divisors = new Uint16Array(len).fill(1);
+  for (let i = 0; i < len; i++) rest[i] = start + i;
+
+  const base = basePrimes(Math.floor(Math.sqrt(end)));
+  for (let k = 0; k < base.length; k++) {
+    const p = base[k];
+    for (let m = Math.ceil(start / p) * p; m <= end; m += p) {
+      const i = m - start;
+      let r = rest[i] / p, e = 1;
+      while (r % p === 0) { r /= p; e++; }
+      rest[i] = r;
+      omega[i]++;
+      bigOmega[i] += e;
+      divisors[i] *= e + 1;
+      if (e > 1) squareFree[i] = 0;
+    }
+  }
+  // Whatever survives every p ≤ √end is a single prime factor larger than √end.
+  for (let i = 0; i < len; i++) {
+    if (rest[i] > 1) { omega[i]++; bigOmega[i]++; divisors[i] *= 2; }
+  }
+  return { omega, bigOmega, squareFree, divisors };
+}
+
+/* -------------------- Sequence evaluation context -------------------- */
+export interface SequenceContext {
+  start: number;
+  end: number;
+  /** 0n, or in a far window the exact value of n = 0; n itself is then window-relative. */
+  origin: bigint;
+  /** Primality for any n ≥ 1: the sieved set inside the window, trial division (or Miller–Rabin) outside it. */
+  isPrime: (n: number) => boolean;
+  /** The exact value's residue mod m, so classes stay right in far windows. */
+  mod: (n: number, m: number) => number;
+  /** Factor statistics of the window, computed on first use. */
+  factors: () => WindowFactors;
+}
+
+export function createSequenceContext(start: number, end: number, primes: Set<number>, origin = 0n): SequenceContext {
+  let trialPrimes: Uint32Array = new Uint32Array(0);
+  let trialLimit = 1;
+  let factors: WindowFactors | null = null;
+
+  const trialIsPrime = (n: number) => {
+    if (n < 2) return false;
+    const root = Math.floor(Math.sqrt(n));
+    if (root > trialLimit) {
+      trialLimit = Math.max(root, trialLimit * 2);
+      trialPrimes = basePrimes(trialLimit);
+    }
+    for (let k = 0; k < trialPrimes.length; k++) {
+      const p = trialPrimes[k];
+      if (p > root) break;
+      if (n % p === 0) return false;
+    }
+    return true;
+  };
+
+  const shifts = new Map<number, number>();
+  const shift = (m: number) => {
+    let r = shifts.get(m);
+    if (r === undefined) shifts.set(m, r = Number(origin % BigInt(m)));
+    return r;
+  };
+
+  return {
+    start,
+    end,
+    origin,
+    isPrime: (n) => (n >= start && n <= end ? primes.has(n) : origin ? isPrimeBig(origin + BigInt(n)) : trialIsPrime(n)),
+    mod: origin ? (n, m) => (shift(m) + (n % m)) % m : (n, m) => n % m,
+    factors: () => (factors ??= factorWindow(start, end)),
+  };
+}
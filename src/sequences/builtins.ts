@@ -0,0 +1,103 @@
+import { registerSequence } from './registry';
+
+/* -------------------- Built-in sequences -------------------- */
+// Exponents p with 2^p − 1 prime, as confirmed by GIMPS (52 known).
+const MERSENNE_EXPONENTS = [
+  2, 3, 5, 7, 13, 17, 19, 31, 61, 89, 107, 127, 521, 607, 1279, 2203, 2281, 3217, 4253, 4423, 9689, 9941,
+  11213, 19937, 21701, 23209, 44497, 86243, 110503, 132049, 216091, 756839, 859433, 1257787, 1398269,
+  2976221, 3021377, 6972593, 13466917, 20996011, 24036583, 25964951, 30402457, 32582657, 37156667,
+  42643801, 43112609, 57885161, 74207281, 77232917, 82589933, 136279841,
+];
+
+registerSequence({
+  id: 'twin',
+  name: 'Twin primes',
+  description: 'Primes p with p − 2 or p + 2 also prime.',
+  color: '#22d3ee',
+  farWindows: true,
+  test: (n, ctx) => ctx.isPrime(n) && (ctx.isPrime(n - 2) || ctx.isPrime(n + 2)),
+});
+
+registerSequence({
+  id: 'sophie-germain',
+  name: 'Sophie Germain primes',
+  description: 'Primes p for which 2p + 1 is also prime.',
+  color: '#a3e635',
+  test: (n, ctx) => ctx.isPrime(n) && ctx.isPrime(2 * n + 1),
+});
+
+registerSequence({
+  id: 'mersenne-exponent',
+  name: 'Mersenne exponents',
+  description: 'Exponents p for which 2^p − 1 is a (known) Mersenne prime.',
+  color: '#facc15',
+  generate: () => MERSENNE_EXPONENTS,
+});
+
+registerSequence({
+  id: 'prime-4k1',
+  name: 'Primes 4k + 1',
+  description: 'Pythagorean primes: odd primes that are sums of two squares.',
+  color: '#60a5fa',
+  farWindows: true,
+  test: (n, ctx) => ctx.mod(n, 4) === 1 && ctx.isPrime(n),
+});
+
+registerSequence({
+  id: 'prime-4k3',
+  name: 'Primes 4k + 3',
+  description: 'Primes congruent to 3 mod 4; they stay prime among the Gaussian integers.',
+  color: '#f87171',
+  farWindows: true,
+  test: (n, ctx) => ctx.mod(n, 4) === 3 && ctx.isPrime(n),
+});
+
+registerSequence({
+  id: 'semiprime',
+  name: 'Semiprimes',
+  description: 'Products of exactly two primes, counted with multiplicity (4, 6, 9, 10, …).',
+  color: '#c084fc',
+  test: (n, ctx) => ctx.factors().bigOmega[n - ctx.start] === 2,
+});
+
+registerSequence({
+  id: 'perfect-power',
+  name: 'Perfect powers',
+  description: 'Numbers m^k with m ≥ 1 and k ≥ 2 (1, 4, 8, 9, 16, …).',
+  color: '#fb923c',
+  *generate(start, end) {
+    if (start <= 1) yield 1;
+    for (let k = 2; 2 ** k <= end; k++) {
+      for (let m = Math.max(2, Math.floor(Math.pow(start, 1 / k))); m ** k <= end; m++) {
+        if (m ** k >= start) yield m ** k;
+      }
+    }
+  },
+});
+
+registerSequence({
+  id: 'fibonacci',
+  name: 'Fibonacci numbers',
+  description: 'F(k) = F(k − 1) + F(k − 2) with F(1) = F(2) = 1.',
+  color: '#34d399',
+  *generate(start, end) {
+    for (let a = 1, b = 2; a <= end; [a, b] = [b, a + b]) if (a >= start) yield a;
+  },
+});
+
+registerSequence({
+  id: 'square-free',
+  name: 'Square-free numbers',
+  description: 'Numbers not divisible by any square > 1.',
+  color: '#94a3b8',
+  test: (n, ctx) => ctx.factors().squareFree[n - ctx.start] === 1,
+});
+
+registerSequence({
+  id: 'k-distinct',
+  name: 'k distinct prime factors',
+  description: 'Numbers with exactly k distinct prime factors, ω(n) = k.',
+  color: '#f472b6',
+  params: [{ key: 'k', label: 'k', min: 1, max: 8, step: 1, default: 2 }],
+  test: (n, ctx, { k }) => ctx.factors().omega[n - ctx.start] === k,
+});
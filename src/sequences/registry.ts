@@ -0,0 +1,82 @@
+import type { SequenceContext } from './arithmetic';
+
+/* -------------------- Sequence registry -------------------- */
+export interface SequenceParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export type SequenceParams = Record<string, number>;
+
+interface SequenceBase {
+  id: string;
+  name: string;
+  description: string;
+  /** CSS hex color used for the layer's dots and legend swatch. */
+  color: string;
+  params?: SequenceParam[];
+  /**
+   * Also evaluated in far windows, where n is window-relative: set it only when membership depends
+   * on nothing but ctx.isPrime at fixed offsets from n and ctx.mod.
+   */
+  farWindows?: boolean;
+}
+
+/** Dense sequences are tested number by number across the window. */
+export interface PredicateSequence extends SequenceBase {
+  test: (n: number, ctx: SequenceContext, params: SequenceParams) => boolean;
+}
+
+/** Sparse sequences list their members in [start, end] directly. */
+export interface GeneratorSequence extends SequenceBase {
+  generate: (start: number, end: number, params: SequenceParams) => Iterable<number>;
+}
+
+export type SequenceDefinition = PredicateSequence | GeneratorSequence;
+
+const registry = new Map<string, SequenceDefinition>();
+
+export function registerSequence(def: SequenceDefinition): void {
+  if (registry.has(def.id)) throw new Error(`Sequence "${def.id}" is already registered`);
+  registry.set(def.id, def);
+}
+
+export function getSequence(id: string): SequenceDefinition | undefined {
+  return registry.get(id);
+}
+
+export function listSequences(): SequenceDefinition[] {
+  return [...registry.values()];
+}
+
+export function defaultParams(def: SequenceDefinition): SequenceParams {
+  return Object.fromEntries((def.params ?? []).map(p => [p.key, p.default]));
+}
+
+/** Stored values clamped to the schema's ranges; keys the schema does not declare are dropped. */
+export function clampParams(schema: SequenceParam[] | undefined, stored: SequenceParams): SequenceParams {
+  const out: SequenceParams = {};
+  for (const p of schema ?? []) {
+    const v = stored[p.key];
+    if (typeof v === 'number' && Number.isFinite(v)) out[p.key] = Math.max(p.min, Math.min(p.max, v));
+  }
+  return out;
+}
+
+/** Membership of every n in [ctx.start, ctx.end], indexed by n − start. */
+export function membershipMask(def: SequenceDefinition, ctx: SequenceContext, params: SequenceParams): Uint8Array {
+  const { start, end } = ctx;
+  const mask = new Uint8Array(Math.max(0, end - start + 1));
+  if ('generate' in def) {
+    for (const n of def.generate(start, end, params)) {
+      if (n >= start && n <= end) mask[n - start] = 1;
+    }
+  } else {
+    for (let n = start; n <= end; n++) if (def.test(n, ctx, params)) mask[n - start] = 1;
+  }
+  return mask;
+}
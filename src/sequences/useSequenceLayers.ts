@@ -0,0 +1,59 @@
+import { useMemo } from 'react';
+import type { SequenceContext } from './arithmetic';
+import { getSequence, membershipMask, type SequenceDefinition, type SequenceParams } from './registry';
+import type { HighlightLayer } from '../render/pointCloud';
+
+/** One overlay in the layer stack, as kept in App state. */
+export interface SequenceLayerState {
+  id: string;
+  visible: boolean;
+  params: SequenceParams;
+}
+
+export interface ResolvedLayer {
+  state: SequenceLayerState;
+  def: SequenceDefinition;
+  /** Members in the current window. */
+  count: number;
+  /** False for sequences that need n itself while the window is far, and for all of them on Gaussian or Eisenstein integers; they then match nothing. */
+  available: boolean;
+}
+
+/**
+ * Evaluates every layer over the context's window. Masks are looked up in `cache` by (sequence, params),
+ * so a caller keeping one cache per window never recomputes a sequence. With `lattice` set the dots are
+ * Gaussian or Eisenstein integers, which no sequence is defined on.
+ */
+export function resolveSequenceLayers(layers: SequenceLayerState[], ctx: SequenceContext, cache = new Map<string, Uint8Array>(), lattice = false) {
+  const { start } = ctx;
+  const resolved: ResolvedLayer[] = [];
+  const highlight: HighlightLayer[] = [];
+  for (const state of layers) {
+    const def = getSequence(state.id);
+    if (!def) continue;
+    if (lattice || (ctx.origin && !def.farWindows)) {
+      resolved.push({ state, def, count: 0, available: false });
+      continue;
+    }
+    const key = `${state.id}:${JSON.stringify(state.params)}`;
+    let mask = cache.get(key);
+    if (!mask) {
+      mask = membershipMask(def, ctx, state.params);
+      cache.set(key, mask);
+    }
+    let count = 0;
+    for (let i = 0; i < mask.length; i++) count += mask[i];
+    resolved.push({ state, def, count, available: true });
+    if (state.visible) {
+      const m = mask;
+      highlight.push({ id: def.id, label: def.name, color: def.color, has: (n) => m[n - start] === 1 });
+    }
+  }
+  return { resolved, highlight };
+}
+
+/** `resolveSequenceLayers` with a mask cache per window, so toggling visibility or reordering is free. */
+export function useSequenceLayers(layers: SequenceLayerState[], ctx: SequenceContext, lattice = false) {
+  const cache = useMemo(() => new Map<string, Uint8Array>(), [ctx]);
+  return useMemo(() => resolveSequenceLayers(layers, ctx, cache, lattice), [layers, ctx, cache, lattice]);
+}
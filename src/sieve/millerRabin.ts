@@ -0,0 +1,101 @@
+import { basePrimes } from './segmentedSieve';
+
+/* -------------------- Deterministic Miller–Rabin on BigInt -------------------- */
+// Sieving needs every prime up to √end, which stops being practical around 10^15, and past 2^53 a
+// JS number cannot even hold n exactly. Miller–Rabin with a proven base set is exact below its bound
+// and costs a few dozen modular squarings per number, wherever the number sits.
+
+// Jim Sinclair's seven bases are a proof of primality for every n < 2^64.
+const BASES_64 = [2n, 325n, 9375n, 28178n, 450775n, 9780504n, 1795265022n];
+// The first 13 primes as bases are proven up to 3.3 · 10^24 (Sorenson & Webster, 2015).
+const BASES_13 = [2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n, 41n];
+const LIMIT_64 = 1n << 64n;
+/** Exclusive upper bound of `isPrimeBig`; above it no small deterministic base set is known. */
+export const MILLER_RABIN_LIMIT = 3_317_044_064_679_887_385_961_981n;
+
+// Trial division by these first weeds out most composites far more cheaply than a modular power.
+const SMALL_PRIMES = basePrimes(1000);
+
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  // x⁰ is 1, which is 0 mod 1
+  let result = 1n % modulus;
+  base %= modulus;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+/** Miller–Rabin proper, for odd n with no factor among SMALL_PRIMES. */
+function millerRabin(n: bigint): boolean {
+  let d = n - 1n, s = 0;
+  while (!(d & 1n)) { d >>= 1n; s++; }
+  const bases = n < LIMIT_64 ? BASES_64 : BASES_13;
+  next: for (const base of bases) {
+    const a = base % n;
+    if (a === 0n) continue;
+    let x = modPow(a, d, n);
+    if (x === 1n || x === n - 1n) continue;
+    for (let r = 1; r < s; r++) {
+      x = (x * x) % n;
+      if (x === n - 1n) continue next;
+    }
+    return false;
+  }
+  return true;
+}
+
+/** Exact primality for any n below MILLER_RABIN_LIMIT; throws a RangeError above it. */
+export function isPrimeBig(n: bigint): boolean {
+  if (n >= MILLER_RABIN_LIMIT) throw new RangeError(`Primality is only proven below ${MILLER_RABIN_LIMIT}`);
+  if (n < 2n) return false;
+  for (let k = 0; k < SMALL_PRIMES.length; k++) {
+    const p = BigInt(SMALL_PRIMES[k]);
+    if (n === p) return true;
+    if (n % p === 0n) return false;
+  }
+  return millerRabin(n);
+}
+
+// Window offsets divisible by a prime up to this are struck out before any modular power.
+const PRESIEVE_LIMIT = 1 << 16;
+
+export interface PrimeOffsetsOptions {
+  /** Called every few thousand numbers with the count tested so far and the window width. */
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Offsets i in [0, width) for which first + i is prime. Small factors are sieved out of the window
+ * first, so Miller–Rabin only runs on the few percent of numbers without one.
+ */
+export function primeOffsets(first: bigint, width: number, { onProgress }: PrimeOffsetsOptions = {}): Float64Array {
+  if (first + BigInt(width) > MILLER_RABIN_LIMIT) throw new RangeError(`Primality is only proven below ${MILLER_RABIN_LIMIT}`);
+  const candidate = new Uint8Array(width).fill(1);
+  for (let i = 0; i < width && first + BigInt(i) < 2n; i++) candidate[i] = 0;
+  const small = basePrimes(PRESIEVE_LIMIT);
+  for (let k = 0; k < small.length; k++) {
+    const p = small[k];
+    const bp = BigInt(p);
+    // Crossing out starts at p² (smaller multiples have a smaller factor), so p itself stays prime
+    const multiple = ((first + bp - 1n) / bp) * bp;
+    const from = multiple > bp * bp ? multiple : bp * bp;
+    if (from - first >= BigInt(width)) continue;
+    for (let i = Number(from - first); i < width; i += p) candidate[i] = 0;
+  }
+
+  const out: number[] = [];
+  const sieved = BigInt(PRESIEVE_LIMIT) * BigInt(PRESIEVE_LIMIT);
+  for (let i = 0; i < width; i++) {
+    if (candidate[i]) {
+      const n = first + BigInt(i);
+      // Below PRESIEVE_LIMIT² the presieve alone is exact
+      if (n < sieved || millerRabin(n)) out.push(i);
+    }
+    if ((i & 4095) === 4095) onProgress?.(i + 1, width);
+  }
+  onProgress?.(width, width);
+  return Float64Array.from(out);
+}
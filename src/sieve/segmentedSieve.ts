@@ -0,0 +1,69 @@
+/* -------------------- Segmented sieve of Eratosthenes -------------------- */
+export const DEFAULT_SEGMENT_SIZE = 1 << 18;
+
+/** Primes ≤ limit from a plain byte sieve; used as the base primes for segmented sieving. */
+export function basePrimes(limit: number): Uint32Array {
+  if (limit < 2) return new Uint32Array(0);
+  const composite = new Uint8Array(limit + 1);
+  let count = 0;
+  for (let p = 2; p <= limit; p++) {
+    if (composite[p]) continue;
+    count++;
+    for (let i = p * p; i <= limit; i += p) composite[i] = 1;
+  }
+  const out = new Uint32Array(count);
+  for (let p = 2, k = 0; p <= limit; p++) if (!composite[p]) out[k++] = p;
+  return out;
+}
+
+/**
+ * Marks primality of lo … lo + seg.length − 1 into `seg` (1 = prime).
+ * `base` must contain every prime up to √(lo + seg.length − 1).
+ */
+export function sieveSegment(lo: number, base: Uint32Array, seg: Uint8Array): void {
+  const hi = lo + seg.length; // exclusive
+  seg.fill(1);
+  for (let n = lo; n < Math.min(hi, 2); n++) seg[n - lo] = 0;
+  for (let k = 0; k < base.length; k++) {
+    const p = base[k];
+    if (p * p >= hi) break;
+    let j = Math.max(p * p, Math.ceil(lo / p) * p);
+    for (; j < hi; j += p) seg[j - lo] = 0;
+  }
+}
+
+export interface SieveRangeOptions {
+  segmentSize?: number;
+  /** Called after each segment with the count of numbers sieved so far and the window width. */
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** All primes in the inclusive window [start, end], sieved segment by segment in O(√end + segment) memory. */
+export function sieveRange(start: number, end: number, { segmentSize = DEFAULT_SEGMENT_SIZE, onProgress }: SieveRangeOptions = {}): Float64Array {
+  start = Math.max(1, Math.floor(start));
+  end = Math.floor(end);
+  if (end < start) return new Float64Array(0);
+
+  const base = basePrimes(Math.floor(Math.sqrt(end)));
+  const total = end - start + 1;
+  const seg = new Uint8Array(Math.min(segmentSize, total));
+  const chunks: Float64Array[] = [];
+  let found = 0;
+
+  for (let lo = start; lo <= end; lo += seg.length) {
+    const view = lo + seg.length - 1 > end ? seg.subarray(0, end - lo + 1) : seg;
+    sieveSegment(lo, base, view);
+    let count = 0;
+    for (let i = 0; i < view.length; i++) count += view[i];
+    const chunk = new Float64Array(count);
+    for (let i = 0, k = 0; i < view.length; i++) if (view[i]) chunk[k++] = lo + i;
+    chunks.push(chunk);
+    found += count;
+    onProgress?.(Math.min(total, lo + view.length - start), total);
+  }
+
+  const primes = new Float64Array(found);
+  let offset = 0;
+  for (const chunk of chunks) { primes.set(chunk, offset); offset += chunk.length; }
+  return primes;
+}
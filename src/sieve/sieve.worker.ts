@@ -0,0 +1,24 @@
+import { sieveRange } from './segmentedSieve';
+import { primeOffsets } from './millerRabin';
+
+/* -------------------- Sieve worker protocol -------------------- */
+/** With a nonzero `origin` the window is far: start … end count from it and Miller–Rabin replaces the sieve. */
+export interface SieveRequest { start: number; end: number; origin?: bigint; }
+
+export type SieveResponse =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; primes: Float64Array }
+  | { type: 'error'; message: string };
+
+self.addEventListener('message', (e: MessageEvent<SieveRequest>) => {
+  const { start, end, origin } = e.data;
+  const onProgress = (done: number, total: number) => postMessage({ type: 'progress', done, total } satisfies SieveResponse);
+  try {
+    const primes = origin
+      ? primeOffsets(origin + BigInt(start), end - start + 1, { onProgress }).map(i => start + i)
+      : sieveRange(start, end, { onProgress });
+    postMessage({ type: 'done', primes } satisfies SieveResponse, { transfer: [primes.buffer] });
+  } catch (err) {
+    postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) } satisfies SieveResponse);
+  }
+});
@@ -0,0 +1,6 @@
+import SieveWorker from './sieve.worker?worker&inline';
+
+/** Starts a sieve worker from a blob URL, so the embed bundle loads it from any path or host. */
+export function spawnSieveWorker(): Worker {
+  return new SieveWorker();
+}
@@ -0,0 +1,4 @@
+/** Starts a sieve worker from its own file; the library build swaps in spawnWorker.inline.ts. */
+export function spawnSieveWorker(): Worker {
+  return new Worker(new URL('./sieve.worker.ts', import.meta.url), { type: 'module' });
+}
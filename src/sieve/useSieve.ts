@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { sieveRange } from './segmentedSieve';
+import { primeOffsets } from './millerRabin';
+import { spawnSieveWorker } from './spawnWorker';
+import type { SieveRequest, SieveResponse } from './sieve.worker';
+
+export interface SieveState {
+  primes: Set<number>;
+  /** Fraction of the window sieved so far, 0 … 1. */
+  progress: number;
+  pending: boolean;
+  error: string | null;
+}
+
+export interface SieveJobOptions {
+  /** Fraction done, 0 … 1. */
+  onProgress?: (fraction: number) => void;
+  /** Aborting terminates the worker; the promise then never settles. */
+  signal?: AbortSignal;
+  /** Far windows: start … end count from here, and primality comes from Miller–Rabin. */
+  origin?: bigint;
+}
+
+/**
+ * Sieves [start, end] in a Web Worker (or on the main thread where workers are unavailable) and
+ * resolves with the prime set, as window-relative numbers when `origin` is set.
+ */
+export function sieveInWorker(start: number, end: number, { onProgress, signal, origin = 0n }: SieveJobOptions = {}): Promise<Set<number>> {
+  const onMainThread = () => Promise.resolve().then(() => new Set(origin
+    ? primeOffsets(origin + BigInt(start), end - start + 1).map(i => start + i)
+    : sieveRange(start, end)));
+  if (typeof Worker === 'undefined') return onMainThread();
+  let worker: Worker;
+  try {
+    worker = spawnSieveWorker();
+  } catch {
+    // Refused outright, e.g. by a content security policy
+    return onMainThread();
+  }
+  return new Promise((resolve, reject) => {
+    signal?.addEventListener('abort', () => worker.terminate());
+    worker.onmessage = (e: MessageEvent<SieveResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.done / msg.total);
+      } else {
+        worker.terminate();
+        if (msg.type === 'done') resolve(new Set(msg.primes));
+        else reject(new Error(msg.message));
+      }
+    };
+    // A worker that fails to load or throws outside the message handler would otherwise never answer
+    const fail = (message: string) => {
+      worker.terminate();
+      reject(new Error(message));
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      fail(e.message || 'The sieve worker failed to start');
+    };
+    worker.onmessageerror = () => fail('The sieve worker sent an unreadable message');
+    worker.postMessage({ start, end, origin: origin || undefined } satisfies SieveRequest);
+  });
+}
+
+/**
+ * Sieves [start, end] in a Web Worker and streams progress. A new window terminates the previous
+ * worker, so dragging the range never queues stale jobs. The last finished prime set is kept while
+ * the next one is computed. Falls back to the main thread where workers are unavailable.
+ */
+export function useSieve(start: number, end: number, origin = 0n): SieveState {
+  const [state, setState] = useState<SieveState>({ primes: new Set(), progress: 0, pending: true, error: null });
+
+  useEffect(() => {
+    const job = new AbortController();
+    setState(s => ({ ...s, progress: 0, pending: true, error: null }));
+    sieveInWorker(start, end, {
+      origin,
+      signal: job.signal,
+      onProgress: (progress) => setState(s => ({ ...s, progress })),
+    }).then(
+      (primes) => { if (!job.signal.aborted) setState({ primes, progress: 1, pending: false, error: null }); },
+      (err: Error) => { if (!job.signal.aborted) setState(s => ({ ...s, pending: false, error: err.message })); },
+    );
+    return () => job.abort();
+  }, [start, end, origin]);
+
+  return state;
+}
@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, Download, Link, Pencil, Trash2, Upload } from 'lucide-react';
+import { loadPresets, newPresetId, parsePresetFile, serializePresets, storePresets, type Preset } from './presets';
+import type { ViewState } from './viewState';
+import { downloadBlob } from '../download';
+
+interface PresetsPanelProps {
+  view: ViewState;
+  applyView: (view: ViewState) => void;
+}
+
+export function PresetsPanel({ view, applyView }: PresetsPanelProps) {
+  const [presets, setPresets] = useState<Preset[]>(() => loadPresets());
+  const [name, setName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => { storePresets(presets); }, [presets]);
+
+  const save = () => {
+    const label = name.trim() || `Preset ${presets.length + 1}`;
+    setPresets(ps => [...ps, { id: newPresetId(), name: label, savedAt: new Date().toISOString(), view }]);
+    setName('');
+  };
+
+  const rename = () => {
+    if (!editing) return;
+    const label = editing.name.trim();
+    if (label) setPresets(ps => ps.map(p => (p.id === editing.id ? { ...p, name: label } : p)));
+    setEditing(null);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const incoming = parsePresetFile(await file.text());
+      setPresets(ps => {
+        const taken = new Set(ps.map(p => p.id));
+        return [...ps, ...incoming.map(p => (taken.has(p.id) ? { ...p, id: newPresetId() } : p))];
+      });
+      setMessage({ text: `Imported ${incoming.length} preset${incoming.length === 1 ? '' : 's'}`, error: false });
+    } catch (err) {
+      setMessage({ text: `Import failed: ${err instanceof Error ? err.message : String(err)}`, error: true });
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage({ text: 'Link copied', error: false });
+    } catch {
+      setMessage({ text: 'Copy the address bar to share this view', error: false });
+    }
+  };
+
+  const exportPresets = (list: Preset[], filename: string) =>
+    downloadBlob(serializePresets(list), filename, 'application/json');
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white font-semibold">Presets</h3>
+        <button onClick={copyLink} className="text-gray-300 hover:text-white" title="Copy a link to this exact view">
+          <Link size={16} />
+        </button>
+      </div>
+      <div className="space-y-2 text-sm">
+        <div className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+            placeholder="Name this view"
+            className="flex-1 min-w-0 bg-white/10 text-white rounded px-2 py-1 border border-white/20 placeholder:text-gray-400"
+          />
+          <button onClick={save} className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded">Save</button>
+        </div>
+
+        {presets.map(p => (
+          <div key={p.id} className="flex items-center gap-2 text-gray-200">
+            {editing?.id === p.id ? (
+              <>
+                <input
+                  autoFocus
+                  value={editing.name}
+                  onChange={(e) => setEditing({ id: p.id, name: e.target.value })}
+                  onKeyDown={(e) => { if (e.key === 'Enter') rename(); if (e.key === 'Escape') setEditing(null); }}
+                  onBlur={rename}
+                  className="flex-1 min-w-0 bg-white/10 text-white rounded px-1 border border-white/20"
+                />
+                <button onMouseDown={(e) => e.preventDefault()} onClick={rename} className="hover:text-white" title="Confirm name"><Check size={14} /></button>
+              </>
+            ) : (
+              <>
+                <button onClick={() => applyView(p.view)} className="flex-1 min-w-0 text-left truncate hover:text-white" title={`Load (saved ${new Date(p.savedAt).toLocaleString()})`}>
+                  {p.name}
+                </button>
+                <button onClick={() => setEditing({ id: p.id, name: p.name })} className="hover:text-white" title="Rename"><Pencil size={14} /></button>
+              </>
+            )}
+            <button onClick={() => exportPresets([p], `${p.name.replace(/[^\w.-]+/g, '_')}.json`)} className="hover:text-white" title="Export as JSON"><Download size={14} /></button>
+            <button onClick={() => setPresets(ps => ps.filter(q => q.id !== p.id))} className="hover:text-white" title="Delete"><Trash2 size={14} /></button>
+          </div>
+        ))}
+
+        <div className="flex gap-2 pt-1">
+          <button onClick={() => fileRef.current?.click()} className="flex-1 flex items-center justify-center gap-1 bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded">
+            <Upload size={14} />Import
+          </button>
+          <button
+            onClick={() => exportPresets(presets, 'prime-spirals-presets.json')}
+            disabled={presets.length === 0}
+            className="flex-1 flex items-center justify-center gap-1 bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded disabled:opacity-40"
+          >
+            <Download size={14} />Export all
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {message && <div className={`text-xs ${message.error ? 'text-red-300' : 'text-gray-400'}`}>{message.text}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { DEFAULT_VIEW, migrateView, sanitizeView, type ViewState } from './viewState';
+
+/* -------------------- Named presets (localStorage) -------------------- */
+export interface Preset {
+  id: string;
+  name: string;
+  /** ISO timestamp of the last save. */
+  savedAt: string;
+  view: ViewState;
+}
+
+interface PresetFile {
+  format: 'prime-spirals-3d/presets';
+  version: 1;
+  presets: Preset[];
+}
+
+const STORAGE_KEY = 'prime-spirals-3d:presets';
+
+export function newPresetId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function loadPresets(): Preset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parsePresetFile(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storePresets(presets: Preset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+  } catch {
+    // Private mode or quota exceeded: presets simply don't persist.
+  }
+}
+
+export function serializePresets(presets: Preset[]): string {
+  const file: PresetFile = { format: 'prime-spirals-3d/presets', version: 1, presets };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads a preset file (or a bare array of presets). Views are migrated and merged over the defaults so
+ * files written before a field existed still load. Throws with a readable message on malformed input.
+ */
+export function parsePresetFile(text: string): Preset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const list = Array.isArray(data) ? data : (data as Partial<PresetFile> | null)?.presets;
+  if (!Array.isArray(list)) throw new Error('Expected a "presets" array');
+
+  return list.map((entry, i) => {
+    if (!entry || typeof entry !== 'object') throw new Error(`Preset #${i + 1} is not an object`);
+    const { id, name, savedAt, view } = entry as Partial<Preset>;
+    if (typeof name !== 'string' || !name.trim()) throw new Error(`Preset #${i + 1} has no name`);
+    if (!view || typeof view !== 'object') throw new Error(`Preset "${name}" has no view`);
+    return {
+      id: typeof id === 'string' && id ? id : newPresetId(),
+      name: name.trim(),
+      savedAt: typeof savedAt === 'string' ? savedAt : new Date().toISOString(),
+      view: sanitizeView({ ...DEFAULT_VIEW, ...migrateView(view as unknown as Record<string, unknown>) }),
+    };
+  });
+}
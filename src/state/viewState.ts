@@ -0,0 +1,475 @@
+import type { SequenceLayerState } from '../sequences/useSequenceLayers';
+import '../sequences/builtins';
+import { clampParams, getSequence, type SequenceParams } from '../sequences/registry';
+import { COLOR_SCHEMES } from '../coloring/schemes';
+import { DEFAULT_CUSTOM_GEOMETRY, validateParamName, type CustomGeometry, type CustomParam } from '../expr/customGeometry';
+import type { GeometryParams } from '../geometry/types';
+import {
+  DEFAULT_CAMERA, MAX_FOCAL_LENGTH, MIN_FOCAL_LENGTH, cameraFromEuler, quatNormalize, type Camera, type Quat, type Vec3,
+} from '../render/camera';
+import { DEFAULT_TIMELINE, EASINGS, type Keyframe, type Timeline } from '../timeline/timeline';
+import {
+  DEFAULT_LATTICE_OPTIONS, LIFTS, MAX_NORM_BOUND, MIN_NORM_BOUND, isNumberDomain, type LatticeOptions, type NumberDomain,
+} from '../domains/lattice';
+
+/* -------------------- View state -------------------- */
+export type Renderer = 'canvas' | 'svg';
+
+/** A registered geometry id (or 'custom'); unknown ids fall back to the default geometry at render time. */
+export type Mode = string;
+const MODE_ID = /^[\w-]+$/;
+
+// One DOM node per dot stops being interactive past a few thousand points; the canvas path batches them.
+export const SVG_MAX_N = 10000;
+export const CANVAS_MAX_N = 10_000_000;
+// √(10^14) = 10^7 keeps the worker's base-prime table at a few MB.
+export const MAX_START = 1e14;
+
+/* -------------------- Far windows -------------------- */
+// Past MAX_START the window keeps its first number − 1 as an exact BigInt `origin` and numbers its
+// points 1 … N relative to it, which is also what the geometries see; primality comes from
+// Miller–Rabin instead of the sieve. Exact values are `origin + n` wherever a number is shown.
+// Every base set Miller–Rabin uses below 2^64 is proven, and 10^19 + FAR_MAX_N stays below it.
+export const MAX_FAR_START = 10n ** 19n;
+// About two seconds of Miller–Rabin near 10^18
+export const FAR_MAX_N = 1_000_000;
+// A far window's first number, origin + 1, is at most MAX_FAR_START
+const MAX_ORIGIN = MAX_FAR_START - 1n;
+
+/** The exact value of window-relative n. */
+export function exactN(n: number, origin: bigint): bigint {
+  return origin + BigInt(n);
+}
+
+/** n as shown to the user: exact, with digit grouping. */
+export function formatN(n: number, origin: bigint): string {
+  return origin ? exactN(n, origin).toLocaleString() : n.toLocaleString();
+}
+
+/** Splits an exact first number into the sieved (origin 0) or far representation. */
+export function splitStart(first: bigint): { origin: bigint; start: number } {
+  if (first <= BigInt(MAX_START)) return { origin: 0n, start: Math.max(1, Number(first)) };
+  const origin = first - 1n;
+  return { origin: origin > MAX_ORIGIN ? MAX_ORIGIN : origin, start: 1 };
+}
+
+/** First number of a window of N centred on `value`; far windows hold at most FAR_MAX_N, so they centre on that. */
+export function windowStartAround(value: bigint, N: number): bigint {
+  const half = (size: number) => BigInt(Math.floor(size / 2));
+  const first = value > half(N) ? value - half(N) : 1n;
+  return first > BigInt(MAX_START) ? value - half(Math.min(N, FAR_MAX_N)) : first;
+}
+
+/** The largest number a window of N can be moved to contain, its start being clamped to MAX_FAR_START. */
+export function lastReachable(N: number): bigint {
+  return MAX_FAR_START + BigInt(Math.min(N, FAR_MAX_N)) - 1n;
+}
+
+/** Parses typed or linked digits ("1,000,000" and "1_000" allowed) as an exact positive integer. */
+export function parseExact(text: string): bigint | null {
+  const digits = text.replace(/[,_\s]/g, '');
+  return /^\d+$/.test(digits) && BigInt(digits) >= 1n ? BigInt(digits) : null;
+}
+
+/** Everything needed to reproduce a view exactly; what the URL hash and presets store. */
+export interface ViewState {
+  /** Rational integers along `mode`, or Gaussian or Eisenstein integers in the plane lifted per `lattice`. */
+  domain: NumberDomain;
+  mode: Mode;
+  start: number;
+  /** Decimal BigInt; '0' except in far windows, where n = 1 stands for origin + 1. */
+  origin: string;
+  N: number;
+  /** Non-default parameter values per geometry id; missing entries use the schema defaults. */
+  geometryParams: Record<string, GeometryParams>;
+  custom: CustomGeometry;
+  lattice: LatticeOptions;
+  dotSize: number;
+  animationSpeed: number;
+  camera: Camera;
+  /** Re-frame the camera around the points whenever the geometry or window changes. */
+  autoFit: boolean;
+  showAllNumbers: boolean;
+  showAxes: boolean;
+  perspective: boolean;
+  renderer: Renderer;
+  showPrimes: boolean;
+  sequenceLayers: SequenceLayerState[];
+  colorScheme: string;
+  colorParams: SequenceParams;
+  timeline: Timeline;
+}
+
+export const DEFAULT_VIEW: ViewState = {
+  domain: 'integers',
+  mode: 'helix',
+  start: 1,
+  origin: '0',
+  N: 2000,
+  geometryParams: {},
+  custom: DEFAULT_CUSTOM_GEOMETRY,
+  lattice: DEFAULT_LATTICE_OPTIONS,
+  dotSize: 3,
+  animationSpeed: 1,
+  camera: DEFAULT_CAMERA,
+  autoFit: true,
+  showAllNumbers: false,
+  showAxes: false,
+  perspective: true,
+  renderer: 'canvas',
+  showPrimes: true,
+  sequenceLayers: [],
+  colorScheme: 'hue',
+  colorParams: {},
+  timeline: DEFAULT_TIMELINE,
+};
+
+type NumberKey = { [K in keyof ViewState]: ViewState[K] extends number ? K : never }[keyof ViewState];
+type BooleanKey = { [K in keyof ViewState]: ViewState[K] extends boolean ? K : never }[keyof ViewState];
+
+// `start` is written separately: the hash holds the exact first number, origin included
+const NUMBER_KEYS: NumberKey[] = ['N', 'dotSize', 'animationSpeed'];
+const BOOLEAN_KEYS: BooleanKey[] = ['showAllNumbers', 'showAxes', 'perspective', 'showPrimes', 'autoFit'];
+
+/* -------------------- Legacy flat parameters -------------------- */
+// Links and presets saved before geometries became plugins stored every parameter as a flat key.
+// The angle step was shared by all modes, so it fans out to each geometry that declares one.
+const STEP_ANGLE_MODES = ['helix', 'spherical', 'conical', 'layered', 'toroidal', 'logarithmic', 'custom'];
+const LEGACY_PARAMS: Record<string, [string, string][]> = {
+  stepAngle: STEP_ANGLE_MODES.map(id => [id, 'stepAngle']),
+  radius: [['helix', 'radius']],
+  pitch: [['helix', 'pitch']],
+  a: [['conical', 'a']],
+  b: [['conical', 'b']],
+  c: [['conical', 'c']],
+  blockSize: [['layered', 'blockSize']],
+  layerRadius: [['layered', 'layerRadius']],
+  sacksScale: [['sacks', 'scale']],
+  sacksLift: [['sacks', 'lift']],
+  ulamSpacing: [['ulam', 'spacing']],
+  ulamLift: [['ulam', 'lift']],
+  torusMajor: [['toroidal', 'major']],
+  torusMinor: [['toroidal', 'minor']],
+  torusP: [['toroidal', 'p']],
+  torusQ: [['toroidal', 'q']],
+  fibRadius: [['fibonacci', 'radius']],
+  fibDeviation: [['fibonacci', 'deviation']],
+  logBase: [['logarithmic', 'base']],
+  logGrowth: [['logarithmic', 'growth']],
+  coneSlope: [['logarithmic', 'slope']],
+};
+
+/** Moves legacy flat keys (from a hash or an old preset) into geometryParams; newer values win. */
+function migrateLegacyParams(read: (key: string) => unknown, into: Record<string, GeometryParams>): Record<string, GeometryParams> {
+  const out: Record<string, GeometryParams> = {};
+  for (const [key, targets] of Object.entries(LEGACY_PARAMS)) {
+    const v = read(key);
+    if (typeof v !== 'number' || !Number.isFinite(v)) continue;
+    for (const [id, name] of targets) (out[id] ??= {})[name] = v;
+  }
+  for (const [id, params] of Object.entries(into)) out[id] = { ...out[id], ...params };
+  return out;
+}
+
+/** Upgrades a stored view object of any age; unknown keys are dropped later by the merge over defaults. */
+export function migrateView(raw: Record<string, unknown>): Partial<ViewState> {
+  const { geometryParams, rotation, zoom, ...rest } = raw;
+  const current = geometryParams && typeof geometryParams === 'object' ? geometryParams as Record<string, GeometryParams> : {};
+  for (const key of Object.keys(LEGACY_PARAMS)) delete rest[key];
+  const out = { ...rest, geometryParams: migrateLegacyParams(key => raw[key], current) } as Partial<ViewState>;
+  // Before the orbit camera, views stored Euler angles and a zoom factor around the origin
+  const r = rotation as { x?: unknown; y?: unknown } | undefined;
+  if (!out.camera && (r || typeof zoom === 'number')) {
+    out.camera = cameraFromEuler(Number(r?.x) || 0, Number(r?.y) || 0, typeof zoom === 'number' ? zoom : 1);
+    out.autoFit = false;
+  }
+  return out;
+}
+
+/* -------------------- Compact "id(key=value,…)" terms -------------------- */
+// Layers and the color scheme are written as e.g. `twin,-semiprime,k-distinct(k=3)`; a leading '-' hides a layer.
+function formatTerm(id: string, params: SequenceParams): string {
+  const entries = Object.entries(params);
+  return entries.length ? `${id}(${entries.map(([k, v]) => `${k}=${v}`).join(',')})` : id;
+}
+
+function parseTerms(text: string): { id: string; params: SequenceParams }[] {
+  const terms: { id: string; params: SequenceParams }[] = [];
+  const re = /([^,()]+)(?:\(([^)]*)\))?/g;
+  for (const m of text.matchAll(re)) {
+    const params: SequenceParams = {};
+    for (const pair of (m[2] ?? '').split(',').filter(Boolean)) {
+      const [k, v] = pair.split('=');
+      const num = Number(v);
+      if (k && Number.isFinite(num)) params[k.trim()] = num;
+    }
+    terms.push({ id: m[1].trim(), params });
+  }
+  return terms;
+}
+
+/* -------------------- Camera fields -------------------- */
+// Six significant digits keep links short; the camera moves every frame while animating.
+const round = (v: number) => Number(v.toPrecision(6));
+const formatVector = (v: readonly number[]) => v.map(round).join(',');
+
+function vector(text: string | null, length: number): number[] | undefined {
+  const v = text?.split(',').map(Number);
+  return v && v.length === length && v.every(Number.isFinite) ? v : undefined;
+}
+
+function sanitizeCamera(camera: Camera): Camera {
+  const c = camera as Partial<Camera> | null;
+  const finite = (v: unknown, n: number) => Array.isArray(v) && v.length === n && v.every(Number.isFinite);
+  return {
+    orientation: finite(c?.orientation, 4) ? quatNormalize(c!.orientation!) : DEFAULT_CAMERA.orientation,
+    target: finite(c?.target, 3) ? c!.target! : DEFAULT_CAMERA.target,
+    distance: Number.isFinite(c?.distance) && c!.distance! > 0 ? c!.distance! : DEFAULT_CAMERA.distance,
+    focalLength: Number.isFinite(c?.focalLength)
+      ? Math.max(MIN_FOCAL_LENGTH, Math.min(MAX_FOCAL_LENGTH, c!.focalLength!))
+      : DEFAULT_CAMERA.focalLength,
+  };
+}
+
+/* -------------------- Hash encoding -------------------- */
+/** Serializes the fields that differ from the defaults, so shared links stay short and readable. */
+export function encodeViewState(view: ViewState): string {
+  const q = new URLSearchParams();
+  if (view.domain !== DEFAULT_VIEW.domain) q.set('domain', view.domain);
+  if (view.mode !== DEFAULT_VIEW.mode) q.set('mode', view.mode);
+  const first = exactN(view.start, BigInt(view.origin));
+  if (first !== BigInt(DEFAULT_VIEW.start)) q.set('start', String(first));
+  for (const key of NUMBER_KEYS) if (view[key] !== DEFAULT_VIEW[key]) q.set(key, String(view[key]));
+  for (const [id, params] of Object.entries(view.geometryParams)) {
+    for (const [name, value] of Object.entries(params)) q.set(`${id}.${name}`, String(value));
+  }
+  const { camera } = view;
+  if (camera.orientation.some((v, i) => v !== DEFAULT_CAMERA.orientation[i])) q.set('rot', formatVector(camera.orientation));
+  if (camera.target.some(v => v !== 0)) q.set('target', formatVector(camera.target));
+  if (camera.distance !== DEFAULT_CAMERA.distance) q.set('dist', String(round(camera.distance)));
+  if (camera.focalLength !== DEFAULT_CAMERA.focalLength) q.set('focal', String(camera.focalLength));
+  for (const key of BOOLEAN_KEYS) if (view[key] !== DEFAULT_VIEW[key]) q.set(key, view[key] ? '1' : '0');
+  if (view.renderer !== DEFAULT_VIEW.renderer) q.set('renderer', view.renderer);
+  if (JSON.stringify(view.custom) !== JSON.stringify(DEFAULT_VIEW.custom)) {
+    q.set('cx', view.custom.x);
+    q.set('cy', view.custom.y);
+    q.set('cz', view.custom.z);
+    q.set('cparams', view.custom.params.map(p => [p.name, p.value, p.min, p.max, p.step].join(':')).join(','));
+  }
+  const { lattice } = view, defaults = DEFAULT_VIEW.lattice;
+  if (lattice.normBound !== defaults.normBound) q.set('norm', String(lattice.normBound));
+  if (lattice.lift !== defaults.lift) q.set('lift', lattice.lift);
+  if (lattice.height !== defaults.height) q.set('liftH', String(lattice.height));
+  if (lattice.expr !== defaults.expr) q.set('liftZ', lattice.expr);
+  if (view.sequenceLayers.length) {
+    q.set('layers', view.sequenceLayers.map(l => (l.visible ? '' : '-') + formatTerm(l.id, l.params)).join(','));
+  }
+  if (view.colorScheme !== DEFAULT_VIEW.colorScheme || Object.keys(view.colorParams).length) {
+    q.set('color', formatTerm(view.colorScheme, view.colorParams));
+  }
+  if (JSON.stringify(view.timeline) !== JSON.stringify(DEFAULT_VIEW.timeline)) {
+    q.set('timeline', JSON.stringify(view.timeline, (_, v) => (typeof v === 'number' ? round(v) : v)));
+  }
+  // URLSearchParams escapes '(' ',' '='; they are safe in a fragment, so keep them readable.
+  return q.toString().replace(/%28/g, '(').replace(/%29/g, ')').replace(/%2C/g, ',').replace(/%3D/g, '=');
+}
+
+/** Parses a hash (with or without '#'), ignoring unknown keys and malformed values. */
+export function decodeViewState(hash: string): Partial<ViewState> {
+  const q = new URLSearchParams(hash.replace(/^#/, ''));
+  const out: Partial<ViewState> = {};
+  const num = (key: string) => {
+    const raw = q.get(key);
+    const v = raw === null || raw.trim() === '' ? NaN : Number(raw);
+    return Number.isFinite(v) ? v : undefined;
+  };
+
+  const domain = q.get('domain');
+  if (isNumberDomain(domain)) out.domain = domain;
+  const mode = q.get('mode');
+  if (mode && MODE_ID.test(mode)) out.mode = mode;
+  const first = parseExact(q.get('start') ?? '');
+  if (first !== null) {
+    const { origin, start } = splitStart(first);
+    out.start = start;
+    out.origin = String(origin);
+  }
+  for (const key of NUMBER_KEYS) {
+    const v = num(key);
+    if (v !== undefined) out[key] = v;
+  }
+  const geometryParams: Record<string, GeometryParams> = {};
+  for (const key of new Set(q.keys())) {
+    const m = /^([\w-]+)\.(\w+)$/.exec(key);
+    const v = m ? num(key) : undefined;
+    if (m && v !== undefined) (geometryParams[m[1]] ??= {})[m[2]] = v;
+  }
+  const migrated = migrateLegacyParams(num, geometryParams);
+  if (Object.keys(migrated).length) out.geometryParams = migrated;
+  const orientation = vector(q.get('rot'), 4) as Quat | undefined;
+  const target = vector(q.get('target'), 3) as Vec3 | undefined;
+  const dist = num('dist'), focal = num('focal');
+  if (orientation || target || dist !== undefined || focal !== undefined) {
+    out.camera = {
+      orientation: orientation ?? DEFAULT_CAMERA.orientation,
+      target: target ?? DEFAULT_CAMERA.target,
+      distance: dist ?? DEFAULT_CAMERA.distance,
+      focalLength: focal ?? DEFAULT_CAMERA.focalLength,
+    };
+  } else {
+    // Links from before the orbit camera: rx/ry Euler angles and a zoom factor
+    const rx = num('rx'), ry = num('ry'), zoom = num('zoom');
+    if (rx !== undefined || ry !== undefined || zoom !== undefined) {
+      out.camera = cameraFromEuler(rx ?? 0, ry ?? 0, zoom ?? 1);
+      out.autoFit = false;
+    }
+  }
+  for (const key of BOOLEAN_KEYS) {
+    const raw = q.get(key);
+    if (raw === '1' || raw === '0') out[key] = raw === '1';
+  }
+  const renderer = q.get('renderer');
+  if (renderer === 'canvas' || renderer === 'svg') out.renderer = renderer;
+  const cx = q.get('cx'), cy = q.get('cy'), cz = q.get('cz');
+  if (cx !== null && cy !== null && cz !== null) {
+    const params: CustomParam[] = [];
+    for (const entry of (q.get('cparams') ?? '').split(',').filter(Boolean)) {
+      const [name, ...nums] = entry.split(':');
+      const [value, min, max, step] = nums.map(Number);
+      if (name && [value, min, max, step].every(Number.isFinite) && step > 0) params.push({ name, value, min, max, step });
+    }
+    out.custom = { x: cx, y: cy, z: cz, params };
+  }
+  const norm = num('norm'), lift = q.get('lift'), liftH = num('liftH'), liftZ = q.get('liftZ');
+  if (norm !== undefined || lift !== null || liftH !== undefined || liftZ !== null) {
+    const d = DEFAULT_VIEW.lattice;
+    out.lattice = { normBound: norm ?? d.normBound, lift: (lift ?? d.lift) as LatticeOptions['lift'], height: liftH ?? d.height, expr: liftZ ?? d.expr };
+  }
+  const layers = q.get('layers');
+  if (layers !== null) {
+    out.sequenceLayers = parseTerms(layers).map(({ id, params }) => ({
+      id: id.replace(/^-/, ''),
+      visible: !id.startsWith('-'),
+      params,
+    }));
+  }
+  const timeline = q.get('timeline');
+  if (timeline) {
+    try { out.timeline = JSON.parse(timeline); } catch { /* malformed: keep the default */ }
+  }
+  const color = q.get('color');
+  if (color) {
+    const [term] = parseTerms(color);
+    if (term) { out.colorScheme = term.id; out.colorParams = term.params; }
+  }
+  return sanitizeView(out);
+}
+
+/** Clamps values that would make the app allocate absurd amounts of memory or divide by zero. */
+export function sanitizeView<T extends Partial<ViewState>>(view: T): T {
+  const v = { ...view };
+  // Presets are files anyone can edit: every field is checked for its type, and a wrong one takes the default
+  const finite = (x: unknown): x is number => typeof x === 'number' && Number.isFinite(x);
+  const clamp = (x: unknown, lo: number, hi: number, fallback: number) => (finite(x) ? Math.max(lo, Math.min(hi, x)) : fallback);
+  if (v.renderer !== undefined && v.renderer !== 'canvas' && v.renderer !== 'svg') v.renderer = DEFAULT_VIEW.renderer;
+  if (v.start !== undefined) v.start = Math.floor(clamp(v.start, 1, MAX_START, DEFAULT_VIEW.start));
+  if (v.origin !== undefined) {
+    const origin = typeof v.origin === 'string' && /^\d+$/.test(v.origin) ? BigInt(v.origin) : 0n;
+    v.origin = String(origin > MAX_ORIGIN ? MAX_ORIGIN : origin);
+  }
+  if (v.N !== undefined) {
+    const max = Math.min(v.renderer === 'svg' ? SVG_MAX_N : CANVAS_MAX_N, v.origin && v.origin !== '0' ? FAR_MAX_N : Infinity);
+    v.N = Math.floor(clamp(v.N, 100, max, Math.min(max, DEFAULT_VIEW.N)));
+  }
+  if (v.mode !== undefined && (typeof v.mode !== 'string' || !MODE_ID.test(v.mode))) v.mode = DEFAULT_VIEW.mode;
+  if (v.domain !== undefined && !isNumberDomain(v.domain)) v.domain = DEFAULT_VIEW.domain;
+  if (v.lattice !== undefined) v.lattice = sanitizeLattice(v.lattice);
+  if (v.camera !== undefined) v.camera = sanitizeCamera(v.camera);
+  if (v.geometryParams !== undefined) v.geometryParams = sanitizeGeometryParams(v.geometryParams);
+  if (v.dotSize !== undefined) v.dotSize = clamp(v.dotSize, 1, 8, DEFAULT_VIEW.dotSize);
+  if (v.animationSpeed !== undefined) v.animationSpeed = clamp(v.animationSpeed, 0.1, 3, DEFAULT_VIEW.animationSpeed);
+  for (const key of BOOLEAN_KEYS) if (v[key] !== undefined && typeof v[key] !== 'boolean') v[key] = DEFAULT_VIEW[key];
+  if (v.sequenceLayers !== undefined) v.sequenceLayers = sanitizeLayers(v.sequenceLayers);
+  if (v.colorScheme !== undefined && typeof v.colorScheme !== 'string') v.colorScheme = DEFAULT_VIEW.colorScheme;
+  // A shared link could ask for a modulus of 10⁸ and its palette: parameters stay inside their sliders' ranges
+  if (v.colorParams !== undefined) {
+    const scheme = COLOR_SCHEMES.find(s => s.id === (v.colorScheme ?? DEFAULT_VIEW.colorScheme));
+    v.colorParams = clampParams(scheme?.params, numbersOf(v.colorParams));
+  }
+  if (v.custom !== undefined) v.custom = isCustomGeometry(v.custom) ? sanitizeCustomParams(v.custom) : DEFAULT_CUSTOM_GEOMETRY;
+  if (v.timeline !== undefined) v.timeline = sanitizeTimeline(v.timeline);
+  return v;
+}
+
+/** The finite numbers of a params object; anything else in it, or a non-object, is dropped. */
+function numbersOf(value: unknown): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter(([, x]) => typeof x === 'number' && Number.isFinite(x)));
+}
+
+function sanitizeLayers(value: unknown): SequenceLayerState[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(l => l && typeof l === 'object' && typeof l.id === 'string' && l.id)
+    .map(l => ({ id: l.id, visible: typeof l.visible === 'boolean' ? l.visible : true, params: clampParams(getSequence(l.id)?.params, numbersOf(l.params)) }));
+}
+
+// Range checks need the schema and happen in resolveGeometryParams; this only drops non-numbers.
+function sanitizeGeometryParams(value: unknown): Record<string, GeometryParams> {
+  const out: Record<string, GeometryParams> = {};
+  if (!value || typeof value !== 'object') return out;
+  for (const [id, params] of Object.entries(value)) {
+    if (!MODE_ID.test(id) || !params || typeof params !== 'object') continue;
+    const clean = Object.entries(params).filter(([, v]) => typeof v === 'number' && Number.isFinite(v));
+    if (clean.length) out[id] = Object.fromEntries(clean) as GeometryParams;
+  }
+  return out;
+}
+
+function sanitizeTimeline(value: unknown): Timeline {
+  const t = value as Partial<Timeline> | null;
+  if (!t || typeof t !== 'object' || !Array.isArray(t.keyframes)) return DEFAULT_TIMELINE;
+  const keyframes: Keyframe[] = [];
+  for (const k of t.keyframes as Partial<Keyframe>[]) {
+    if (!k || !Number.isFinite(k.time) || !Number.isFinite(k.N) || !k.camera) continue;
+    const params = sanitizeGeometryParams({ p: k.params }).p ?? {};
+    keyframes.push({
+      time: Math.max(0, k.time!),
+      easing: typeof k.easing === 'string' && Object.prototype.hasOwnProperty.call(EASINGS, k.easing) ? k.easing : 'ease-in-out',
+      camera: sanitizeCamera(k.camera),
+      N: Math.max(100, Math.min(CANVAS_MAX_N, Math.floor(k.N!))),
+      params,
+    });
+  }
+  return {
+    duration: Number.isFinite(t.duration) && t.duration! > 0 ? Math.min(600, t.duration!) : DEFAULT_TIMELINE.duration,
+    fps: Number.isFinite(t.fps) && t.fps! > 0 ? Math.min(120, Math.round(t.fps!)) : DEFAULT_TIMELINE.fps,
+    keyframes: keyframes.sort((a, b) => a.time - b.time),
+  };
+}
+
+function sanitizeLattice(value: unknown): LatticeOptions {
+  const l = value as Partial<LatticeOptions> | null;
+  const d = DEFAULT_LATTICE_OPTIONS;
+  if (!l || typeof l !== 'object') return d;
+  return {
+    normBound: Number.isFinite(l.normBound) ? Math.max(MIN_NORM_BOUND, Math.min(MAX_NORM_BOUND, Math.floor(l.normBound!))) : d.normBound,
+    lift: LIFTS.some(x => x.id === l.lift) ? l.lift! : d.lift,
+    height: Number.isFinite(l.height) ? Math.max(0, Math.min(2, l.height!)) : d.height,
+    expr: typeof l.expr === 'string' ? l.expr : d.expr,
+  };
+}
+
+// Links and presets may name parameters the panel would refuse (built-ins, duplicates); those are dropped.
+function sanitizeCustomParams(geometry: CustomGeometry): CustomGeometry {
+  const params: CustomParam[] = [];
+  for (const p of geometry.params) if (validateParamName(p.name, params) === null) params.push(p);
+  return params.length === geometry.params.length ? geometry : { ...geometry, params };
+}
+
+function isCustomGeometry(value: unknown): value is CustomGeometry {
+  const g = value as Partial<CustomGeometry> | null;
+  return !!g && typeof g.x === 'string' && typeof g.y === 'string' && typeof g.z === 'string'
+    && Array.isArray(g.params)
+    && g.params.every(p => p && typeof p.name === 'string' && [p.value, p.min, p.max, p.step].every(Number.isFinite));
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import type { Camera } from '../render/camera';
+import type { Point3D } from '../geometry/types';
+import { packPointCloud, type PackOptions } from '../render/pointCloud';
+import { STEREO_MODES, type StereoMode, type StereoOptions } from '../render/stereo';
+import { wiggleFrames, wiggleGIF } from '../export/wiggle';
+import { downloadBlob } from '../download';
+
+interface StereoPanelProps {
+  stereo: StereoOptions;
+  setStereo: React.Dispatch<React.SetStateAction<StereoOptions>>;
+  points: Point3D[];
+  pack: PackOptions;
+  camera: Camera;
+  perspective: boolean;
+  dotSize: number;
+  viewport: { width: number; height: number };
+}
+
+/** Stereo mode, eye separation and convergence, and the wiggle-stereogram export. */
+export function StereoPanel({ stereo, setStereo, points, pack, camera, perspective, dotSize, viewport }: StereoPanelProps) {
+  const [steps, setSteps] = useState(2);
+  const [delay, setDelay] = useState(120);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (format: 'gif' | 'png') => {
+    setBusy(true);
+    setError(null);
+    try {
+      const scene = { cloud: packPointCloud(points, pack), camera, perspective, dotSize, viewport };
+      const options = { scale: 1, steps, delay };
+      const blob = format === 'gif' ? wiggleGIF(scene, stereo, options) : await wiggleFrames(scene, stereo, options);
+      downloadBlob(blob, `prime-spirals-wiggle.${format === 'gif' ? 'gif' : 'zip'}`, blob.type || 'application/zip');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20">
+      <h3 className="text-white font-semibold mb-3">Stereo 3D</h3>
+      <div className="space-y-3 text-sm">
+        <select
+          value={stereo.mode}
+          onChange={(e) => setStereo(s => ({ ...s, mode: e.target.value as StereoMode }))}
+          className="w-full bg-white/10 text-white rounded px-2 py-1 border border-white/20"
+        >
+          {STEREO_MODES.map(m => <option key={m.id} value={m.id} className="text-gray-900">{m.label}</option>)}
+        </select>
+
+        <div>
+          <label className="text-gray-300">Eye separation: {(stereo.separation * 100).toFixed(0)}% of the distance</label>
+          <input
+            type="range" min="0.01" max="0.2" step="0.01" value={stereo.separation}
+            onChange={(e) => setStereo(s => ({ ...s, separation: Number(e.target.value) }))}
+            className="w-full mt-1"
+          />
+        </div>
+        <div>
+          <label className="text-gray-300">Convergence: {stereo.convergence.toFixed(2)} × distance</label>
+          <input
+            type="range" min="0.25" max="3" step="0.05" value={stereo.convergence}
+            onChange={(e) => setStereo(s => ({ ...s, convergence: Number(e.target.value) }))}
+            className="w-full mt-1"
+          />
+          <p className="text-gray-400 text-xs mt-1">Points at this depth sit on the screen; nearer ones pop out.</p>
+        </div>
+
+        <div className="border-t border-white/10 pt-3 space-y-2">
+          <div className="text-gray-300">Wiggle stereogram</div>
+          <div className="flex items-center gap-2 text-gray-300">
+            <select
+              value={steps}
+              onChange={(e) => setSteps(Number(e.target.value))}
+              className="bg-white/10 text-white rounded px-1 border border-white/20"
+            >
+              <option value={2} className="text-gray-900">2 frames</option>
+              <option value={4} className="text-gray-900">4 frames</option>
+              <option value={6} className="text-gray-900">6 frames (smooth)</option>
+            </select>
+            <label>
+              <input
+                type="number" min={20} max={1000} step={10} value={delay}
+                onChange={(e) => { const v = Number(e.target.value); if (v >= 20) setDelay(v); }}
+                className="w-16 bg-white/10 text-white rounded px-1 border border-white/20"
+              /> ms
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => save('gif')} disabled={busy}
+              className="flex-1 flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white px-3 py-1.5 rounded"
+            >
+              <Download size={14} />GIF
+            </button>
+            <button
+              onClick={() => save('png')} disabled={busy}
+              className="flex-1 flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white px-3 py-1.5 rounded"
+            >
+              <Download size={14} />PNG frames
+            </button>
+          </div>
+        </div>
+        {error && <div className="text-red-300">Export failed: {error}</div>}
+      </div>
+    </div>
+  );
+}
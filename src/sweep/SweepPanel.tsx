@@ -0,0 +1,233 @@
+import { useEffect, useRef, useState } from 'react';
+import { Activity, Square } from 'lucide-react';
+import type { GeometryParams, SpiralGeometry } from '../geometry/types';
+import { ALIGNMENT_METRICS, convergents, findPeaks, getAlignmentMetric, sweepValues, type SweepSample } from './resonance';
+
+interface SweepPanelProps {
+  geometry: SpiralGeometry;
+  params: GeometryParams;
+  setParam: (name: string, value: number) => void;
+  N: number;
+  start: number;
+  isPrime: (n: number) => boolean;
+  /** False while the sieve for the current window is still running. */
+  ready: boolean;
+}
+
+/** Sweeps score this many numbers at most, so a frame stays within budget. */
+const SWEEP_MAX_N = 20_000;
+const PLOT_W = 1000;
+const PLOT_H = 140;
+
+interface SweepJob {
+  name: string;
+  values: number[];
+  index: number;
+  samples: SweepSample[];
+  /** The parameter's value before an animated sweep, restored when it completes or stops. */
+  restore: number;
+}
+
+/** Animates one geometry parameter across a range and plots how strongly the primes align. */
+export function SweepPanel({ geometry, params, setParam, N, start, isPrime, ready }: SweepPanelProps) {
+  const [name, setName] = useState(() => (geometry.params.some(p => p.name === 'stepAngle') ? 'stepAngle' : geometry.params[0]?.name ?? ''));
+  const schema = geometry.params.find(p => p.name === name) ?? geometry.params[0];
+  const [range, setRange] = useState({ from: schema?.min ?? 0, to: schema?.max ?? 1, steps: 300 });
+  const [metricId, setMetricId] = useState(ALIGNMENT_METRICS[0].id);
+  const [animate, setAnimate] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [samples, setSamples] = useState<SweepSample[]>([]);
+  const [hover, setHover] = useState<SweepSample | null>(null);
+  const job = useRef<SweepJob | null>(null);
+  const metric = getAlignmentMetric(metricId);
+
+  const selectParam = (next: string) => {
+    const p = geometry.params.find(q => q.name === next);
+    if (!p) return;
+    setName(p.name);
+    setRange(r => ({ ...r, from: p.min, to: p.max }));
+    setSamples([]);
+  };
+
+  // A different geometry has a different schema: fall back to its step angle or first parameter
+  useEffect(() => {
+    setRunning(false);
+    if (!geometry.params.some(p => p.name === name)) {
+      selectParam(geometry.params.some(p => p.name === 'stepAngle') ? 'stepAngle' : geometry.params[0]?.name ?? '');
+    }
+  }, [geometry.id]);
+
+  useEffect(() => {
+    if (!running || !job.current) return;
+    const j = job.current;
+    let raf = 0;
+    const tick = () => {
+      // Animated sweeps score one value per frame, the one on screen; otherwise as many as fit in ~12 ms
+      const deadline = performance.now() + 12;
+      do {
+        const value = j.values[j.index++];
+        const points = geometry.generate(Math.min(N, SWEEP_MAX_N), { ...params, [j.name]: value }, { start });
+        j.samples.push({ value, score: metric.score(points, isPrime) });
+      } while (!animate && j.index < j.values.length && performance.now() < deadline);
+      setSamples([...j.samples]);
+      if (animate) setParam(j.name, j.samples[j.samples.length - 1].value);
+      if (j.index >= j.values.length) {
+        if (animate) setParam(j.name, j.restore);
+        setRunning(false);
+        return;
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(raf);
+      // Stopped early (Stop, another geometry, unmount): put back the value the sweep started from
+      if (animate && j.index < j.values.length) setParam(j.name, j.restore);
+    };
+  }, [running]);
+
+  const run = () => {
+    if (!schema) return;
+    const steps = Math.max(2, Math.min(5000, Math.round(range.steps)));
+    job.current = { name: schema.name, values: sweepValues(range.from, range.to, steps), index: 0, samples: [], restore: params[schema.name] };
+    setSamples([]);
+    setRunning(true);
+  };
+
+  const peaks = running ? [] : findPeaks(samples);
+  const maxScore = Math.max(1e-9, ...samples.map(s => s.score));
+  const span = range.to - range.from || 1;
+  const xOf = (v: number) => ((v - range.from) / span) * PLOT_W;
+  const yOf = (s: number) => PLOT_H - 6 - (s / maxScore) * (PLOT_H - 12);
+  const sampleAt = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (samples.length === 0) return null;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const v = range.from + ((e.clientX - rect.left) / rect.width) * span;
+    return samples.reduce((best, s) => (Math.abs(s.value - v) < Math.abs(best.value - v) ? s : best));
+  };
+  const fmt = (v: number) => v.toFixed(Math.max(3, (String(schema?.step ?? 0.01).split('.')[1] ?? '').length + 1));
+  const isStepAngle = schema?.name === 'stepAngle';
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20 mt-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h3 className="text-white font-semibold mr-2">Parameter sweep</h3>
+        <select
+          value={schema?.name ?? ''}
+          onChange={(e) => selectParam(e.target.value)}
+          disabled={running}
+          className="bg-white/10 text-white rounded px-1 border border-white/20"
+        >
+          {geometry.params.map(p => <option key={p.name} value={p.name} className="text-gray-900">{p.label}</option>)}
+        </select>
+        <label className="text-gray-300">
+          from <input
+            type="number" step={schema?.step} value={range.from} disabled={running}
+            onChange={(e) => setRange(r => ({ ...r, from: Number(e.target.value) }))}
+            className="w-20 bg-white/10 text-white rounded px-1 border border-white/20"
+          />
+        </label>
+        <label className="text-gray-300">
+          to <input
+            type="number" step={schema?.step} value={range.to} disabled={running}
+            onChange={(e) => setRange(r => ({ ...r, to: Number(e.target.value) }))}
+            className="w-20 bg-white/10 text-white rounded px-1 border border-white/20"
+          />
+        </label>
+        <label className="text-gray-300">
+          steps <input
+            type="number" min={2} max={5000} value={range.steps} disabled={running}
+            onChange={(e) => setRange(r => ({ ...r, steps: Number(e.target.value) }))}
+            className="w-16 bg-white/10 text-white rounded px-1 border border-white/20"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-2">
+        <select
+          value={metricId}
+          onChange={(e) => setMetricId(e.target.value)}
+          disabled={running}
+          className="bg-white/10 text-white rounded px-1 border border-white/20"
+          title={metric.description}
+        >
+          {ALIGNMENT_METRICS.map(m => <option key={m.id} value={m.id} className="text-gray-900">{m.label}</option>)}
+        </select>
+        <label className="text-gray-300 flex items-center gap-1">
+          <input type="checkbox" checked={animate} disabled={running} onChange={(e) => setAnimate(e.target.checked)} />
+          Animate the view
+        </label>
+        <button
+          onClick={running ? () => setRunning(false) : run}
+          disabled={!running && (!ready || !schema)}
+          className="ml-auto bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded flex items-center gap-1 disabled:opacity-40"
+        >
+          {running ? <Square size={14} /> : <Activity size={14} />}{running ? 'Stop' : 'Sweep'}
+        </button>
+      </div>
+      <p className="text-gray-400 text-xs mb-2">
+        {metric.description}{N > SWEEP_MAX_N && ` Scored on the first ${SWEEP_MAX_N.toLocaleString()} numbers of the window.`}
+      </p>
+
+      <svg
+        viewBox={`0 0 ${PLOT_W} ${PLOT_H}`} preserveAspectRatio="none"
+        className="w-full h-36 bg-black/20 rounded cursor-crosshair"
+        onMouseMove={(e) => setHover(sampleAt(e))}
+        onMouseLeave={() => setHover(null)}
+        onClick={(e) => { const s = sampleAt(e); if (s && schema && !running) setParam(schema.name, s.value); }}
+      >
+        {schema && params[schema.name] >= range.from && params[schema.name] <= range.to && (
+          <line x1={xOf(params[schema.name])} x2={xOf(params[schema.name])} y1={0} y2={PLOT_H} stroke="rgba(255,255,255,0.35)" vectorEffect="non-scaling-stroke" />
+        )}
+        {peaks.map(p => (
+          <line key={p.value} x1={xOf(p.value)} x2={xOf(p.value)} y1={yOf(p.score)} y2={PLOT_H} stroke="#fde047" strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />
+        ))}
+        <polyline
+          points={samples.map(s => `${xOf(s.value)},${yOf(s.score)}`).join(' ')}
+          fill="none" stroke="#60a5fa" strokeWidth={1.5} vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-0.5 tabular-nums">
+        <span>{fmt(range.from)}</span>
+        <span>{hover ? `${schema?.label}: ${fmt(hover.value)} → ${hover.score.toFixed(3)}` : samples.length > 0 ? 'Click to jump' : ''}</span>
+        <span>{fmt(range.to)}</span>
+      </div>
+
+      {peaks.length > 0 && (
+        <table className="w-full mt-3 text-gray-200">
+          <thead>
+            <tr className="text-gray-400 text-xs text-left">
+              <th className="font-normal">{schema?.label}</th>
+              <th className="font-normal">Score</th>
+              {isStepAngle && <th className="font-normal">stepAngle / 2π ≈ p/q</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {peaks.map(p => (
+              <tr key={p.value}>
+                <td>
+                  <button onClick={() => setParam(schema!.name, p.value)} className="hover:text-white underline decoration-dotted tabular-nums">{fmt(p.value)}</button>
+                </td>
+                <td className="tabular-nums">{p.score.toFixed(3)}</td>
+                {isStepAngle && (
+                  <td className="space-x-2">
+                    {convergents(p.value / (2 * Math.PI), 200).filter(c => c.p > 0).slice(-3).map(c => (
+                      <button
+                        key={c.q}
+                        onClick={() => setParam('stepAngle', (2 * Math.PI * c.p) / c.q)}
+                        className="hover:text-white underline decoration-dotted tabular-nums"
+                        title={`Set stepAngle to 2π·${c.p}/${c.q} = ${((2 * Math.PI * c.p) / c.q).toFixed(6)}`}
+                      >
+                        {c.p}/{c.q}
+                      </button>
+                    ))}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
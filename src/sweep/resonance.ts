@@ -0,0 +1,125 @@
+import type { Point3D } from '../geometry/types';
+
+/* -------------------- Alignment scores -------------------- */
+export interface AlignmentMetric {
+  id: string;
+  label: string;
+  description: string;
+  /** 0 for uniformly spread prime angles, approaching 1 when they collapse onto a few directions. */
+  score: (points: Point3D[], isPrime: (n: number) => boolean) => number;
+}
+
+const BINS = 72;
+const TAU = 2 * Math.PI;
+
+/** Normalized entropy deficit of a histogram: 1 − H / ln(bins). */
+function entropyDeficit(hist: Uint32Array, total: number): number {
+  if (total === 0) return 0;
+  let h = 0;
+  for (const c of hist) if (c) h -= (c / total) * Math.log(c / total);
+  return 1 - h / Math.log(hist.length);
+}
+
+const binOf = (angle: number) => {
+  const a = angle - TAU * Math.floor(angle / TAU);
+  return Math.min(BINS - 1, Math.floor((a / TAU) * BINS));
+};
+
+/** Angles in the xy plane (around the z axis) of the primes, in order of n. */
+function primeAngles(points: Point3D[], isPrime: (n: number) => boolean): number[] {
+  const out: number[] = [];
+  for (const p of points) if (isPrime(p.n)) out.push(Math.atan2(p.y, p.x));
+  return out;
+}
+
+// Consecutive primes are a few gaps apart, so angle differences between them drift by gap × Δparam
+// rather than n × Δparam. Near-resonances stay visible as peaks a sweep step can land on.
+const LAGS = 4;
+
+export const ALIGNMENT_METRICS: AlignmentMetric[] = [
+  {
+    id: 'clustering',
+    label: 'Angular clustering',
+    description: `Entropy deficit of the angle between each prime and the next ${LAGS}. Spokes and spiral arms score high even when they slowly wind.`,
+    score: (points, isPrime) => {
+      const angles = primeAngles(points, isPrime);
+      const hist = new Uint32Array(BINS);
+      let total = 0;
+      for (let i = 0; i < angles.length; i++) {
+        for (let j = i + 1; j <= i + LAGS && j < angles.length; j++) { hist[binOf(angles[j] - angles[i])]++; total++; }
+      }
+      return entropyDeficit(hist, total);
+    },
+  },
+  {
+    id: 'entropy',
+    label: 'Angle entropy',
+    description: 'Entropy deficit of the prime angles mod 2π. Only exact resonances over the whole window score high.',
+    score: (points, isPrime) => {
+      const angles = primeAngles(points, isPrime);
+      const hist = new Uint32Array(BINS);
+      for (const a of angles) hist[binOf(a)]++;
+      return entropyDeficit(hist, angles.length);
+    },
+  },
+];
+
+export function getAlignmentMetric(id: string): AlignmentMetric {
+  return ALIGNMENT_METRICS.find(m => m.id === id) ?? ALIGNMENT_METRICS[0];
+}
+
+/* -------------------- Sweeps and peaks -------------------- */
+export interface SweepSample {
+  value: number;
+  score: number;
+}
+
+/** `steps` evenly spaced values from `from` to `to`, both included. */
+export function sweepValues(from: number, to: number, steps: number): number[] {
+  if (steps < 2) return [from];
+  return Array.from({ length: steps }, (_, i) => from + ((to - from) * i) / (steps - 1));
+}
+
+/**
+ * Local maxima that stand out from the background: above the median by `threshold` median absolute
+ * deviations. Best first, at most `max`.
+ */
+export function findPeaks(samples: SweepSample[], max = 8, threshold = 3): SweepSample[] {
+  if (samples.length < 3) return [];
+  const scores = samples.map(s => s.score).sort((a, b) => a - b);
+  const median = scores[scores.length >> 1];
+  const mad = samples.map(s => Math.abs(s.score - median)).sort((a, b) => a - b)[samples.length >> 1] || 1e-9;
+  const peaks: SweepSample[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i].score;
+    const left = i > 0 ? samples[i - 1].score : -Infinity;
+    const right = i < samples.length - 1 ? samples[i + 1].score : -Infinity;
+    if (s > left && s >= right && s - median > threshold * mad) peaks.push(samples[i]);
+  }
+  return peaks.sort((a, b) => b.score - a.score).slice(0, max);
+}
+
+/* -------------------- Rational approximations -------------------- */
+export interface Convergent {
+  p: number;
+  q: number;
+  /** x − p/q */
+  error: number;
+}
+
+/** Continued-fraction convergents p/q of x with q ≤ maxQ, coarsest first. */
+export function convergents(x: number, maxQ = 1000): Convergent[] {
+  const out: Convergent[] = [];
+  let [p0, q0, p1, q1] = [0, 1, 1, 0];
+  let r = x;
+  for (let i = 0; i < 32; i++) {
+    const a = Math.floor(r);
+    const [p, q] = [a * p1 + p0, a * q1 + q0];
+    if (q > maxQ) break;
+    out.push({ p, q, error: x - p / q });
+    if (Math.abs(x - p / q) < 1e-12) break;
+    [p0, q0, p1, q1] = [p1, q1, p, q];
+    r = 1 / (r - a);
+  }
+  return out;
+}
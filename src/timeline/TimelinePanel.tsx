@@ -0,0 +1,218 @@
+import { useRef, useState } from 'react';
+import { Film, Pause, Play, Plus, X } from 'lucide-react';
+import { downloadBlob } from '../download';
+import { MAX_ZIP_ENTRIES } from '../zip';
+import { EASINGS, frameTimes, upsertKeyframe, type Easing, type Keyframe, type Timeline } from './timeline';
+import {
+  exportFrameSequence, prepareFrameRenderer, recordWebM, type ExportProgress, type FrameScene,
+} from './exportFrames';
+
+interface TimelinePanelProps {
+  timeline: Timeline;
+  setTimeline: React.Dispatch<React.SetStateAction<Timeline>>;
+  playhead: number;
+  /** Moves the playhead; the view follows the timeline at the new time. */
+  seek: (t: number) => void;
+  playing: boolean;
+  setPlaying: (playing: boolean) => void;
+  /** The current view as a keyframe at time t. */
+  captureKeyframe: (t: number) => Keyframe;
+  scene: Omit<FrameScene, 'timeline'>;
+}
+
+type ExportKind = 'png' | 'svg' | 'webm';
+
+/** Keyframe editor, scrubber and offline export of the timeline. */
+export function TimelinePanel({ timeline, setTimeline, playhead, seek, playing, setPlaying, captureKeyframe, scene }: TimelinePanelProps) {
+  const { duration, fps, keyframes } = timeline;
+  const frameCount = frameTimes(timeline).length;
+  const [scale, setScale] = useState(1);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const job = useRef<AbortController | null>(null);
+
+  const updateKey = (index: number, patch: Partial<Keyframe>) =>
+    setTimeline(tl => {
+      const next = tl.keyframes.map((k, i) => (i === index ? { ...k, ...patch } : k));
+      return { ...tl, keyframes: next.sort((a, b) => a.time - b.time) };
+    });
+
+  const runExport = async (kind: ExportKind) => {
+    const controller = new AbortController();
+    job.current = controller;
+    setError(null);
+    setPlaying(false);
+    setProgress({ stage: 'Preparing', fraction: 0 });
+    const options = { signal: controller.signal, onProgress: setProgress };
+    try {
+      const render = await prepareFrameRenderer({ ...scene, timeline }, options);
+      const times = frameTimes(timeline);
+      const size = { width: scene.width, height: scene.height, scale };
+      if (kind === 'webm') {
+        downloadBlob(await recordWebM(render, times, fps, size, options), 'prime-spirals.webm', 'video/webm');
+      } else {
+        downloadBlob(await exportFrameSequence(render, times, kind, size, options), `prime-spirals-${kind}-frames.zip`, 'application/zip');
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (job.current === controller) { job.current = null; setProgress(null); }
+    }
+  };
+
+  const cancel = () => {
+    job.current?.abort();
+    job.current = null;
+    setProgress(null);
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/20 mt-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h3 className="text-white font-semibold mr-2">Timeline</h3>
+        <button
+          onClick={() => { if (!playing && playhead >= duration) seek(0); setPlaying(!playing); }}
+          disabled={keyframes.length === 0 || progress !== null}
+          className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded flex items-center gap-1 disabled:opacity-40"
+        >
+          {playing ? <Pause size={14} /> : <Play size={14} />}{playing ? 'Pause' : 'Play'}
+        </button>
+        <span className="text-gray-300 tabular-nums">{playhead.toFixed(2)} / {duration.toFixed(2)} s</span>
+        <button
+          onClick={() => setTimeline(tl => ({ ...tl, keyframes: upsertKeyframe(tl.keyframes, captureKeyframe(playhead)) }))}
+          className="ml-auto bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded flex items-center gap-1"
+          title="Store the current camera, count and geometry parameters at the playhead"
+        >
+          <Plus size={14} />Keyframe
+        </button>
+      </div>
+
+      <div className="relative">
+        <input
+          type="range" min={0} max={duration} step={1 / fps} value={Math.min(playhead, duration)}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="w-full" aria-label="Timeline position"
+        />
+        <div className="relative h-3">
+          {keyframes.map((k, i) => k.time <= duration && (
+            <button
+              key={i}
+              onClick={() => seek(k.time)}
+              className="absolute top-0 w-2 h-3 -ml-1 bg-yellow-300 rounded-sm"
+              style={{ left: `${(k.time / duration) * 100}%` }}
+              title={`Keyframe at ${k.time.toFixed(2)} s`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-2 text-gray-300">
+        <label>
+          Duration{' '}
+          <input
+            type="number" min={0.5} max={600} step={0.5} value={duration}
+            onChange={(e) => { const v = Number(e.target.value); if (v > 0) setTimeline(tl => ({ ...tl, duration: Math.min(600, v) })); }}
+            className="w-16 bg-white/10 text-white rounded px-1 border border-white/20"
+          /> s
+        </label>
+        <label>
+          FPS{' '}
+          <select
+            value={fps}
+            onChange={(e) => setTimeline(tl => ({ ...tl, fps: Number(e.target.value) }))}
+            className="bg-white/10 text-white rounded px-1 border border-white/20"
+          >
+            {[12, 24, 25, 30, 50, 60].map(v => <option key={v} value={v} className="text-gray-900">{v}</option>)}
+          </select>
+        </label>
+        <span>{frameCount} frames</span>
+      </div>
+
+      {keyframes.length > 0 && (
+        <table className="w-full mt-3 text-gray-200">
+          <thead>
+            <tr className="text-gray-400 text-xs text-left">
+              <th className="font-normal">Time (s)</th><th className="font-normal">Easing to next</th><th className="font-normal">Count</th><th />
+            </tr>
+          </thead>
+          <tbody>
+            {keyframes.map((k, i) => (
+              <tr key={i}>
+                <td>
+                  <input
+                    type="number" min={0} step={0.1} value={k.time}
+                    onChange={(e) => { const v = Number(e.target.value); if (v >= 0) updateKey(i, { time: v }); }}
+                    className="w-20 bg-white/10 text-white rounded px-1 border border-white/20"
+                  />
+                </td>
+                <td>
+                  <select
+                    value={k.easing}
+                    onChange={(e) => updateKey(i, { easing: e.target.value as Easing })}
+                    className="bg-white/10 text-white rounded px-1 border border-white/20"
+                  >
+                    {Object.keys(EASINGS).map(name => <option key={name} value={name} className="text-gray-900">{name}</option>)}
+                  </select>
+                </td>
+                <td className="tabular-nums">{k.N.toLocaleString()}</td>
+                <td className="text-right whitespace-nowrap">
+                  <button onClick={() => seek(k.time)} className="text-gray-300 hover:text-white px-1">Go</button>
+                  <button
+                    onClick={() => setTimeline(tl => ({ ...tl, keyframes: upsertKeyframe(tl.keyframes.filter((_, j) => j !== i), captureKeyframe(k.time)) }))}
+                    className="text-gray-300 hover:text-white px-1" title="Replace with the current view"
+                  >
+                    Update
+                  </button>
+                  <button
+                    onClick={() => setTimeline(tl => ({ ...tl, keyframes: tl.keyframes.filter((_, j) => j !== i) }))}
+                    className="text-gray-300 hover:text-white px-1 align-middle" title="Delete keyframe"
+                  >
+                    <X size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-3 pt-3 border-t border-white/10">
+        <Film size={16} className="text-gray-300" />
+        <select
+          value={scale}
+          onChange={(e) => setScale(Number(e.target.value))}
+          className="bg-white/10 text-white rounded px-1 border border-white/20"
+          title="Output resolution relative to the viewport"
+        >
+          {[1, 2, 3].map(v => (
+            <option key={v} value={v} className="text-gray-900">{Math.round(scene.width * v)}×{Math.round(scene.height * v)}</option>
+          ))}
+        </select>
+        {(['png', 'svg', 'webm'] as const).map(kind => (
+          <button
+            key={kind}
+            onClick={() => runExport(kind)}
+            disabled={keyframes.length === 0 || progress !== null || (kind !== 'webm' && frameCount > MAX_ZIP_ENTRIES)}
+            className="bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded disabled:opacity-40"
+            title={kind !== 'webm' && frameCount > MAX_ZIP_ENTRIES ? `A ZIP holds at most ${MAX_ZIP_ENTRIES.toLocaleString()} frames` : undefined}
+          >
+            {kind === 'webm' ? 'WebM video' : `${kind.toUpperCase()} frames (.zip)`}
+          </button>
+        ))}
+      </div>
+      {progress && (
+        <div className="flex items-center gap-2 mt-2 text-gray-300">
+          <span>{progress.stage}… {(progress.fraction * 100).toFixed(0)}%</span>
+          <div className="flex-1 h-1.5 bg-white/10 rounded">
+            <div className="h-full bg-blue-400 rounded" style={{ width: `${progress.fraction * 100}%` }} />
+          </div>
+          <button onClick={cancel} className="text-gray-300 hover:text-white">Cancel</button>
+        </div>
+      )}
+      {error && <div className="text-red-300 mt-2">Export failed: {error}</div>}
+      {keyframes.length === 0 && (
+        <p className="text-gray-400 mt-2">Set up a view and press <em>Keyframe</em>; move the playhead, change the view and add another.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import type { Point3D, SpiralGeometry } from '../geometry/types';
+import { resolveGeometryParams } from '../geometry/registry';
+import { getColorScheme } from '../coloring/schemes';
+import { createSequenceContext } from '../sequences/arithmetic';
+import type { SequenceParams } from '../sequences/registry';
+import { resolveSequenceLayers, type SequenceLayerState } from '../sequences/useSequenceLayers';
+import { sieveInWorker } from '../sieve/useSieve';
+import { packPointCloud, projectCloud, type PointCloud, type ProjectedFrame } from '../render/pointCloud';
+import { makeProjector } from '../render/projection';
+import { projectCueLines, type DepthCues, type Segments } from '../render/depthCues';
+import { clipTest, type ClipState, type RangeTest } from '../region/region';
+import { drawFrame } from '../render/canvasRenderer';
+import { renderFrameSVG } from '../render/svgRenderer';
+import { MAX_ZIP_ENTRIES, createZip, type ZipEntry } from '../zip';
+import { sampleTimeline, type Timeline } from './timeline';
+
+/* -------------------- Offline frame renderer -------------------- */
+/** Everything a frame depends on besides timeline time. */
+export interface FrameScene {
+  geometry: SpiralGeometry;
+  start: number;
+  /** Far windows: what `start` counts from (see viewState). */
+  origin: bigint;
+  width: number;
+  height: number;
+  perspective: boolean;
+  dotSize: number;
+  showPrimes: boolean;
+  showAllNumbers: boolean;
+  sequenceLayers: SequenceLayerState[];
+  colorScheme: string;
+  colorParams: SequenceParams;
+  /** Block size for the block coloring when the geometry has none of its own. */
+  blockSize: number;
+  /** Clipping planes and n-range, as on screen. */
+  clip: ClipState;
+  range: RangeTest | null;
+  cues: DepthCues;
+  /** The live view's point cap; keyframes above it are drawn at the cap, as playback does. */
+  maxN: number;
+  timeline: Timeline;
+}
+
+/** One frame's dots, plus the depth cues and their line sets for drawFrame and renderFrameSVG. */
+export interface RenderedFrame {
+  frame: ProjectedFrame;
+  cues: DepthCues;
+  path: Segments | null;
+  links: Segments | null;
+}
+
+export type FrameRenderer = (t: number) => RenderedFrame;
+
+export interface ExportProgress {
+  /** What is happening, for the progress line. */
+  stage: string;
+  /** 0 … 1 */
+  fraction: number;
+}
+
+interface ExportOptions {
+  onProgress?: (p: ExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Sieves the widest window the timeline reaches once, then returns a function from timeline time to
+ * a projected frame. Nothing in it reads the clock, so the same t always gives the same frame.
+ */
+export async function prepareFrameRenderer(scene: FrameScene, { onProgress, signal }: ExportOptions = {}): Promise<FrameRenderer> {
+  const { geometry, start, origin, timeline } = scene;
+  const maxN = Math.min(scene.maxN, Math.max(...timeline.keyframes.map(k => k.N)));
+  const end = start + maxN - 1;
+  const primes = await sieveInWorker(start, end, { origin, signal, onProgress: fraction => onProgress?.({ stage: 'Sieving', fraction }) });
+  const ctx = createSequenceContext(start, end, primes, origin);
+  const { highlight: layers } = resolveSequenceLayers(scene.sequenceLayers, ctx);
+  const scheme = getColorScheme(scene.colorScheme, origin !== 0n);
+  const colorParams = { ...Object.fromEntries((scheme.params ?? []).map(p => [p.key, p.default])), ...scene.colorParams };
+
+  // Consecutive frames usually share N and parameters; only the camera moves.
+  let cloudKey = '';
+  let cloud: PointCloud | null = null;
+  let points: Point3D[] = [];
+  let keep: ReturnType<typeof clipTest> = null;
+  let previous: ProjectedFrame | null = null;
+
+  return (t) => {
+    const sample = sampleTimeline(timeline.keyframes, t)!;
+    const N = Math.min(maxN, sample.N);
+    const params = resolveGeometryParams(geometry, sample.params);
+    const key = `${N}|${JSON.stringify(params)}`;
+    if (key !== cloudKey || !cloud) {
+      points = geometry.generate(N, params, { start });
+      // Plane fractions are of each frame's own bounds, as on screen
+      keep = clipTest(points, scene.clip, scene.range);
+      const coloring = scheme.build({ points, primes, ctx, blockSize: params.blockSize ?? scene.blockSize, params: colorParams });
+      cloud = packPointCloud(points, {
+        primes, showPrimes: scene.showPrimes, layers, showAllNumbers: scene.showAllNumbers, keep, colorOf: coloring.colorOf,
+      });
+      cloudKey = key;
+    }
+    const projector = makeProjector({ width: scene.width, height: scene.height, camera: sample.camera, perspective: scene.perspective });
+    previous = projectCloud(cloud, projector, scene.dotSize, previous);
+    return { frame: previous, cues: scene.cues, ...projectCueLines(scene.cues, points, primes, projector, keep) };
+  };
+}
+
+/* -------------------- Exporters -------------------- */
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function canvasOf(width: number, height: number, scale: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  return { canvas, ctx: canvas.getContext('2d')! };
+}
+
+/** Renders every time in `times` to `frame-0000.png|svg` … and packs them into one ZIP. */
+export async function exportFrameSequence(
+  render: FrameRenderer, times: number[], format: 'png' | 'svg', scene: Pick<FrameScene, 'width' | 'height'> & { scale: number },
+  { onProgress, signal }: ExportOptions = {},
+): Promise<Blob> {
+  // Checked before rendering, rather than after minutes of frames
+  if (times.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`${times.length.toLocaleString()} frames exceed the ${MAX_ZIP_ENTRIES.toLocaleString()} a ZIP can hold; shorten the timeline or lower the frame rate`);
+  }
+  const { canvas, ctx } = canvasOf(scene.width, scene.height, scene.scale);
+  const digits = Math.max(4, String(times.length - 1).length);
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < times.length; i++) {
+    if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+    const { frame, ...cues } = render(times[i]);
+    const name = `frame-${String(i).padStart(digits, '0')}.${format}`;
+    if (format === 'svg') {
+      entries.push({ name, data: encoder.encode(renderFrameSVG(frame, { ...scene, ...cues })) });
+    } else {
+      drawFrame(ctx, frame, { dpr: scene.scale, ...cues });
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error('The browser could not encode a PNG frame');
+      entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+    onProgress?.({ stage: 'Rendering frames', fraction: (i + 1) / times.length });
+    await nextTask();
+  }
+  return createZip(entries);
+}
+
+/**
+ * Records the frames into a WebM with MediaRecorder. Frame content comes from timeline time; the
+ * recorder stamps frames by wall clock, so frames are paced at 1 / fps and the video runs at the
+ * timeline's speed as long as rendering keeps up.
+ */
+export async function recordWebM(
+  render: FrameRenderer, times: number[], fps: number, scene: Pick<FrameScene, 'width' | 'height'> & { scale: number },
+  { onProgress, signal }: ExportOptions = {},
+): Promise<Blob> {
+  if (typeof MediaRecorder === 'undefined') throw new Error('This browser has no MediaRecorder');
+  const { canvas, ctx } = canvasOf(scene.width, scene.height, scene.scale);
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as (MediaStreamTrack & { requestFrame?: () => void })[];
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(t => MediaRecorder.isTypeSupported(t));
+  if (!mimeType) throw new Error('This browser cannot record WebM');
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  recorder.start();
+
+  try {
+    const interval = 1000 / fps;
+    let due = performance.now();
+    for (let i = 0; i < times.length; i++) {
+      if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+      const { frame, ...cues } = render(times[i]);
+      drawFrame(ctx, frame, { dpr: scene.scale, ...cues });
+      track.requestFrame?.();
+      onProgress?.({ stage: 'Recording', fraction: (i + 1) / times.length });
+      due += interval;
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, due - performance.now())));
+    }
+  } finally {
+    recorder.stop();
+    track.stop();
+  }
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+}
@@ -0,0 +1,102 @@
+import { quatNormalize, type Camera, type Quat } from '../render/camera';
+import type { GeometryParams } from '../geometry/types';
+
+/* -------------------- Keyframes -------------------- */
+export const EASINGS = {
+  linear: (u: number) => u,
+  'ease-in': (u: number) => u * u * u,
+  'ease-out': (u: number) => 1 - (1 - u) ** 3,
+  'ease-in-out': (u: number) => (u < 0.5 ? 4 * u * u * u : 1 - (-2 * u + 2) ** 3 / 2),
+  hold: (u: number) => (u < 1 ? 0 : 1),
+} satisfies Record<string, (u: number) => number>;
+
+export type Easing = keyof typeof EASINGS;
+
+/** The animatable slice of a view at one instant. */
+export interface Keyframe {
+  /** Seconds from the start of the timeline. */
+  time: number;
+  /** How the segment from this keyframe to the next one is eased. */
+  easing: Easing;
+  camera: Camera;
+  N: number;
+  /** Parameters of the active geometry, by schema name. */
+  params: GeometryParams;
+}
+
+export interface Timeline {
+  /** Seconds; keyframes past the end are kept but never reached. */
+  duration: number;
+  fps: number;
+  keyframes: Keyframe[];
+}
+
+export const DEFAULT_TIMELINE: Timeline = { duration: 10, fps: 30, keyframes: [] };
+
+export interface TimelineSample {
+  camera: Camera;
+  N: number;
+  params: GeometryParams;
+}
+
+/** Inserts a keyframe, replacing one at (almost) the same time, and keeps the list sorted. */
+export function upsertKeyframe(keyframes: Keyframe[], key: Keyframe): Keyframe[] {
+  return [...keyframes.filter(k => Math.abs(k.time - key.time) > 1e-3), key].sort((a, b) => a.time - b.time);
+}
+
+/* -------------------- Interpolation -------------------- */
+const lerp = (a: number, b: number, u: number) => a + (b - a) * u;
+// Scale-like quantities (distance, N) move at a constant rate in log space, so zooms feel even.
+const lerpLog = (a: number, b: number, u: number) => (a > 0 && b > 0 ? Math.exp(lerp(Math.log(a), Math.log(b), u)) : lerp(a, b, u));
+
+/** Spherical interpolation along the shorter arc. */
+export function slerp(a: Quat, b: Quat, u: number): Quat {
+  let dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+  const sign = dot < 0 ? -1 : 1;
+  dot *= sign;
+  if (dot > 0.9995) {
+    return quatNormalize([0, 1, 2, 3].map(i => lerp(a[i], sign * b[i], u)) as Quat);
+  }
+  const theta = Math.acos(dot);
+  const wa = Math.sin((1 - u) * theta) / Math.sin(theta);
+  const wb = (sign * Math.sin(u * theta)) / Math.sin(theta);
+  return [0, 1, 2, 3].map(i => wa * a[i] + wb * b[i]) as Quat;
+}
+
+function mix(a: Keyframe, b: Keyframe, u: number): TimelineSample {
+  const params: GeometryParams = { ...a.params, ...b.params };
+  for (const name of Object.keys(params)) {
+    if (name in a.params && name in b.params) params[name] = lerp(a.params[name], b.params[name], u);
+  }
+  return {
+    camera: {
+      orientation: slerp(a.camera.orientation, b.camera.orientation, u),
+      target: [0, 1, 2].map(i => lerp(a.camera.target[i], b.camera.target[i], u)) as Camera['target'],
+      distance: lerpLog(a.camera.distance, b.camera.distance, u),
+      focalLength: lerp(a.camera.focalLength, b.camera.focalLength, u),
+    },
+    N: Math.round(lerpLog(a.N, b.N, u)),
+    params,
+  };
+}
+
+/** The view at time t: a pure function of t, so playback and export agree frame for frame. */
+export function sampleTimeline(keyframes: Keyframe[], t: number): TimelineSample | null {
+  if (keyframes.length === 0) return null;
+  if (t <= keyframes[0].time) return mix(keyframes[0], keyframes[0], 0);
+  for (let i = 1; i < keyframes.length; i++) {
+    const a = keyframes[i - 1], b = keyframes[i];
+    if (t < b.time) {
+      const u = b.time > a.time ? (t - a.time) / (b.time - a.time) : 1;
+      return mix(a, b, EASINGS[a.easing](u));
+    }
+  }
+  const last = keyframes[keyframes.length - 1];
+  return mix(last, last, 0);
+}
+
+/** Frame times 0, 1/fps, … up to and including the last frame before `duration`. */
+export function frameTimes({ duration, fps }: Timeline): number[] {
+  const count = Math.max(1, Math.round(duration * fps));
+  return Array.from({ length: count }, (_, i) => i / fps);
+}
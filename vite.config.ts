@@ -1,7 +1,27 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
-export default defineConfig({
-  plugins: [react()],
-  base: '/prime-spirals-3d/',
-})
+export default defineConfig(({ mode }) => mode === 'lib'
+  // `vite build --mode lib`: the <prime-spiral> element as a standalone bundle, React included
+  ? {
+      plugins: [react()],
+      define: { 'process.env.NODE_ENV': JSON.stringify('production') },
+      // The sieve worker goes inside the bundle: a separate file would have to sit on the page's own origin
+      resolve: {
+        alias: [{ find: /^\.\/spawnWorker$/, replacement: fileURLToPath(new URL('./src/sieve/spawnWorker.inline.ts', import.meta.url)) }],
+      },
+      build: {
+        outDir: 'dist-lib',
+        lib: {
+          entry: 'src/embed/index.ts',
+          name: 'PrimeSpiral',
+          fileName: 'prime-spiral',
+          formats: ['es', 'umd'],
+        },
+      },
+    }
+  : {
+      plugins: [react()],
+      base: '/prime-spirals-3d/',
+    })